@@ -0,0 +1,360 @@
+import * as os from 'os'
+import * as path from 'path'
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import { CRC32C } from '@google-cloud/storage'
+import {
+  createInputReader,
+  main,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  EXIT_USAGE
+} from '../src/cli'
+import { GCSService } from '../src/services/gcs-service'
+
+jest.mock('@actions/core', () => ({
+  getInput: jest.fn(),
+  getIDToken: jest.fn(),
+  info: jest.fn(),
+  warning: jest.fn(),
+  debug: jest.fn(),
+  error: jest.fn()
+}))
+
+jest.mock('../src/services/gcs-service')
+
+const MockedGCSService = GCSService as jest.MockedClass<typeof GCSService>
+
+// Builds a complete zip archive holding only the given data before its trailer
+const zipWith = (data: string): Buffer => {
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt32LE(data.length, 16)
+  return Buffer.concat([Buffer.from(data), end])
+}
+
+const sha256 = (data: Buffer): string =>
+  crypto.createHash('sha256').update(data).digest('hex')
+
+describe('Command-Line Interface', () => {
+  let tempDir: string
+  let stdout: jest.SpyInstance
+  let stderr: jest.SpyInstance
+  // What GCS stores and describes for each version, and what a download returns
+  let stored: Record<string, Buffer>
+  let served: Record<string, Buffer>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-'))
+    stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true)
+    stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true)
+
+    stored = { '1.1.0': zipWith('v1.1.0'), '1.0.0': zipWith('v1.0.0') }
+    served = { ...stored }
+    MockedGCSService.prototype.listModuleVersions.mockResolvedValue([
+      { version: '1.1.0', size: 28, sha256: sha256(stored['1.1.0']) },
+      { version: '1.0.0', size: 28, sha256: sha256(stored['1.0.0']) }
+    ])
+    MockedGCSService.prototype.downloadObject.mockImplementation(
+      async (_bucket, object, destinationPath) => {
+        const version = object.replace(/^.*-(.+)\.zip$/, '$1')
+        fs.writeFileSync(destinationPath, served[version])
+        const crc32c = new CRC32C()
+        crc32c.update(stored[version])
+        return {
+          size: stored[version].length,
+          md5Hash: crypto
+            .createHash('md5')
+            .update(stored[version])
+            .digest('base64'),
+          crc32c: crc32c.toString()
+        }
+      }
+    )
+  })
+
+  afterEach(() => {
+    stdout.mockRestore()
+    stderr.mockRestore()
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  describe('createInputReader', () => {
+    test('prefers flags over environment variables and defaults', () => {
+      const getInput = createInputReader(
+        { 'gcs-bucket': 'flag-bucket' },
+        {
+          TF_GCS_PUBLISH_GCS_BUCKET: 'env-bucket',
+          TF_GCS_PUBLISH_MODULE_NAME: 'vpc'
+        }
+      )
+
+      expect(getInput('gcs-bucket')).toBe('flag-bucket')
+      expect(getInput('module-name')).toBe('vpc')
+      expect(getInput('module-path')).toBe('.')
+      expect(getInput('access')).toBe('')
+    })
+
+    test('turns boolean flags into action input strings', () => {
+      const getInput = createInputReader({ 'dry-run': true }, {})
+
+      expect(getInput('dry-run')).toBe('true')
+    })
+
+    test('throws when a required input is missing', () => {
+      const getInput = createInputReader({}, {})
+
+      expect(() => getInput('gcs-bucket', { required: true })).toThrow(
+        'Input required and not supplied: --gcs-bucket'
+      )
+    })
+  })
+
+  describe('main', () => {
+    test('prints the usage with --help', async () => {
+      expect(await main(['--help'], {})).toBe(EXIT_SUCCESS)
+      expect(stdout).toHaveBeenCalledWith(
+        expect.stringContaining('Usage: tf-gcs-publish')
+      )
+    })
+
+    test('rejects unknown commands and flags', async () => {
+      expect(await main(['frobnicate'], {})).toBe(EXIT_USAGE)
+      expect(await main([], {})).toBe(EXIT_USAGE)
+      expect(await main(['list', '--no-such-flag'], {})).toBe(EXIT_USAGE)
+      expect(stderr).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown command: frobnicate')
+      )
+    })
+
+    test('rejects invalid inputs before touching the bucket', async () => {
+      expect(
+        await main(['list', '--gcs-bucket', 'BAD', '--module-name', 'vpc'], {})
+      ).toBe(EXIT_USAGE)
+      expect(
+        await main(
+          ['verify', '--module-name', 'vpc', '--module-version', 'x'],
+          {
+            TF_GCS_PUBLISH_GCS_BUCKET: 'my-bucket'
+          }
+        )
+      ).toBe(EXIT_USAGE)
+      expect(MockedGCSService).not.toHaveBeenCalled()
+    })
+
+    test('lists the published versions as JSON', async () => {
+      const outputPath = path.join(tempDir, 'versions.json')
+
+      const exitCode = await main(
+        ['list', '--module-name', 'vpc', '--output', outputPath],
+        { TF_GCS_PUBLISH_GCS_BUCKET: 'my-bucket' }
+      )
+
+      expect(exitCode).toBe(EXIT_SUCCESS)
+      expect(
+        MockedGCSService.prototype.listModuleVersions
+      ).toHaveBeenCalledWith('my-bucket', 'modules/vpc', 'vpc')
+      expect(
+        JSON.parse(fs.readFileSync(outputPath, 'utf8')).map(
+          (entry: { version: string }) => entry.version
+        )
+      ).toEqual(['1.1.0', '1.0.0'])
+    })
+
+    test('publishes even when the verify input is left set', async () => {
+      const modulePath = path.join(tempDir, 'vpc')
+      fs.mkdirSync(modulePath)
+      fs.writeFileSync(path.join(modulePath, 'main.tf'), 'variable "name" {}\n')
+      const outputPath = path.join(tempDir, 'report.json')
+      MockedGCSService.prototype.inspectObject.mockResolvedValue({
+        exists: false
+      })
+
+      const exitCode = await main(
+        [
+          'publish',
+          '--module-name',
+          'vpc',
+          '--module-version',
+          '1.2.0',
+          '--module-path',
+          modulePath,
+          '--dry-run',
+          '--output',
+          outputPath
+        ],
+        {
+          TF_GCS_PUBLISH_GCS_BUCKET: 'my-bucket',
+          TF_GCS_PUBLISH_VERIFY: 'true'
+        }
+      )
+
+      expect(exitCode).toBe(EXIT_SUCCESS)
+      expect(JSON.parse(fs.readFileSync(outputPath, 'utf8'))).toEqual([
+        expect.objectContaining({
+          name: 'vpc',
+          version: '1.2.0',
+          action: 'create'
+        })
+      ])
+      expect(
+        MockedGCSService.prototype.downloadObject
+      ).not.toHaveBeenCalledWith(
+        'my-bucket',
+        expect.any(String),
+        expect.stringContaining('verify-')
+      )
+    })
+
+    // Runs the verify command and returns its exit code and JSON report
+    const verify = async (
+      ...args: string[]
+    ): Promise<{ exitCode: number; report: Record<string, unknown>[] }> => {
+      const outputPath = path.join(tempDir, 'report.json')
+      const exitCode = await main(
+        [
+          'verify',
+          '--gcs-bucket',
+          'my-bucket',
+          '--module-name',
+          'vpc',
+          '--output',
+          outputPath,
+          ...args
+        ],
+        {}
+      )
+      return {
+        exitCode,
+        report: JSON.parse(fs.readFileSync(outputPath, 'utf8'))
+      }
+    }
+
+    test('verifies every published archive', async () => {
+      const { exitCode, report } = await verify()
+
+      expect(exitCode).toBe(EXIT_SUCCESS)
+      expect(report).toEqual([
+        {
+          name: 'vpc',
+          version: '1.1.0',
+          object: 'modules/vpc/vpc-1.1.0.zip',
+          status: 'ok',
+          issues: [],
+          expectedSha256: sha256(stored['1.1.0']),
+          actualSha256: sha256(stored['1.1.0']),
+          expectedSize: 28,
+          actualSize: 28
+        },
+        expect.objectContaining({ version: '1.0.0', status: 'ok' })
+      ])
+      expect(MockedGCSService.prototype.downloadObject).toHaveBeenCalledWith(
+        'my-bucket',
+        'modules/vpc/vpc-1.0.0.zip',
+        expect.stringContaining('verify-vpc-1.0.0.zip')
+      )
+    })
+
+    test('reports archives replaced in the bucket as tampered', async () => {
+      stored['1.1.0'] = zipWith('evil!!')
+      served['1.1.0'] = stored['1.1.0']
+
+      const { exitCode, report } = await verify('--module-version', '1.1.0')
+
+      expect(exitCode).toBe(EXIT_FAILURE)
+      expect(report).toEqual([
+        expect.objectContaining({
+          version: '1.1.0',
+          status: 'tampered',
+          issues: ['SHA-256 hash does not match the sha256Hash metadata']
+        })
+      ])
+    })
+
+    test('reports archives that were cut short as truncated', async () => {
+      served['1.0.0'] = stored['1.0.0'].subarray(0, 10)
+
+      const { exitCode, report } = await verify('--module-version', '1.0.0')
+
+      expect(exitCode).toBe(EXIT_FAILURE)
+      expect(report).toEqual([
+        expect.objectContaining({
+          status: 'truncated',
+          issues: [
+            'downloaded 10 of 28 bytes',
+            'MD5 hash does not match the one reported by GCS',
+            'CRC32C checksum does not match the one reported by GCS',
+            'SHA-256 hash does not match the sha256Hash metadata'
+          ],
+          actualSize: 10
+        })
+      ])
+    })
+
+    test('reports archives without a recorded hash', async () => {
+      MockedGCSService.prototype.listModuleVersions.mockResolvedValue([
+        { version: '1.0.0', size: 28 }
+      ])
+
+      const { exitCode, report } = await verify()
+
+      expect(exitCode).toBe(EXIT_FAILURE)
+      expect(report).toEqual([
+        expect.objectContaining({
+          status: 'missing-metadata',
+          issues: ['no sha256Hash metadata was recorded at upload']
+        })
+      ])
+    })
+
+    test('checks signatures against a trusted public key', async () => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256'
+      })
+      const publicKeyPem = publicKey
+        .export({ type: 'spki', format: 'pem' })
+        .toString()
+      const signatures: Record<string, string> = {
+        'modules/vpc/vpc-1.1.0.zip.sig': crypto
+          .sign('sha256', stored['1.1.0'], privateKey)
+          .toString('base64'),
+        'modules/vpc/vpc-1.1.0.zip.pem': publicKeyPem
+      }
+      MockedGCSService.prototype.readObject.mockImplementation(
+        async (bucketName: string, objectPath: string) => signatures[objectPath]
+      )
+
+      // PEM values start with dashes, so they are given as --flag=value
+      const { exitCode, report } = await verify(
+        `--signing-public-key=${publicKeyPem}`
+      )
+
+      expect(exitCode).toBe(EXIT_FAILURE)
+      expect(report).toEqual([
+        expect.objectContaining({ version: '1.1.0', status: 'ok' }),
+        expect.objectContaining({
+          version: '1.0.0',
+          status: 'unsigned',
+          issues: ['archive is not signed']
+        })
+      ])
+    })
+
+    test('reports operation errors with the failure exit code', async () => {
+      MockedGCSService.prototype.listModuleVersions.mockRejectedValue(
+        new Error('Access denied')
+      )
+
+      const exitCode = await main(
+        ['list', '--gcs-bucket', 'my-bucket', '--module-name', 'vpc'],
+        {}
+      )
+
+      expect(exitCode).toBe(EXIT_FAILURE)
+      expect(stderr).toHaveBeenCalledWith(
+        'tf-gcs-publish list: Access denied\n'
+      )
+    })
+  })
+})
@@ -1,8 +1,9 @@
 // Import modules first
+import * as os from 'os'
 import * as path from 'path'
 import * as fs from 'fs'
+import * as crypto from 'crypto'
 import * as coreModule from '@actions/core'
-import * as execModule from '@actions/exec'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { InputOptions } from '@actions/core'
 
@@ -16,25 +17,59 @@ import {
   getValidatedInputs,
   validateInputs,
   createTempCredentialsFile,
+  prepareCredentials,
   processModuleUpload,
-  createZipArchive
+  planModuleUpload,
+  expandModules,
+  createZipArchive,
+  restoreModule,
+  yankModule
 } from '../src/main'
 // Note: createZipArchive is imported but accessed via main to allow mocking
 
+import {
+  CleanupMode,
+  ModuleAccess,
+  ModuleValidation,
+  OnExistingPolicy
+} from '../src/interfaces'
+
 // Import GCSService type for proper typing in our tests
 import { GCSService } from '../src/services/gcs-service'
 
+import { buildZipArchive } from '../src/utils/archive-utils'
+import * as commitUtils from '../src/utils/commit-utils'
+
 // Import the mocked calculateFileHash for direct testing/verification
-import { calculateFileHash } from '../src/utils/file-utils'
+import {
+  calculateFileChecksums,
+  calculateFileHash
+} from '../src/utils/file-utils'
 
 // Define a type for our GCSService mock that provides only the methods we care about
-type GCSServiceMock = Pick<GCSService, 'uploadToGCS' | 'cleanupOldVersions'>
+type GCSServiceMock = Pick<
+  GCSService,
+  | 'uploadToGCS'
+  | 'cleanupOldVersions'
+  | 'updateVersionIndex'
+  | 'updateJsonObject'
+  | 'listModuleVersions'
+  | 'deleteObject'
+  | 'inspectObject'
+  | 'listVersionsToDelete'
+  | 'restoreVersion'
+  | 'yankVersion'
+  | 'saveObject'
+  | 'updateChecksumManifest'
+  | 'updateAlias'
+>
 
 // Mock the file-utils module before tests run
 jest.mock('../src/utils/file-utils', () => ({
   calculateFileHash: jest
     .fn()
-    .mockImplementation(() => Promise.resolve('mocked-file-hash'))
+    .mockImplementation(() => Promise.resolve('mocked-file-hash')),
+  calculateFileChecksums: jest.fn()
 }))
 
 // Mock @actions/core to prevent actual inputs/outputs during tests
@@ -50,11 +85,6 @@ jest.mock('@actions/core', () => {
   }
 })
 
-// Mock @actions/exec to prevent actual command execution
-jest.mock('@actions/exec', () => ({
-  exec: jest.fn().mockResolvedValue(0)
-}))
-
 // Mock fs module to prevent actual file system operations
 jest.mock('fs', () => ({
   ...jest.requireActual('fs'),
@@ -121,9 +151,6 @@ describe('Main Action', () => {
     debug: jest.Mock
     error: jest.Mock
   }
-  const exec = execModule as unknown as {
-    exec: jest.Mock
-  }
 
   beforeEach(() => {
     // Reset all mocks before each test
@@ -157,8 +184,118 @@ describe('Main Action', () => {
         modulePath: './test-module',
         googleCredentialsJson: '{"test":"credentials"}',
         deleteOldVersions: true,
-        keepVersions: 3
+        keepVersions: 3,
+        includePatterns: [],
+        excludePatterns: [],
+        onExisting: 'fail',
+        access: 'public',
+        workloadIdentityProvider: undefined,
+        serviceAccount: undefined,
+        modules: undefined,
+        maxParallel: 4,
+        registryNamespace: undefined,
+        registryProvider: 'google',
+        dryRun: false,
+        keepPrereleases: 5,
+        dropReleasedPrereleases: false,
+        retentionPolicy: undefined,
+        cleanupMode: 'delete',
+        restore: false,
+        yank: false,
+        yankReason: undefined,
+        yankReplacement: undefined,
+        verify: false,
+        sign: false,
+        signingKey: undefined,
+        signingPublicKey: undefined,
+        validateModule: 'none',
+        breakingChanges: 'fail',
+        versionSource: 'input',
+        monotonicVersions: false,
+        maintenanceLines: [],
+        updateAliases: false
+      })
+    })
+
+    test('getValidatedInputs parses the retention policy expression', () => {
+      core.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'gcs-bucket': 'test-bucket',
+          'module-name': 'test-module',
+          'module-version': '1.0.0',
+          'module-path': './test-module',
+          'retention-policy': 'max-age:90d, latest-per-minor, pin:0.9.0'
+        }
+        return inputs[name] || ''
+      })
+
+      expect(getValidatedInputs().retentionPolicy).toEqual({
+        keepStable: 0,
+        keepPrereleases: 0,
+        dropReleasedPrereleases: false,
+        maxAgeDays: 90,
+        keepLatestPerMinor: true,
+        pinnedVersions: ['0.9.0']
+      })
+
+      core.getInput.mockImplementation((name: string) =>
+        name === 'retention-policy' ? 'keep-everything' : ''
+      )
+      expect(() => getValidatedInputs()).toThrow(
+        /Invalid retention-policy rule 'keep-everything'/
+      )
+    })
+
+    test('getValidatedInputs parses include and exclude lists', () => {
+      core.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'gcs-bucket': 'test-bucket',
+          'module-name': 'test-module',
+          'module-version': '1.0.0',
+          'module-path': './test-module',
+          'google-credentials': '{"test":"credentials"}',
+          include: '*.tf\nmodules/\n',
+          exclude: 'examples/, **/*_test.go'
+        }
+        return inputs[name] || ''
+      })
+
+      const options = getValidatedInputs()
+
+      expect(options.includePatterns).toEqual(['*.tf', 'modules/'])
+      expect(options.excludePatterns).toEqual(['examples/', '**/*_test.go'])
+    })
+
+    test('getValidatedInputs reads the version of the tag the workflow runs on', () => {
+      core.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'gcs-bucket': 'test-bucket',
+          'module-name': 'test-module',
+          'module-path': './test-module',
+          'version-source': 'tag'
+        }
+        return inputs[name] || ''
       })
+
+      try {
+        process.env.GITHUB_REF = 'refs/tags/v1.2.3'
+        expect(getValidatedInputs().moduleVersion).toBe('1.2.3')
+
+        process.env.GITHUB_REF = 'refs/tags/test-module/v2.0.0-rc.1'
+        expect(getValidatedInputs().moduleVersion).toBe('2.0.0-rc.1')
+
+        process.env.GITHUB_REF = 'refs/tags/gke/v1.2.3'
+        expect(() => getValidatedInputs()).toThrow(
+          'Tag gke/v1.2.3 releases module gke, not test-module'
+        )
+
+        process.env.GITHUB_REF = 'refs/heads/main'
+        expect(() => getValidatedInputs()).toThrow(
+          'version-source tag requires a tag naming a semantic version (e.g. v1.2.3 or vpc/v1.2.3), but the workflow runs on refs/heads/main'
+        )
+      } finally {
+        delete process.env.GITHUB_REF
+      }
     })
 
     test('validateInputs validates input parameters', () => {
@@ -202,11 +339,193 @@ describe('Main Action', () => {
       expect(() => validateInputs(invalidVersionOption)).toThrow(
         /Invalid module version/i
       )
+
+      // Should throw for a version with a 'v' prefix, which semver.valid accepts
+      expect(() =>
+        validateInputs({ ...validOptions, moduleVersion: 'v1.0.0' })
+      ).toThrow(/Invalid module version/i)
+
+      // Pre-releases and build metadata are valid versions
+      expect(() =>
+        validateInputs({ ...validOptions, moduleVersion: '2.0.0-rc.1+build.5' })
+      ).not.toThrow()
+
+      // Should throw for a negative keep-prereleases value
+      expect(() =>
+        validateInputs({ ...validOptions, keepPrereleases: -1 })
+      ).toThrow(/Invalid keep-prereleases value/i)
+
+      // Should throw for an unknown on-existing policy
+      const invalidOnExistingOption = {
+        ...validOptions,
+        onExisting: 'replace' as OnExistingPolicy
+      }
+      expect(() => validateInputs(invalidOnExistingOption)).toThrow(
+        /Invalid on-existing value/i
+      )
+
+      // Should throw for an unknown access mode
+      const invalidAccessOption = {
+        ...validOptions,
+        access: 'world-readable' as ModuleAccess
+      }
+      expect(() => validateInputs(invalidAccessOption)).toThrow(
+        /Invalid access value/i
+      )
+
+      // Should throw for an unknown cleanup mode
+      expect(() =>
+        validateInputs({
+          ...validOptions,
+          cleanupMode: 'storage-class:STANDARD' as CleanupMode
+        })
+      ).toThrow(/Invalid cleanup-mode value/i)
+
+      // A restore writes to the bucket, so it cannot be a dry run
+      expect(() =>
+        validateInputs({ ...validOptions, restore: true, dryRun: true })
+      ).toThrow(/restore cannot be combined with dry-run/)
+
+      // A yank needs a reason and a valid replacement version
+      expect(() =>
+        validateInputs({
+          ...validOptions,
+          yank: true,
+          yankReason: 'Leaks state'
+        })
+      ).not.toThrow()
+      expect(() => validateInputs({ ...validOptions, yank: true })).toThrow(
+        /yank requires yank-reason/
+      )
+      expect(() =>
+        validateInputs({
+          ...validOptions,
+          yank: true,
+          yankReason: 'Leaks state',
+          yankReplacement: 'v1.0.1'
+        })
+      ).toThrow(/Invalid yank-replacement value/)
+      expect(() =>
+        validateInputs({
+          ...validOptions,
+          yank: true,
+          yankReason: 'Leaks state',
+          restore: true
+        })
+      ).toThrow(/yank cannot be combined with restore or dry-run/)
+
+      // Maintenance lines only apply to the version order check
+      expect(() =>
+        validateInputs({
+          ...validOptions,
+          monotonicVersions: true,
+          maintenanceLines: ['1.x', '2.3.x']
+        })
+      ).not.toThrow()
+      expect(() =>
+        validateInputs({ ...validOptions, maintenanceLines: ['1.x'] })
+      ).toThrow(/maintenance-lines requires monotonic-versions to be set/)
+      expect(() =>
+        validateInputs({
+          ...validOptions,
+          monotonicVersions: true,
+          maintenanceLines: ['1.2.3']
+        })
+      ).toThrow(/Invalid maintenance-lines entry: 1.2.3/)
+
+      // A signing key is only used when signing is enabled
+      expect(() =>
+        validateInputs({ ...validOptions, signingKey: 'key' })
+      ).toThrow(/signing-key requires sign to be set/)
+      expect(() =>
+        validateInputs({ ...validOptions, sign: true, signingKey: 'key' })
+      ).toThrow(/Invalid signing-key value/)
+
+      // Verify mode checks every published version when none is given
+      expect(() =>
+        validateInputs({ ...validOptions, moduleVersion: '', verify: true })
+      ).not.toThrow()
+      expect(() =>
+        validateInputs({ ...validOptions, moduleVersion: '', verify: false })
+      ).toThrow(/Invalid module version/)
+      expect(() =>
+        validateInputs({ ...validOptions, verify: true, dryRun: true })
+      ).toThrow(/verify cannot be combined with restore, yank or dry-run/)
+    })
+
+    test('validateInputs checks the validate-module value but not the files', () => {
+      const realFs = jest.requireActual('fs')
+      const tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'main-test-'))
+      const options = {
+        bucketName: 'valid-bucket',
+        moduleName: 'vpc',
+        moduleVersion: '1.0.0',
+        modulePath: tempDir,
+        googleCredentialsJson: '{"type":"service_account"}',
+        deleteOldVersions: false,
+        keepVersions: 5
+      }
+
+      try {
+        expect(() =>
+          validateInputs({
+            ...options,
+            validateModule: 'strict' as ModuleValidation
+          })
+        ).toThrow(/Invalid validate-module value: strict/)
+
+        // The packaged files are checked by publishModule
+        realFs.writeFileSync(path.join(tempDir, 'README.md'), '# VPC')
+        expect(() =>
+          validateInputs({ ...options, validateModule: 'hcl' })
+        ).not.toThrow()
+      } finally {
+        realFs.rmSync(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('validateInputs validates authentication settings', () => {
+      const keylessOptions = {
+        bucketName: 'valid-bucket',
+        moduleName: 'valid-module',
+        moduleVersion: '1.0.0',
+        modulePath: './path/to/module',
+        googleCredentialsJson: '',
+        deleteOldVersions: false,
+        keepVersions: 5,
+        workloadIdentityProvider:
+          'projects/123456/locations/global/workloadIdentityPools/github/providers/my-repo',
+        serviceAccount: 'publisher@my-project.iam.gserviceaccount.com'
+      }
+
+      // Keyless and Application Default Credentials configurations are valid
+      expect(() => validateInputs(keylessOptions)).not.toThrow()
+      expect(() =>
+        validateInputs({
+          ...keylessOptions,
+          workloadIdentityProvider: undefined,
+          serviceAccount: undefined
+        })
+      ).not.toThrow()
+
+      // A key and a Workload Identity Provider are mutually exclusive
+      expect(() =>
+        validateInputs({ ...keylessOptions, googleCredentialsJson: '{}' })
+      ).toThrow(/Only one of google-credentials and workload-identity-provider/)
+
+      // Impersonation requires a Workload Identity Provider
+      expect(() =>
+        validateInputs({
+          ...keylessOptions,
+          workloadIdentityProvider: undefined
+        })
+      ).toThrow(/service-account requires workload-identity-provider/)
     })
   })
 
   describe('Credentials Handling', () => {
     const tempFilePath = '/tmp/google-credentials.json'
+    const originalJsonParse = JSON.parse
 
     beforeEach(() => {
       // Reset all mocks before each test
@@ -214,7 +533,6 @@ describe('Main Action', () => {
       process.env.RUNNER_TEMP = '/tmp'
 
       // Mock JSON.parse for our invalid JSON test
-      const originalJsonParse = JSON.parse
       JSON.parse = jest.fn().mockImplementation((json) => {
         if (json === '{invalid:json}') {
           throw new Error('Invalid JSON')
@@ -226,6 +544,7 @@ describe('Main Action', () => {
     afterEach(() => {
       // Restore original functions
       jest.restoreAllMocks()
+      JSON.parse = originalJsonParse
       delete process.env.RUNNER_TEMP
     })
 
@@ -257,6 +576,33 @@ describe('Main Action', () => {
     })
   })
 
+  describe('Credentials Selection', () => {
+    test('prepareCredentials falls back to Application Default Credentials', async () => {
+      const credentials = await prepareCredentials({
+        googleCredentialsJson: ''
+      })
+
+      expect(credentials).toEqual({ tempFiles: [] })
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining('Application Default Credentials')
+      )
+    })
+
+    test('prepareCredentials writes a service account key to a temp file', async () => {
+      process.env.RUNNER_TEMP = '/tmp'
+
+      const credentials = await prepareCredentials({
+        googleCredentialsJson: '{"type":"service_account"}'
+      })
+
+      expect(credentials).toEqual({
+        credentialsPath: '/tmp/google-credentials.json',
+        tempFiles: ['/tmp/google-credentials.json']
+      })
+      delete process.env.RUNNER_TEMP
+    })
+  })
+
   describe('Zip Archive Creation', () => {
     beforeEach(() => {
       // Clear mocks before each test
@@ -271,57 +617,49 @@ describe('Main Action', () => {
     })
 
     test('creates a zip archive successfully', async () => {
-      // Setup
-      const sourcePath = path.join(__dirname, 'test-module')
-      const outputPath = path.join(__dirname, 'test-module.zip')
-
-      // Create a proper mock response sequence for existsSync
-      // First call: check if source path exists -> true
-      // Second call: check if output file exists after zip -> true
-      ;(fs.existsSync as jest.Mock)
-        .mockImplementationOnce(() => true) // sourcePath exists
-        .mockImplementationOnce(() => true) // outputPath exists after zip
+      // Create a real module directory; writeFileSync is mocked in this file
+      const realFs = jest.requireActual('fs')
+      const tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'main-test-'))
+      const sourcePath = path.join(tempDir, 'test-module')
+      const outputPath = path.join(tempDir, 'test-module.zip')
+      realFs.mkdirSync(sourcePath)
+      realFs.writeFileSync(path.join(sourcePath, 'main.tf'), 'test content')
 
-      // Mock exec to simulate successful zip command execution
-      // Just return resolved promise without actually running zip
-      ;(exec.exec as jest.Mock).mockResolvedValueOnce(0) // Zero exit code means success
-
-      // Create a temporary test directory
-      // Use real fs.existsSync for directory creation
-      const realExistsSync = jest.requireActual('fs').existsSync
-      if (!realExistsSync(sourcePath)) {
-        fs.mkdirSync(sourcePath, { recursive: true })
-      }
+      // Source path exists
+      ;(fs.existsSync as jest.Mock).mockReturnValueOnce(true)
 
       try {
-        // Write a test file
-        fs.writeFileSync(path.join(sourcePath, 'test-file.txt'), 'test content')
-
         // Test the actual createZipArchive function
         const result = await createZipArchive(sourcePath, outputPath)
 
-        // Verify result
-        expect(result).toBe(outputPath)
+        // Verify the packaged files are returned and logged
+        expect(result).toEqual(['main.tf'])
+        expect(core.info).toHaveBeenCalledWith('  main.tf')
 
-        // Verify exec was called with correct parameters including exclusion patterns
-        expect(exec.exec).toHaveBeenCalledWith(
-          'zip',
-          ['-r', outputPath, '.', '-x', '*.git*', '*.DS_Store'],
-          expect.objectContaining({
-            cwd: sourcePath
-          })
-        )
+        // Verify a zip file (local file header signature) was written
+        expect(realFs.readFileSync(outputPath).readUInt32LE(0)).toBe(0x04034b50)
 
         // Verify fs.existsSync was called to check source path
         expect(fs.existsSync).toHaveBeenCalledWith(sourcePath)
       } finally {
-        // Cleanup - use the real fs.existsSync for cleanup
-        jest.restoreAllMocks() // Restore original fs.existsSync before checking
+        realFs.rmSync(tempDir, { recursive: true, force: true })
+      }
+    })
 
-        // Cleanup source directory with real fs functions
-        if (realExistsSync(sourcePath)) {
-          fs.rmSync(sourcePath, { recursive: true, force: true })
-        }
+    test('throws error when no files match the patterns', async () => {
+      const realFs = jest.requireActual('fs')
+      const tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'main-test-'))
+      realFs.writeFileSync(path.join(tempDir, 'README.md'), '# Module')
+      ;(fs.existsSync as jest.Mock).mockReturnValueOnce(true)
+
+      try {
+        await expect(
+          createZipArchive(tempDir, path.join(tempDir, 'module.zip'), {
+            include: ['*.tf']
+          })
+        ).rejects.toThrow(/No files to package/)
+      } finally {
+        realFs.rmSync(tempDir, { recursive: true, force: true })
       }
     })
 
@@ -337,66 +675,15 @@ describe('Main Action', () => {
       await expect(createZipArchive(sourcePath, outputPath)).rejects.toThrow(
         `Source path ${sourcePath} does not exist`
       )
-
-      // Verify exec was not called
-      expect(exec.exec).not.toHaveBeenCalled()
-    })
-
-    test('throws error when zip file is not created', async () => {
-      // Setup
-      const sourcePath = path.join(__dirname, 'test-module')
-      const outputPath = path.join(__dirname, 'test-module.zip')
-
-      // Mock sequence of fs.existsSync calls:
-      // 1. Check if source exists -> true
-      // 2. Check if output exists after zip -> false (zip failed to create file)
-      ;(fs.existsSync as jest.Mock)
-        .mockReturnValueOnce(true) // Source path exists
-        .mockReturnValueOnce(false) // Output file doesn't exist after zip
-
-      // Mock exec to simulate successful command execution
-      // but file creation still fails
-      ;(exec.exec as jest.Mock).mockResolvedValueOnce(0)
-
-      // Create a temporary test directory
-      const realExistsSync = jest.requireActual('fs').existsSync
-      if (!realExistsSync(sourcePath)) {
-        fs.mkdirSync(sourcePath, { recursive: true })
-      }
-
-      try {
-        // Test the function should throw an error
-        await expect(createZipArchive(sourcePath, outputPath)).rejects.toThrow(
-          `Failed to create zip file at ${outputPath}`
-        )
-
-        // Verify exec was called with correct parameters
-        expect(exec.exec).toHaveBeenCalledWith(
-          'zip',
-          ['-r', outputPath, '.', '-x', '*.git*', '*.DS_Store'],
-          expect.objectContaining({
-            cwd: sourcePath
-          })
-        )
-      } finally {
-        // Cleanup - use the real fs.existsSync for cleanup
-        jest.restoreAllMocks()
-
-        // Cleanup source directory with real fs functions
-        if (realExistsSync(sourcePath)) {
-          fs.rmSync(sourcePath, { recursive: true, force: true })
-        }
-      }
     })
   })
 
   describe('Module Upload Processing', () => {
     // Define mock functions for GCS operations
-    const mockUploadToGCS = jest
-      .fn()
-      .mockResolvedValue(
-        'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.zip'
-      )
+    const mockUploadToGCS = jest.fn().mockResolvedValue({
+      url: 'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.zip',
+      uploaded: true
+    })
     const mockCleanupOldVersions = jest.fn().mockResolvedValue(undefined)
 
     // Mock implementation is defined in the jest.mock call at the top
@@ -410,10 +697,6 @@ describe('Main Action', () => {
     beforeEach(() => {
       jest.resetAllMocks()
 
-      // Mock the createZipArchive function
-      // @ts-expect-error - Mocking the imported function directly
-      createZipArchive = jest.fn().mockResolvedValue('/tmp/test-module.zip')
-
       // Setup GCSService mock implementation
       const GCSServiceMock = jest.fn().mockImplementation(() => ({
         uploadToGCS: mockUploadToGCS,
@@ -553,13 +836,31 @@ describe('Main Action', () => {
 
   describe('Direct Module Upload Test', () => {
     // Define mock functions
-    const mockUploadGcs = jest.fn().mockResolvedValue('mock-upload-result')
+    const mockUploadGcs = jest.fn()
     const mockCleanupVersions = jest.fn().mockResolvedValue(undefined)
+    const mockUpdateIndex = jest.fn()
+    const mockUpdateJson = jest.fn()
+    const mockListVersions = jest.fn()
+    const mockDeleteObject = jest.fn()
+    const mockSaveObject = jest.fn()
+    const mockUpdateChecksums = jest.fn()
+    const mockUpdateAlias = jest.fn()
 
     // Create mock GCSService
     const mockGcsService: GCSServiceMock = {
       uploadToGCS: mockUploadGcs,
-      cleanupOldVersions: mockCleanupVersions
+      cleanupOldVersions: mockCleanupVersions,
+      updateVersionIndex: mockUpdateIndex,
+      updateJsonObject: mockUpdateJson,
+      listModuleVersions: mockListVersions,
+      deleteObject: mockDeleteObject,
+      inspectObject: jest.fn(),
+      listVersionsToDelete: jest.fn(),
+      restoreVersion: jest.fn(),
+      yankVersion: jest.fn(),
+      saveObject: mockSaveObject,
+      updateChecksumManifest: mockUpdateChecksums,
+      updateAlias: mockUpdateAlias
     }
 
     // Mock the calculateFileHash function
@@ -574,6 +875,15 @@ describe('Main Action', () => {
       ;(calculateFileHash as jest.Mock).mockImplementation(() =>
         Promise.resolve(mockFileHash)
       )
+      mockUploadGcs.mockResolvedValue({
+        url: 'mock-upload-result',
+        uploaded: true
+      })
+      mockUpdateIndex.mockResolvedValue({
+        module: 'test-module',
+        updated: '',
+        versions: []
+      })
     })
 
     test('processModuleUpload handles module upload with cleanup', async () => {
@@ -585,8 +895,10 @@ describe('Main Action', () => {
         modulePath: './test-module',
         googleCredentialsJson: '{}',
         deleteOldVersions: true,
-        keepVersions: 3
+        keepVersions: 3,
+        onExisting: 'skip-if-identical' as OnExistingPolicy
       }
+      process.env.GITHUB_SHA = 'abc123'
 
       // Create a zip file path for the test
       const zipFilePath = '/tmp/test-module-1.0.0.zip'
@@ -599,9 +911,26 @@ describe('Main Action', () => {
         zipFilePath
       )
 
-      // Verify result matches expected GCS path
-      expect(result).toBe(
-        'gs://test-bucket/modules/test-module/test-module-1.0.0.zip'
+      // Verify result is the public module source URL and its provenance
+      expect(result).toEqual({
+        moduleUrl:
+          'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.zip',
+        provenanceUrl:
+          'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.intoto.jsonl'
+      })
+
+      // Verify the provenance attests the uploaded archive before it is listed
+      expect(mockSaveObject).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/test-module/test-module-1.0.0.intoto.jsonl',
+        expect.stringContaining(
+          '"subject":[{"name":"test-module-1.0.0.zip","digest":{"sha256":"mock-file-hash-123"}}]'
+        ),
+        'application/vnd.in-toto+json',
+        undefined
+      )
+      expect(mockSaveObject.mock.invocationCallOrder[0]).toBeLessThan(
+        mockUpdateIndex.mock.invocationCallOrder[0]
       )
 
       // Verify GCS upload was called correctly
@@ -609,8 +938,14 @@ describe('Main Action', () => {
         'test-bucket',
         zipFilePath,
         'modules/test-module/test-module-1.0.0.zip',
-        mockFileHash // Use the mock value we've defined
+        mockFileHash, // Use the mock value we've defined
+        {
+          onExisting: 'skip-if-identical',
+          access: undefined,
+          gitCommit: 'abc123'
+        }
       )
+      delete process.env.GITHUB_SHA
 
       // Verify cleanup was called
       expect(mockCleanupVersions).toHaveBeenCalledWith(
@@ -618,7 +953,20 @@ describe('Main Action', () => {
         'modules/test-module',
         'test-module',
         '1.0.0',
-        3
+        { keepStable: 3, keepPrereleases: 3, dropReleasedPrereleases: false },
+        undefined
+      )
+
+      // Verify the index was updated after the upload and again after cleanup
+      expect(mockUpdateIndex).toHaveBeenCalledTimes(2)
+      expect(mockUpdateIndex).toHaveBeenLastCalledWith(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        undefined
+      )
+      expect(mockUpdateIndex.mock.invocationCallOrder[1]).toBeGreaterThan(
+        mockCleanupVersions.mock.invocationCallOrder[0]
       )
     })
 
@@ -639,7 +987,7 @@ describe('Main Action', () => {
 
       // Call the function being tested
       // Type assertion with our GCSServiceMock type is sufficient for the test
-      await processModuleUpload(
+      const result = await processModuleUpload(
         options,
         mockGcsService as GCSService,
         zipFilePath
@@ -648,8 +996,1055 @@ describe('Main Action', () => {
       // Verify upload was called
       expect(mockUploadGcs).toHaveBeenCalled()
 
-      // Verify cleanup was NOT called
+      // Verify cleanup was NOT called, but the index was still updated
       expect(mockCleanupVersions).not.toHaveBeenCalled()
+      expect(mockUpdateIndex).toHaveBeenCalledTimes(1)
+      expect(result.moduleUrl).toBe(
+        'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.zip'
+      )
+    })
+
+    test('processModuleUpload returns a gcs:: source for private modules', async () => {
+      const options = {
+        bucketName: 'test-bucket',
+        moduleName: 'test-module',
+        moduleVersion: '1.0.0',
+        modulePath: './test-module',
+        googleCredentialsJson: '{}',
+        deleteOldVersions: false,
+        keepVersions: 3,
+        access: 'private' as ModuleAccess
+      }
+
+      const result = await processModuleUpload(
+        options,
+        mockGcsService as GCSService,
+        '/tmp/test-module-1.0.0.zip'
+      )
+
+      expect(mockUploadGcs).toHaveBeenCalledWith(
+        'test-bucket',
+        '/tmp/test-module-1.0.0.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        mockFileHash,
+        expect.objectContaining({ access: 'private' })
+      )
+      expect(result.moduleUrl).toBe(
+        'gcs::https://www.googleapis.com/storage/v1/test-bucket/modules/test-module/test-module-1.0.0.zip'
+      )
+    })
+
+    test('processModuleUpload keeps the companions of an identical published archive', async () => {
+      mockUploadGcs.mockResolvedValue({
+        url: 'mock-upload-result',
+        uploaded: false
+      })
+      const options = {
+        bucketName: 'test-bucket',
+        moduleName: 'test-module',
+        moduleVersion: '1.0.0',
+        modulePath: './test-module',
+        googleCredentialsJson: '{}',
+        deleteOldVersions: false,
+        keepVersions: 3,
+        onExisting: 'skip-if-identical' as OnExistingPolicy
+      }
+      const descriptor = {
+        name: 'test-module',
+        version: '1.0.0',
+        providers: [],
+        inputs: [],
+        outputs: [],
+        submodules: []
+      }
+
+      const result = await processModuleUpload(
+        options,
+        mockGcsService as GCSService,
+        '/tmp/test-module-1.0.0.zip',
+        descriptor
+      )
+
+      // Neither the provenance statement nor the descriptor is written again
+      expect(mockSaveObject).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        moduleUrl:
+          'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.zip'
+      })
+      expect(mockUpdateIndex).toHaveBeenCalled()
+    })
+
+    test('processModuleUpload moves the aliases of releases before cleanup', async () => {
+      const options = {
+        bucketName: 'test-bucket',
+        moduleName: 'test-module',
+        moduleVersion: '1.2.0',
+        modulePath: './test-module',
+        googleCredentialsJson: '{}',
+        deleteOldVersions: true,
+        keepVersions: 3,
+        updateAliases: true
+      }
+
+      await processModuleUpload(
+        options,
+        mockGcsService as GCSService,
+        '/tmp/test-module-1.2.0.zip'
+      )
+
+      expect(mockUpdateAlias.mock.calls).toEqual([
+        [
+          'test-bucket',
+          'modules/test-module/test-module-1.2.0.zip',
+          'modules/test-module/test-module-latest.zip',
+          '1.2.0',
+          undefined
+        ],
+        [
+          'test-bucket',
+          'modules/test-module/test-module-1.2.0.zip',
+          'modules/test-module/test-module-1.x.zip',
+          '1.2.0',
+          undefined
+        ]
+      ])
+      // Cleanup must see the versions the aliases point at
+      expect(mockUpdateAlias.mock.invocationCallOrder[1]).toBeLessThan(
+        mockCleanupVersions.mock.invocationCallOrder[0]
+      )
+
+      // Pre-releases never move the aliases
+      mockUpdateAlias.mockClear()
+      await processModuleUpload(
+        { ...options, moduleVersion: '2.0.0-rc.1' },
+        mockGcsService as GCSService,
+        '/tmp/test-module-2.0.0-rc.1.zip'
+      )
+      expect(mockUpdateAlias).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Module Registry Layout', () => {
+    const mockUploadGcs = jest.fn()
+    const mockCleanupVersions = jest.fn()
+    const mockUpdateIndex = jest.fn()
+    const mockListVersions = jest.fn()
+    const mockDeleteObject = jest.fn()
+    const mockUpdateJson = jest.fn()
+    const mockSaveObject = jest.fn()
+    const mockUpdateChecksums = jest.fn()
+    const documents: Record<string, unknown> = {}
+
+    const mockGcsService: GCSServiceMock = {
+      uploadToGCS: mockUploadGcs,
+      cleanupOldVersions: mockCleanupVersions,
+      updateVersionIndex: mockUpdateIndex,
+      updateJsonObject: mockUpdateJson,
+      listModuleVersions: mockListVersions,
+      deleteObject: mockDeleteObject,
+      inspectObject: jest.fn(),
+      listVersionsToDelete: jest.fn(),
+      restoreVersion: jest.fn(),
+      yankVersion: jest.fn(),
+      saveObject: mockSaveObject,
+      updateChecksumManifest: mockUpdateChecksums,
+      updateAlias: jest.fn()
+    }
+
+    const options = {
+      bucketName: 'test-bucket',
+      moduleName: 'vpc',
+      moduleVersion: '1.1.0',
+      modulePath: './vpc',
+      googleCredentialsJson: '{}',
+      deleteOldVersions: false,
+      keepVersions: 1,
+      registryNamespace: 'infraspec',
+      registryProvider: 'google'
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      for (const key of Object.keys(documents)) {
+        delete documents[key]
+      }
+      documents['.well-known/terraform.json'] = {
+        'providers.v1': '/v1/providers/'
+      }
+      // Apply each read-modify-write update to an in-memory bucket
+      mockUpdateJson.mockImplementation(
+        async (
+          _bucket: string,
+          destination: string,
+          update: (current: unknown) => unknown
+        ) => {
+          documents[destination] = await update(documents[destination])
+          return documents[destination]
+        }
+      )
+      ;(calculateFileHash as jest.Mock).mockResolvedValue('mock-file-hash')
+      mockUploadGcs.mockResolvedValue({
+        url: 'mock-upload-result',
+        uploaded: true
+      })
+      mockListVersions.mockResolvedValue([
+        { version: '1.1.0', size: 1 },
+        { version: '1.0.0', size: 1 }
+      ])
+      mockUpdateIndex.mockResolvedValue({
+        module: 'vpc',
+        updated: '',
+        versions: []
+      })
+    })
+
+    test('writes the registry files next to the archive', async () => {
+      await processModuleUpload(
+        options,
+        mockGcsService as GCSService,
+        '/tmp/vpc-1.1.0.zip'
+      )
+
+      const archiveUrl =
+        'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.1.0.zip'
+      expect(documents).toEqual({
+        '.well-known/terraform.json': {
+          'providers.v1': '/v1/providers/',
+          'modules.v1': '/v1/modules/'
+        },
+        'v1/modules/infraspec/vpc/google/versions': {
+          modules: [{ versions: [{ version: '1.1.0' }, { version: '1.0.0' }] }]
+        },
+        'v1/modules/infraspec/vpc/google/1.1.0/download': {
+          location: archiveUrl
+        }
+      })
+      expect(mockUpdateJson).toHaveBeenCalledWith(
+        'test-bucket',
+        'v1/modules/infraspec/vpc/google/1.1.0/download',
+        expect.any(Function),
+        { access: undefined, metadata: { 'x-terraform-get': archiveUrl } }
+      )
+      // The download object must exist before the version is listed
+      expect(mockUpdateJson.mock.calls[0][1]).toBe(
+        'v1/modules/infraspec/vpc/google/1.1.0/download'
+      )
+    })
+
+    test('removes deleted versions from the registry', async () => {
+      mockCleanupVersions.mockResolvedValue(['0.9.0'])
+
+      await processModuleUpload(
+        { ...options, deleteOldVersions: true },
+        mockGcsService as GCSService,
+        '/tmp/vpc-1.1.0.zip'
+      )
+
+      expect(mockDeleteObject).toHaveBeenCalledWith(
+        'test-bucket',
+        'v1/modules/infraspec/vpc/google/0.9.0/download'
+      )
+      expect(mockUpdateJson).toHaveBeenLastCalledWith(
+        'test-bucket',
+        'v1/modules/infraspec/vpc/google/versions',
+        expect.any(Function),
+        { access: undefined }
+      )
+    })
+
+    test('restores a retired version and lists it again', async () => {
+      ;(mockGcsService.restoreVersion as jest.Mock).mockResolvedValue(
+        'modules/vpc/vpc-1.0.0.zip'
+      )
+
+      const result = await restoreModule(
+        { ...options, moduleVersion: '1.0.0' },
+        mockGcsService as GCSService
+      )
+
+      const archiveUrl =
+        'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.0.0.zip'
+      expect(mockGcsService.restoreVersion).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc',
+        'vpc',
+        '1.0.0',
+        undefined
+      )
+      expect(result).toEqual({
+        moduleName: 'vpc',
+        moduleVersion: '1.0.0',
+        moduleUrl: archiveUrl,
+        packagedFiles: []
+      })
+      expect(mockUpdateIndex).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc',
+        'vpc',
+        undefined
+      )
+      expect(
+        documents['v1/modules/infraspec/vpc/google/1.0.0/download']
+      ).toEqual({ location: archiveUrl })
+      expect(mockUploadGcs).not.toHaveBeenCalled()
+    })
+
+    test('yanks a version and flags it in the registry', async () => {
+      const yanked = {
+        reason: 'Leaks state',
+        replacement: '1.0.1',
+        yankedBy: 'octocat',
+        yankedAt: '2024-03-01T00:00:00.000Z'
+      }
+      ;(mockGcsService.yankVersion as jest.Mock).mockResolvedValue(
+        'modules/vpc/vpc-1.0.0.zip'
+      )
+      mockListVersions.mockResolvedValue([
+        { version: '1.0.1', size: 1 },
+        { version: '1.0.0', size: 1, yanked }
+      ])
+      process.env.GITHUB_ACTOR = 'octocat'
+
+      const result = await yankModule(
+        {
+          ...options,
+          moduleVersion: '1.0.0',
+          yank: true,
+          yankReason: 'Leaks state',
+          yankReplacement: '1.0.1'
+        },
+        mockGcsService as GCSService
+      )
+      delete process.env.GITHUB_ACTOR
+
+      expect(mockGcsService.yankVersion).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc',
+        'vpc',
+        '1.0.0',
+        {
+          reason: 'Leaks state',
+          replacement: '1.0.1',
+          yankedBy: 'octocat',
+          yankedAt: expect.any(String)
+        }
+      )
+      expect(result.moduleUrl).toBe(
+        'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.0.0.zip'
+      )
+      expect(mockUpdateIndex).toHaveBeenCalledTimes(1)
+      expect(documents['v1/modules/infraspec/vpc/google/versions']).toEqual({
+        modules: [
+          {
+            versions: [
+              { version: '1.0.1' },
+              {
+                version: '1.0.0',
+                deprecation: { reason: 'Leaks state (use 1.0.1 instead)' }
+              }
+            ]
+          }
+        ]
+      })
+      expect(mockUploadGcs).not.toHaveBeenCalled()
+    })
+
+    test('does not write registry files without a namespace', async () => {
+      await processModuleUpload(
+        { ...options, registryNamespace: undefined },
+        mockGcsService as GCSService,
+        '/tmp/vpc-1.1.0.zip'
+      )
+
+      expect(mockUpdateJson).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Dry Run', () => {
+    const mockInspect = jest.fn()
+    const mockListDeletions = jest.fn()
+    const mockGcsService = {
+      inspectObject: mockInspect,
+      listVersionsToDelete: mockListDeletions,
+      restoreVersion: jest.fn(),
+      yankVersion: jest.fn()
+    } as unknown as GCSService
+
+    const options = {
+      bucketName: 'test-bucket',
+      moduleName: 'vpc',
+      moduleVersion: '1.1.0',
+      modulePath: './vpc',
+      googleCredentialsJson: '{}',
+      deleteOldVersions: true,
+      keepVersions: 2
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      ;(calculateFileHash as jest.Mock).mockResolvedValue('new-hash')
+      mockInspect.mockResolvedValue({ exists: false })
+      mockListDeletions.mockResolvedValue(['modules/vpc/vpc-0.9.0.zip'])
+    })
+
+    test('plans the upload and the cleanup', async () => {
+      await expect(
+        planModuleUpload(options, mockGcsService, '/tmp/vpc-1.1.0.zip')
+      ).resolves.toEqual({
+        destination: 'modules/vpc/vpc-1.1.0.zip',
+        sha256: 'new-hash',
+        action: 'create',
+        deletions: ['modules/vpc/vpc-0.9.0.zip']
+      })
+      expect(mockListDeletions).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc',
+        'vpc',
+        '1.1.0',
+        { keepStable: 2, keepPrereleases: 2, dropReleasedPrereleases: false },
+        []
+      )
+    })
+
+    test('plans the cleanup with the aliases the run would move', async () => {
+      await planModuleUpload(
+        { ...options, updateAliases: true },
+        mockGcsService,
+        '/tmp/vpc-1.1.0.zip'
+      )
+      await planModuleUpload(
+        { ...options, moduleVersion: '1.1.0-rc.1', updateAliases: true },
+        mockGcsService,
+        '/tmp/vpc-1.1.0-rc.1.zip'
+      )
+
+      expect(mockListDeletions.mock.calls.map((call) => call[5])).toEqual([
+        ['modules/vpc/vpc-latest.zip', 'modules/vpc/vpc-1.x.zip'],
+        // Pre-releases never move the aliases
+        []
+      ])
+    })
+
+    test.each([
+      ['fail', 'new-hash', 'fail'],
+      ['skip-if-identical', 'new-hash', 'skip'],
+      ['skip-if-identical', 'old-hash', 'fail'],
+      ['overwrite', 'old-hash', 'overwrite']
+    ])(
+      'reports what on-existing %s does with a published %s',
+      async (onExisting, existingHash, action) => {
+        mockInspect.mockResolvedValue({
+          exists: true,
+          sha256Hash: existingHash
+        })
+
+        const plan = await planModuleUpload(
+          { ...options, onExisting: onExisting as OnExistingPolicy },
+          mockGcsService,
+          '/tmp/vpc-1.1.0.zip'
+        )
+
+        expect(plan.action).toBe(action)
+      }
+    )
+
+    test('does not list the bucket when cleanup is disabled', async () => {
+      const plan = await planModuleUpload(
+        { ...options, deleteOldVersions: false },
+        mockGcsService,
+        '/tmp/vpc-1.1.0.zip'
+      )
+
+      expect(plan.deletions).toEqual([])
+      expect(mockListDeletions).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Monorepo Publishing', () => {
+    const realFs = jest.requireActual('fs')
+    let tempDir: string
+    let uploadSpy: jest.SpyInstance
+    let indexSpy: jest.SpyInstance
+    let saveSpy: jest.SpyInstance
+    let checksumsSpy: jest.SpyInstance
+    let versionsSpy: jest.SpyInstance
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'main-test-'))
+      process.env.RUNNER_TEMP = tempDir
+      for (const name of ['vpc', 'gke']) {
+        realFs.mkdirSync(path.join(tempDir, name))
+        realFs.writeFileSync(path.join(tempDir, name, 'main.tf'), '')
+      }
+      ;(fs.existsSync as jest.Mock).mockReturnValue(true)
+      ;(calculateFileHash as jest.Mock).mockResolvedValue('mock-file-hash')
+      uploadSpy = jest
+        .spyOn(GCSService.prototype, 'uploadToGCS')
+        .mockResolvedValue({ url: 'mock-upload-result', uploaded: true })
+      indexSpy = jest
+        .spyOn(GCSService.prototype, 'updateVersionIndex')
+        .mockResolvedValue({ module: '', updated: '', versions: [] })
+      saveSpy = jest
+        .spyOn(GCSService.prototype, 'saveObject')
+        .mockResolvedValue()
+      checksumsSpy = jest
+        .spyOn(GCSService.prototype, 'updateChecksumManifest')
+        .mockResolvedValue('')
+      versionsSpy = jest
+        .spyOn(GCSService.prototype, 'listModuleVersions')
+        .mockResolvedValue([])
+
+      core.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'gcs-bucket': 'test-bucket',
+          modules: JSON.stringify([
+            { name: 'vpc', path: path.join(tempDir, 'vpc'), version: '1.2.0' },
+            { name: 'gke', path: path.join(tempDir, 'gke'), version: '2.0.1' }
+          ]),
+          'max-parallel': '2'
+        }
+        return inputs[name] || ''
+      })
+    })
+
+    afterEach(() => {
+      uploadSpy.mockRestore()
+      indexSpy.mockRestore()
+      saveSpy.mockRestore()
+      checksumsSpy.mockRestore()
+      versionsSpy.mockRestore()
+      delete process.env.RUNNER_TEMP
+      realFs.rmSync(tempDir, { recursive: true, force: true })
+    })
+
+    test('expandModules creates one options object per module', () => {
+      const options = getValidatedInputs()
+      const expanded = expandModules(options)
+
+      expect(expanded.map((entry) => entry.moduleName)).toEqual(['vpc', 'gke'])
+      expect(expanded[1]).toMatchObject({
+        bucketName: 'test-bucket',
+        moduleVersion: '2.0.1',
+        modulePath: path.join(tempDir, 'gke'),
+        modules: undefined
+      })
+    })
+
+    test('publishes every module and lists their URLs', async () => {
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(uploadSpy).toHaveBeenCalledTimes(2)
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'published-modules',
+        JSON.stringify([
+          {
+            name: 'vpc',
+            version: '1.2.0',
+            url: 'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.2.0.zip',
+            provenance:
+              'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.2.0.intoto.jsonl',
+            descriptor:
+              'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.2.0.json'
+          },
+          {
+            name: 'gke',
+            version: '2.0.1',
+            url: 'https://storage.googleapis.com/test-bucket/modules/gke/gke-2.0.1.zip',
+            provenance:
+              'https://storage.googleapis.com/test-bucket/modules/gke/gke-2.0.1.intoto.jsonl',
+            descriptor:
+              'https://storage.googleapis.com/test-bucket/modules/gke/gke-2.0.1.json'
+          }
+        ])
+      )
+    })
+
+    test('publishes a descriptor of each module and summarizes it in the archive metadata', async () => {
+      realFs.writeFileSync(
+        path.join(tempDir, 'vpc', 'main.tf'),
+        'variable "name" {\n  type = string\n}\n\noutput "id" {\n  value = "x"\n}\n'
+      )
+      realFs.writeFileSync(path.join(tempDir, 'vpc', 'README.md'), '# VPC\n')
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      const vpcUpload = uploadSpy.mock.calls.find(
+        (call) => call[2] === 'modules/vpc/vpc-1.2.0.zip'
+      )
+      expect(vpcUpload?.[4].metadata).toEqual({
+        terraformInputs: 'name',
+        terraformRequiredInputs: 'name',
+        terraformOutputs: 'id'
+      })
+      const descriptorIndex = saveSpy.mock.calls.findIndex(
+        (call) => call[1] === 'modules/vpc/vpc-1.2.0.json'
+      )
+      const [, , contents, contentType] = saveSpy.mock.calls[descriptorIndex]
+      expect(contentType).toBe('application/json')
+      expect(contents).toBe(
+        `${JSON.stringify(
+          {
+            name: 'vpc',
+            version: '1.2.0',
+            providers: [],
+            inputs: [
+              { name: 'name', type: 'string', required: true, sensitive: false }
+            ],
+            outputs: [{ name: 'id', sensitive: false }],
+            submodules: [],
+            readme: '# VPC\n',
+            sha256: 'mock-file-hash'
+          },
+          null,
+          2
+        )}\n`
+      )
+      // The descriptor is published before the version is listed
+      const indexIndex = indexSpy.mock.calls.findIndex(
+        (call) => call[1] === 'modules/vpc'
+      )
+      expect(saveSpy.mock.invocationCallOrder[descriptorIndex]).toBeLessThan(
+        indexSpy.mock.invocationCallOrder[indexIndex]
+      )
+    })
+
+    test('validates and describes only the packaged Terraform files', async () => {
+      const modulePath = path.join(tempDir, 'vpc')
+      realFs.writeFileSync(
+        path.join(modulePath, 'main.tf'),
+        'variable "name" {\n  type = string\n}\n'
+      )
+      realFs.mkdirSync(path.join(modulePath, 'examples'))
+      realFs.writeFileSync(
+        path.join(modulePath, 'examples', 'broken.tf'),
+        'module "vpc" {\n'
+      )
+      realFs.writeFileSync(
+        path.join(modulePath, 'extra.tf'),
+        'variable "extra" {}\n'
+      )
+      realFs.writeFileSync(
+        path.join(modulePath, '.terraformignore'),
+        'extra.tf\n'
+      )
+      const inputs: Record<string, string> = {
+        'gcs-bucket': 'test-bucket',
+        'module-name': 'vpc',
+        'module-version': '1.2.0',
+        'module-path': modulePath,
+        'validate-module': 'hcl',
+        exclude: 'examples/'
+      }
+      core.getInput.mockImplementation((name: string) => inputs[name] || '')
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(core.info).toHaveBeenCalledWith(
+        'Validated vpc: 1 Terraform file(s), 1 variable(s), 0 output(s), 0 required provider(s)'
+      )
+      expect(uploadSpy.mock.calls[0][4].metadata).toEqual({
+        terraformInputs: 'name',
+        terraformRequiredInputs: 'name'
+      })
+
+      // A broken file that is packaged stops the module from being published
+      delete inputs.exclude
+      uploadSpy.mockClear()
+      await run()
+
+      expect(uploadSpy).not.toHaveBeenCalled()
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "examples/broken.tf:1:14: Unclosed module block: missing '}'"
+        )
+      )
+    })
+
+    test('refuses a minor release that breaks compatibility with the previous one', async () => {
+      realFs.writeFileSync(
+        path.join(tempDir, 'vpc', 'main.tf'),
+        'variable "name" {\n  type = string\n}\n'
+      )
+      versionsSpy.mockImplementation(async (_bucket, _folder, name: string) =>
+        name === 'vpc'
+          ? [
+              { version: '2.0.0', size: 1 },
+              { version: '1.1.0', size: 1 },
+              { version: '1.0.0', size: 1 }
+            ]
+          : []
+      )
+      // The baseline has no descriptor, so it is read from its archive
+      const readSpy = jest
+        .spyOn(GCSService.prototype, 'readObject')
+        .mockResolvedValue(undefined)
+      const downloadSpy = jest
+        .spyOn(GCSService.prototype, 'downloadObject')
+        .mockImplementation(async (_bucket, _objectPath, destination) => {
+          const baselineDir = path.join(tempDir, 'baseline')
+          realFs.mkdirSync(baselineDir)
+          realFs.writeFileSync(
+            path.join(baselineDir, 'main.tf'),
+            'variable "name" {\n  type = string\n}\n\noutput "id" {\n  value = "x"\n}\n'
+          )
+          await buildZipArchive(baselineDir, destination)
+          return { size: 1 }
+        })
+
+      try {
+        await run()
+
+        expect(downloadSpy).toHaveBeenCalledWith(
+          'test-bucket',
+          'modules/vpc/vpc-1.1.0.zip',
+          expect.any(String)
+        )
+      } finally {
+        readSpy.mockRestore()
+        downloadSpy.mockRestore()
+      }
+
+      expect(uploadSpy).toHaveBeenCalledTimes(1)
+      expect(uploadSpy.mock.calls[0][2]).toBe('modules/gke/gke-2.0.1.zip')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        '1 of 2 module(s) failed to publish: vpc'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'vpc 1.2.0 breaks compatibility with 1.1.0: output "id" was removed. Publish it as 2.0.0 or later'
+        )
+      )
+    })
+
+    test('publishes a breaking release with warnings when breaking-changes is warn', async () => {
+      const inputs: Record<string, string> = {
+        'gcs-bucket': 'test-bucket',
+        'module-name': 'vpc',
+        'module-version': '1.2.0',
+        'module-path': path.join(tempDir, 'vpc'),
+        'breaking-changes': 'warn'
+      }
+      core.getInput.mockImplementation((name: string) => inputs[name] || '')
+      realFs.writeFileSync(
+        path.join(tempDir, 'vpc', 'main.tf'),
+        'variable "name" {\n  type = string\n}\n'
+      )
+      versionsSpy.mockResolvedValue([{ version: '1.1.0', size: 1 }])
+      const readSpy = jest
+        .spyOn(GCSService.prototype, 'readObject')
+        .mockResolvedValue(
+          JSON.stringify({
+            name: 'vpc',
+            version: '1.1.0',
+            providers: [],
+            inputs: [],
+            outputs: [],
+            submodules: []
+          })
+        )
+
+      try {
+        await run()
+
+        expect(readSpy).toHaveBeenCalledWith(
+          'test-bucket',
+          'modules/vpc/vpc-1.1.0.json'
+        )
+      } finally {
+        readSpy.mockRestore()
+      }
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(uploadSpy).toHaveBeenCalledTimes(1)
+      expect(core.warning).toHaveBeenCalledWith(
+        'vpc 1.2.0 breaks compatibility with 1.1.0: new variable "name" has no default'
+      )
+    })
+
+    test('publishes only the module a prefixed tag names', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'gcs-bucket': 'test-bucket',
+          modules: JSON.stringify([
+            { name: 'vpc', path: path.join(tempDir, 'vpc') },
+            { name: 'gke', path: path.join(tempDir, 'gke') }
+          ]),
+          'version-source': 'tag'
+        }
+        return inputs[name] || ''
+      })
+      process.env.GITHUB_REF = 'refs/tags/gke/v2.1.0'
+
+      try {
+        await run()
+      } finally {
+        delete process.env.GITHUB_REF
+      }
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(uploadSpy).toHaveBeenCalledTimes(1)
+      expect(uploadSpy.mock.calls[0][2]).toBe('modules/gke/gke-2.1.0.zip')
+    })
+
+    test('derives the next versions from conventional commits', async () => {
+      core.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'gcs-bucket': 'test-bucket',
+          modules: JSON.stringify([
+            { name: 'vpc', path: path.join(tempDir, 'vpc') },
+            { name: 'gke', path: path.join(tempDir, 'gke') }
+          ]),
+          'version-source': 'conventional-commits',
+          'breaking-changes': 'ignore'
+        }
+        return inputs[name] || ''
+      })
+      versionsSpy.mockImplementation(async (_bucket, _folder, name: string) =>
+        name === 'vpc'
+          ? [
+              { version: '1.3.0-rc.1', size: 1 },
+              { version: '1.2.0', size: 1, gitCommit: 'abc123' }
+            ]
+          : []
+      )
+      const commitsSpy = jest
+        .spyOn(commitUtils, 'readCommitMessages')
+        .mockResolvedValue(['docs: usage', 'feat: add subnets', 'fix: typo'])
+
+      try {
+        await run()
+
+        expect(commitsSpy).toHaveBeenCalledWith(
+          path.join(tempDir, 'vpc'),
+          'abc123'
+        )
+      } finally {
+        commitsSpy.mockRestore()
+      }
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(uploadSpy.mock.calls.map((call) => call[2]).sort()).toEqual([
+        'modules/gke/gke-1.0.0.zip',
+        'modules/vpc/vpc-1.3.0.zip'
+      ])
+    })
+
+    test('refuses versions older than the published ones with monotonic-versions', async () => {
+      const inputs: Record<string, string> = {
+        'gcs-bucket': 'test-bucket',
+        'module-name': 'vpc',
+        'module-version': '1.0.5',
+        'module-path': path.join(tempDir, 'vpc'),
+        'monotonic-versions': 'true'
+      }
+      core.getInput.mockImplementation((name: string) => inputs[name] || '')
+      versionsSpy.mockResolvedValue([
+        { version: '2.0.0', size: 1 },
+        { version: '1.3.0', size: 1 }
+      ])
+
+      await run()
+
+      expect(uploadSpy).not.toHaveBeenCalled()
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'vpc 1.0.5 is older than the published 2.0.0, and versions must not go backwards; to patch an older line, add it to maintenance-lines (e.g. 1.x)'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('latest-version', '2.0.0')
+
+      // In a maintenance line, the version only has to be the newest of its line
+      jest.clearAllMocks()
+      inputs['module-version'] = '1.3.1'
+      inputs['maintenance-lines'] = '1.x'
+      indexSpy.mockResolvedValue({
+        module: 'vpc',
+        updated: '',
+        versions: [
+          { version: '2.1.0-rc.1', size: 1 },
+          { version: '2.0.0', size: 1 },
+          { version: '1.3.1', size: 1 },
+          { version: '1.3.0', size: 1 }
+        ]
+      })
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(uploadSpy.mock.calls[0][2]).toBe('modules/vpc/vpc-1.3.1.zip')
+      expect(core.setOutput).toHaveBeenCalledWith('latest-version', '2.0.0')
+    })
+
+    test('only reports what would happen in dry-run mode', async () => {
+      const inputs: Record<string, string> = {
+        'gcs-bucket': 'test-bucket',
+        'module-name': 'vpc',
+        'module-version': '1.2.0',
+        'module-path': path.join(tempDir, 'vpc'),
+        'dry-run': 'true'
+      }
+      core.getInput.mockImplementation((name: string) => inputs[name] || '')
+      const inspectSpy = jest
+        .spyOn(GCSService.prototype, 'inspectObject')
+        .mockResolvedValue({ exists: false })
+
+      versionsSpy.mockResolvedValue([
+        { version: '1.1.0', size: 1 },
+        { version: '1.0.0', size: 1 }
+      ])
+
+      try {
+        await run()
+      } finally {
+        inspectSpy.mockRestore()
+      }
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(uploadSpy).not.toHaveBeenCalled()
+      expect(indexSpy).not.toHaveBeenCalled()
+      // Nothing the other outputs would point to exists
+      expect(core.setOutput).toHaveBeenCalledTimes(1)
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'dry-run-report',
+        JSON.stringify([
+          {
+            name: 'vpc',
+            version: '1.2.0',
+            url: 'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.2.0.zip',
+            packagedFiles: ['main.tf'],
+            // The newest release once the version is published
+            latestVersion: '1.2.0',
+            destination: 'modules/vpc/vpc-1.2.0.zip',
+            sha256: 'mock-file-hash',
+            action: 'create',
+            deletions: []
+          }
+        ])
+      )
+    })
+
+    test('signs the archive before listing the version, and the checksums', async () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256'
+      })
+      const inputs: Record<string, string> = {
+        'gcs-bucket': 'test-bucket',
+        'module-name': 'vpc',
+        'module-version': '1.2.0',
+        'module-path': path.join(tempDir, 'vpc'),
+        sign: 'true',
+        'signing-key': privateKey
+          .export({ type: 'pkcs8', format: 'pem' })
+          .toString()
+      }
+      core.getInput.mockImplementation((name: string) => inputs[name] || '')
+      checksumsSpy.mockResolvedValue('f00d  vpc-1.2.0.zip\n')
+      ;(fs.writeFileSync as jest.Mock).mockImplementationOnce(
+        realFs.writeFileSync
+      )
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(saveSpy).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc/vpc-1.2.0.zip.sig',
+        expect.any(String),
+        'text/plain',
+        'public'
+      )
+      expect(saveSpy).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc/vpc-1.2.0.zip.pem',
+        expect.stringContaining('-----BEGIN PUBLIC KEY-----'),
+        'application/x-pem-file',
+        'public'
+      )
+      expect(saveSpy.mock.invocationCallOrder[1]).toBeLessThan(
+        indexSpy.mock.invocationCallOrder[0]
+      )
+      expect(saveSpy).toHaveBeenCalledWith(
+        'test-bucket',
+        'modules/vpc/SHA256SUMS.sig',
+        expect.any(String),
+        'text/plain',
+        'public'
+      )
+      // The temporary copy of the manifest that was signed is removed
+      expect(realFs.existsSync(path.join(tempDir, 'vpc-SHA256SUMS'))).toBe(
+        false
+      )
+    })
+
+    test('fails verify mode when an archive does not match its recorded hash', async () => {
+      const inputs: Record<string, string> = {
+        'gcs-bucket': 'test-bucket',
+        'module-name': 'vpc',
+        'module-path': path.join(tempDir, 'vpc'),
+        verify: 'true'
+      }
+      core.getInput.mockImplementation((name: string) => inputs[name] || '')
+      ;(calculateFileChecksums as jest.Mock).mockResolvedValue({
+        md5Hash: 'md5',
+        crc32c: 'crc'
+      })
+      const listSpy = jest
+        .spyOn(GCSService.prototype, 'listModuleVersions')
+        .mockResolvedValue([
+          { version: '1.2.0', size: 22, sha256: 'mock-file-hash' },
+          { version: '1.1.0', size: 22, sha256: 'recorded-hash' }
+        ])
+      // Every download is an empty but complete zip archive
+      const downloadSpy = jest
+        .spyOn(GCSService.prototype, 'downloadObject')
+        .mockImplementation(async (_bucket, _object, destinationPath) => {
+          const end = Buffer.alloc(22)
+          end.writeUInt32LE(0x06054b50, 0)
+          realFs.writeFileSync(destinationPath, end)
+          return { size: 22, md5Hash: 'md5', crc32c: 'crc' }
+        })
+
+      // Neither archive was signed
+      const readSpy = jest
+        .spyOn(GCSService.prototype, 'readObject')
+        .mockResolvedValue(undefined)
+
+      try {
+        await run()
+      } finally {
+        listSpy.mockRestore()
+        downloadSpy.mockRestore()
+        readSpy.mockRestore()
+      }
+
+      expect(uploadSpy).not.toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'verification-report',
+        expect.stringMatching(
+          /"version":"1\.2\.0".*"status":"ok".*"version":"1\.1\.0".*"status":"tampered"/
+        )
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'vpc: 1 of 2 archive(s) failed verification: 1.1.0 (tampered)'
+      )
+    })
+
+    test('keeps publishing when one module fails', async () => {
+      uploadSpy.mockImplementation((_bucket, _file, destination: string) =>
+        destination.includes('vpc')
+          ? Promise.reject(new Error('Upload failed'))
+          : Promise.resolve({ url: 'mock-upload-result', uploaded: true })
+      )
+
+      await run()
+
+      expect(uploadSpy).toHaveBeenCalledTimes(2)
+      expect(core.info).toHaveBeenCalledWith('  ❌ vpc 1.2.0: Upload failed')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        '1 of 2 module(s) failed to publish: vpc'
+      )
     })
   })
 
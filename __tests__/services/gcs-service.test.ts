@@ -7,6 +7,15 @@ import * as coreModule from '@actions/core'
 const mockDelete = jest.fn().mockResolvedValue([{}])
 const mockExists = jest.fn().mockResolvedValue([true])
 const mockMakePublic = jest.fn().mockResolvedValue([{}])
+const mockGetMetadata = jest
+  .fn()
+  .mockResolvedValue([{ metadata: { sha256Hash: 'abc123hash' } }])
+const mockSave = jest.fn().mockResolvedValue(undefined)
+const mockDownload = jest.fn().mockResolvedValue([Buffer.from('{}')])
+const mockMove = jest.fn().mockResolvedValue([{}])
+const mockSetMetadata = jest.fn().mockResolvedValue([{}])
+const mockSetStorageClass = jest.fn().mockResolvedValue([{}])
+const mockCopy = jest.fn().mockResolvedValue([{}])
 const mockUpload = jest.fn().mockResolvedValue([
   {
     name: 'test-file.zip',
@@ -18,12 +27,19 @@ const mockUpload = jest.fn().mockResolvedValue([
 const mockFiles = [
   {
     name: 'modules/test-module/test-module-1.0.0.zip',
-    metadata: {},
+    metadata: {
+      size: '2048',
+      metadata: {
+        sha256Hash: 'hash-1.0.0',
+        uploadTimestamp: '2024-02-01T00:00:00.000Z',
+        gitCommit: 'abc123'
+      }
+    },
     delete: mockDelete
   },
   {
     name: 'modules/test-module/test-module-0.9.0.zip',
-    metadata: {},
+    metadata: { size: '1024', timeCreated: '2024-01-01T00:00:00.000Z' },
     delete: mockDelete
   },
   {
@@ -42,7 +58,14 @@ const mockFiles = [
 const mockFile = jest.fn().mockImplementation(() => ({
   delete: mockDelete,
   exists: mockExists,
-  makePublic: mockMakePublic
+  makePublic: mockMakePublic,
+  getMetadata: mockGetMetadata,
+  save: mockSave,
+  download: mockDownload,
+  move: mockMove,
+  setMetadata: mockSetMetadata,
+  setStorageClass: mockSetStorageClass,
+  copy: mockCopy
 }))
 
 const mockBucket = jest.fn().mockImplementation(() => ({
@@ -102,9 +125,10 @@ describe('GCSService', () => {
       )
 
       // Verify the result is the expected URL
-      expect(result).toBe(
-        `https://storage.googleapis.com/${bucketName}/${destination}`
-      )
+      expect(result).toEqual({
+        url: `https://storage.googleapis.com/${bucketName}/${destination}`,
+        uploaded: true
+      })
 
       // Check that our mocks were called with the right parameters
       expect(mockStorage().bucket).toHaveBeenCalledWith(bucketName)
@@ -125,6 +149,146 @@ describe('GCSService', () => {
       expect(mockMakePublic).toHaveBeenCalled()
     })
 
+    test('records additional metadata without overriding the hash', async () => {
+      await gcsService.uploadToGCS(
+        'test-bucket',
+        '/path/to/local/file.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        'abc123hash',
+        { metadata: { terraformInputs: 'name, tags', sha256Hash: 'forged' } }
+      )
+
+      expect(mockUpload).toHaveBeenCalledWith(
+        '/path/to/local/file.zip',
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            metadata: expect.objectContaining({
+              terraformInputs: 'name, tags',
+              sha256Hash: 'abc123hash'
+            })
+          })
+        })
+      )
+    })
+
+    test('never overwrites an existing object by default', async () => {
+      await gcsService.uploadToGCS(
+        'test-bucket',
+        '/path/to/local/file.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        'abc123hash'
+      )
+
+      expect(mockUpload).toHaveBeenCalledWith(
+        '/path/to/local/file.zip',
+        expect.objectContaining({
+          preconditionOpts: { ifGenerationMatch: 0 }
+        })
+      )
+    })
+
+    test('fails when the version has already been published', async () => {
+      mockUpload.mockRejectedValueOnce(
+        Object.assign(new Error('Precondition Failed'), { code: 412 })
+      )
+
+      await expect(
+        gcsService.uploadToGCS(
+          'test-bucket',
+          '/path/to/local/file.zip',
+          'modules/test-module/test-module-1.0.0.zip',
+          'abc123hash'
+        )
+      ).rejects.toThrow(/already exists in bucket test-bucket/)
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+
+    test('rethrows other upload errors unchanged', async () => {
+      mockUpload.mockRejectedValueOnce(new Error('Network error'))
+
+      await expect(
+        gcsService.uploadToGCS(
+          'test-bucket',
+          '/path/to/local/file.zip',
+          'modules/test-module/test-module-1.0.0.zip',
+          'abc123hash'
+        )
+      ).rejects.toThrow('Network error')
+    })
+
+    test('skips the upload when identical content is already published', async () => {
+      const result = await gcsService.uploadToGCS(
+        'test-bucket',
+        '/path/to/local/file.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        'abc123hash',
+        { onExisting: 'skip-if-identical' }
+      )
+
+      expect(result).toEqual({
+        url: 'https://storage.googleapis.com/test-bucket/modules/test-module/test-module-1.0.0.zip',
+        uploaded: false
+      })
+      expect(mockUpload).not.toHaveBeenCalled()
+      expect(coreModule.info).toHaveBeenCalledWith(
+        expect.stringContaining('already published with identical content')
+      )
+    })
+
+    test('fails when different content is already published', async () => {
+      await expect(
+        gcsService.uploadToGCS(
+          'test-bucket',
+          '/path/to/local/file.zip',
+          'modules/test-module/test-module-1.0.0.zip',
+          'different-hash',
+          { onExisting: 'skip-if-identical' }
+        )
+      ).rejects.toThrow(/with different content \(sha256 abc123hash/)
+      expect(mockUpload).not.toHaveBeenCalled()
+    })
+
+    test('does not make private objects public', async () => {
+      await gcsService.uploadToGCS(
+        'test-bucket',
+        '/path/to/local/file.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        'abc123hash',
+        { access: 'private' }
+      )
+
+      expect(mockUpload.mock.calls[0][1].predefinedAcl).toBeUndefined()
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+
+    test('applies predefined ACLs on upload', async () => {
+      await gcsService.uploadToGCS(
+        'test-bucket',
+        '/path/to/local/file.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        'abc123hash',
+        { access: 'predefined-acl:projectPrivate' }
+      )
+
+      expect(mockUpload).toHaveBeenCalledWith(
+        '/path/to/local/file.zip',
+        expect.objectContaining({ predefinedAcl: 'projectPrivate' })
+      )
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+
+    test('uploads without a precondition when overwriting', async () => {
+      await gcsService.uploadToGCS(
+        'test-bucket',
+        '/path/to/local/file.zip',
+        'modules/test-module/test-module-1.0.0.zip',
+        'abc123hash',
+        { onExisting: 'overwrite' }
+      )
+
+      expect(mockUpload.mock.calls[0][1].preconditionOpts).toBeUndefined()
+    })
+
     test('throws error if upload verification fails', async () => {
       // Setup
       const bucketName = 'test-bucket'
@@ -152,27 +316,47 @@ describe('GCSService', () => {
       const moduleFolder = 'modules/test-module'
       const moduleName = 'test-module'
       const currentVersion = '1.0.0'
-      const keepVersions = 2 // Keep current and one old version
+      const retention = {
+        keepStable: 2, // Keep current and two old versions
+        keepPrereleases: 2,
+        dropReleasedPrereleases: false
+      }
 
       // Reset mocks
       jest.clearAllMocks()
       mockDelete.mockClear()
 
       // Call the function
-      await gcsService.cleanupOldVersions(
+      const deleted = await gcsService.cleanupOldVersions(
         bucketName,
         moduleFolder,
         moduleName,
         currentVersion,
-        keepVersions
+        retention
       )
 
       // Verify bucket was retrieved correctly
       expect(mockStorage().bucket).toHaveBeenCalledWith(bucketName)
 
-      // We expect delete to be called for the oldest files (0.8.0 and 0.7.0)
-      // Since we're keeping current (1.0.0) and one old version (0.9.0)
+      // We expect delete to be called for the oldest file (0.7.0)
+      // Since we're keeping two old versions (0.9.0 and 0.8.0) besides the current one
       expect(mockDelete).toHaveBeenCalled()
+      expect(deleted).toEqual(['0.7.0'])
+
+      // The signature, provenance and descriptor of the deleted version go with it
+      expect(mockFile).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.7.0.zip.sig'
+      )
+      expect(mockFile).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.7.0.zip.pem'
+      )
+      expect(mockFile).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.7.0.intoto.jsonl'
+      )
+      expect(mockFile).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.7.0.json'
+      )
+      expect(mockDelete).toHaveBeenCalledWith({ ignoreNotFound: true })
 
       // Verify the core.info was called for deletions
       expect(coreModule.info).toHaveBeenCalledWith(
@@ -180,13 +364,54 @@ describe('GCSService', () => {
       )
     })
 
+    test('cleans up pre-releases and versions with build metadata', async () => {
+      const files = [
+        '2.0.0',
+        '2.0.0-rc.2',
+        '2.0.0-rc.1',
+        '1.1.0+build.7',
+        '1.1.0-beta.1',
+        '1.0.0'
+      ].map((version) => ({
+        name: `modules/test-module/test-module-${version}.zip`,
+        metadata: {},
+        delete: mockDelete
+      }))
+      mockBucket.mockImplementationOnce(() => ({
+        getFiles: jest.fn().mockResolvedValue([files])
+      }))
+
+      const deleted = await gcsService.cleanupOldVersions(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '2.0.0',
+        { keepStable: 0, keepPrereleases: 5, dropReleasedPrereleases: true }
+      )
+
+      // 1.1.0+build.7 is the highest version of major line 1
+      expect(deleted).toEqual([
+        '2.0.0-rc.2',
+        '2.0.0-rc.1',
+        '1.1.0-beta.1',
+        '1.0.0'
+      ])
+      expect(coreModule.info).toHaveBeenCalledWith(
+        'Removing 2.0.0-rc.1: pre-release of the published 2.0.0 release'
+      )
+    })
+
     test('does not delete files if keepVersions is higher than available versions', async () => {
       // Setup
       const bucketName = 'test-bucket'
       const moduleFolder = 'modules/test-module'
       const moduleName = 'test-module'
       const currentVersion = '1.0.0'
-      const keepVersions = 10 // More than the available versions
+      const retention = {
+        keepStable: 10, // More than the available versions
+        keepPrereleases: 10,
+        dropReleasedPrereleases: false
+      }
 
       // Reset mocks and counters
       jest.clearAllMocks()
@@ -197,7 +422,7 @@ describe('GCSService', () => {
         moduleFolder,
         moduleName,
         currentVersion,
-        keepVersions
+        retention
       )
 
       // Verify bucket was called
@@ -211,5 +436,771 @@ describe('GCSService', () => {
         expect.stringContaining('Deleting old version')
       )
     })
+    test('never removes the version an alias points at', async () => {
+      const files = [
+        ...mockFiles,
+        {
+          name: 'modules/test-module/test-module-0.x.zip',
+          metadata: { metadata: { aliasVersion: '0.7.0' } },
+          delete: mockDelete
+        }
+      ]
+      mockBucket.mockImplementationOnce(() => ({
+        getFiles: jest.fn().mockResolvedValue([files])
+      }))
+
+      const deleted = await gcsService.cleanupOldVersions(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '1.0.0',
+        { keepStable: 1, keepPrereleases: 0, dropReleasedPrereleases: false }
+      )
+
+      expect(deleted).toEqual(['0.8.0'])
+      expect(coreModule.info).toHaveBeenCalledWith(
+        'Keeping 0.7.0: target of test-module-0.x.zip'
+      )
+    })
+
+    describe('with a soft cleanup mode', () => {
+      const retiredFile = (version: string, metadata = {}) => ({
+        name: `modules/test-module/test-module-${version}.zip`,
+        metadata,
+        delete: mockDelete,
+        move: mockMove,
+        setMetadata: mockSetMetadata,
+        setStorageClass: mockSetStorageClass
+      })
+      const retention = {
+        keepStable: 1,
+        keepPrereleases: 0,
+        dropReleasedPrereleases: false
+      }
+
+      test('moves removed versions below the archive prefix', async () => {
+        mockBucket.mockImplementationOnce(() => ({
+          file: mockFile,
+          getFiles: jest
+            .fn()
+            .mockResolvedValue([
+              [retiredFile('1.1.0'), retiredFile('1.0.1'), retiredFile('1.0.0')]
+            ])
+        }))
+
+        const retired = await gcsService.cleanupOldVersions(
+          'test-bucket',
+          'modules/test-module',
+          'test-module',
+          '1.2.0',
+          retention,
+          'archive'
+        )
+
+        expect(retired).toEqual(['1.0.1', '1.0.0'])
+        expect(mockDelete).not.toHaveBeenCalled()
+        expect(mockMove).toHaveBeenCalledWith(
+          'archive/modules/test-module/test-module-1.0.1.zip'
+        )
+        expect(mockFile).toHaveBeenCalledWith(
+          'archive/modules/test-module/test-module-1.0.0.zip'
+        )
+        expect(mockSetMetadata).toHaveBeenCalledWith({
+          metadata: { retiredAt: expect.any(String) }
+        })
+      })
+
+      test('rewrites removed versions to a colder storage class in place', async () => {
+        mockBucket.mockImplementationOnce(() => ({
+          getFiles: jest.fn().mockResolvedValue([
+            [
+              retiredFile('1.1.0'),
+              retiredFile('1.0.0'),
+              retiredFile('0.9.0', {
+                metadata: { retiredAt: '2024-01-01T00:00:00.000Z' }
+              })
+            ]
+          ])
+        }))
+
+        const retired = await gcsService.cleanupOldVersions(
+          'test-bucket',
+          'modules/test-module',
+          'test-module',
+          '1.2.0',
+          retention,
+          'storage-class:COLDLINE'
+        )
+
+        // 0.9.0 was already retired by an earlier cleanup
+        expect(retired).toEqual(['1.0.0'])
+        expect(mockSetStorageClass).toHaveBeenCalledTimes(1)
+        expect(mockSetStorageClass).toHaveBeenCalledWith('COLDLINE')
+        expect(mockSetMetadata).toHaveBeenCalledWith({
+          metadata: { retiredAt: expect.any(String) }
+        })
+        expect(mockDelete).not.toHaveBeenCalled()
+      })
+    })
+  })
+
+  describe('yankVersion', () => {
+    test('records the deprecation in the archive metadata', async () => {
+      const objectPath = await gcsService.yankVersion(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '1.0.0',
+        { reason: 'Leaks state', yankedAt: '2024-03-01T00:00:00.000Z' }
+      )
+
+      expect(objectPath).toBe('modules/test-module/test-module-1.0.0.zip')
+      expect(mockSetMetadata).toHaveBeenCalledWith({
+        metadata: {
+          yankedAt: '2024-03-01T00:00:00.000Z',
+          yankReason: 'Leaks state',
+          yankReplacement: null,
+          yankedBy: null
+        }
+      })
+    })
+
+    test('fails for versions that were never published', async () => {
+      mockExists.mockResolvedValueOnce([false])
+
+      await expect(
+        gcsService.yankVersion(
+          'test-bucket',
+          'modules/test-module',
+          'test-module',
+          '3.0.0',
+          { reason: 'Leaks state', yankedAt: '2024-03-01T00:00:00.000Z' }
+        )
+      ).rejects.toThrow(/is not published in bucket test-bucket/)
+      expect(mockSetMetadata).not.toHaveBeenCalled()
+    })
+
+    test('reports yanked versions when listing versions', async () => {
+      mockBucket.mockImplementationOnce(() => ({
+        getFiles: jest.fn().mockResolvedValue([
+          [
+            {
+              name: 'modules/test-module/test-module-1.0.0.zip',
+              metadata: {
+                metadata: {
+                  yankedAt: '2024-03-01T00:00:00.000Z',
+                  yankReason: 'Leaks state',
+                  yankReplacement: '1.0.1',
+                  yankedBy: 'octocat'
+                }
+              }
+            }
+          ]
+        ])
+      }))
+
+      const [entry] = await gcsService.listModuleVersions(
+        'test-bucket',
+        'modules/test-module',
+        'test-module'
+      )
+
+      expect(entry.yanked).toEqual({
+        reason: 'Leaks state',
+        replacement: '1.0.1',
+        yankedBy: 'octocat',
+        yankedAt: '2024-03-01T00:00:00.000Z'
+      })
+    })
+  })
+
+  describe('restoreVersion', () => {
+    test('moves an archived version back to its module folder', async () => {
+      const objectPath = await gcsService.restoreVersion(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '0.9.0'
+      )
+
+      expect(objectPath).toBe('modules/test-module/test-module-0.9.0.zip')
+      expect(mockFile).toHaveBeenCalledWith(
+        'archive/modules/test-module/test-module-0.9.0.zip'
+      )
+      expect(mockMove).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.9.0.zip',
+        { preconditionOpts: { ifGenerationMatch: 0 } }
+      )
+      expect(mockSetMetadata).toHaveBeenCalledWith({
+        metadata: { retiredAt: null }
+      })
+      expect(mockMakePublic).toHaveBeenCalled()
+
+      // Its signature, provenance and descriptor are restored with it
+      expect(mockFile).toHaveBeenCalledWith(
+        'archive/modules/test-module/test-module-0.9.0.intoto.jsonl'
+      )
+      expect(mockMove).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.9.0.intoto.jsonl',
+        { preconditionOpts: { ifGenerationMatch: 0 } }
+      )
+      expect(mockMove).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.9.0.json',
+        { preconditionOpts: { ifGenerationMatch: 0 } }
+      )
+      // A move drops the ACLs, so the companions are made public again too
+      expect(mockMakePublic).toHaveBeenCalledTimes(5)
+    })
+
+    test('leaves companions alone when objects already hold their place', async () => {
+      mockMove
+        .mockResolvedValueOnce([{}])
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Precondition Failed'), { code: 412 })
+        )
+
+      await gcsService.restoreVersion(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '0.9.0',
+        'private'
+      )
+
+      expect(coreModule.warning).toHaveBeenCalledWith(
+        'modules/test-module/test-module-0.9.0.zip.sig already exists in bucket test-bucket; leaving archive/modules/test-module/test-module-0.9.0.zip.sig in place'
+      )
+      expect(mockMove).toHaveBeenCalledTimes(5)
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+
+    test('refuses to replace a version published since it was archived', async () => {
+      mockMove.mockRejectedValueOnce(
+        Object.assign(new Error('Precondition Failed'), { code: 412 })
+      )
+
+      await expect(
+        gcsService.restoreVersion(
+          'test-bucket',
+          'modules/test-module',
+          'test-module',
+          '0.9.0'
+        )
+      ).rejects.toThrow(/already exists in bucket test-bucket/)
+      expect(mockSetMetadata).not.toHaveBeenCalled()
+    })
+
+    test('rewrites a version retired in place to the standard storage class', async () => {
+      mockExists.mockResolvedValueOnce([false])
+      mockGetMetadata.mockResolvedValueOnce([
+        { metadata: { retiredAt: '2024-01-01T00:00:00.000Z' } }
+      ])
+
+      await gcsService.restoreVersion(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '0.9.0',
+        'private'
+      )
+
+      expect(mockMove).not.toHaveBeenCalled()
+      expect(mockSetStorageClass).toHaveBeenCalledWith('STANDARD')
+      expect(mockSetMetadata).toHaveBeenCalledWith({
+        metadata: { retiredAt: null }
+      })
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+
+    test('fails for versions that are not retired', async () => {
+      mockExists.mockResolvedValueOnce([false])
+
+      await expect(
+        gcsService.restoreVersion(
+          'test-bucket',
+          'modules/test-module',
+          'test-module',
+          '1.0.0'
+        )
+      ).rejects.toThrow(/is not retired/)
+    })
+
+    test('fails for versions that were never published', async () => {
+      mockExists.mockResolvedValueOnce([false]).mockResolvedValueOnce([false])
+
+      await expect(
+        gcsService.restoreVersion(
+          'test-bucket',
+          'modules/test-module',
+          'test-module',
+          '3.0.0'
+        )
+      ).rejects.toThrow(/was not found in bucket test-bucket/)
+    })
+  })
+
+  describe('inspectObject', () => {
+    test('returns the recorded hash of an existing object', async () => {
+      await expect(
+        gcsService.inspectObject('test-bucket', 'modules/a/a-1.0.0.zip')
+      ).resolves.toEqual({ exists: true, sha256Hash: 'abc123hash' })
+    })
+
+    test('reports missing objects', async () => {
+      mockExists.mockResolvedValueOnce([false])
+
+      await expect(
+        gcsService.inspectObject('test-bucket', 'modules/a/a-1.0.0.zip')
+      ).resolves.toEqual({ exists: false })
+      expect(mockGetMetadata).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('listVersionsToDelete', () => {
+    test('lists the archives cleanup would delete without deleting them', async () => {
+      const objects = await gcsService.listVersionsToDelete(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '1.1.0',
+        { keepStable: 2, keepPrereleases: 2, dropReleasedPrereleases: false }
+      )
+
+      expect(objects).toEqual([
+        'modules/test-module/test-module-0.8.0.zip',
+        'modules/test-module/test-module-0.7.0.zip'
+      ])
+      expect(mockDelete).not.toHaveBeenCalled()
+    })
+
+    test('lists what cleanup deletes once the aliases have moved', async () => {
+      const retention = {
+        keepStable: 1,
+        keepPrereleases: 0,
+        dropReleasedPrereleases: false
+      }
+      const alias = (aliasVersion: string) => ({
+        name: 'modules/test-module/test-module-0.x.zip',
+        metadata: { metadata: { aliasVersion } },
+        delete: mockDelete
+      })
+      mockBucket.mockImplementationOnce(() => ({
+        getFiles: jest.fn().mockResolvedValue([[...mockFiles, alias('0.9.0')]])
+      }))
+
+      const planned = await gcsService.listVersionsToDelete(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '0.10.0',
+        retention,
+        ['modules/test-module/test-module-0.x.zip']
+      )
+
+      // Publishing 0.10.0 moves the alias off 0.9.0 before cleaning up
+      mockBucket.mockImplementationOnce(() => ({
+        getFiles: jest.fn().mockResolvedValue([
+          [
+            ...mockFiles,
+            {
+              name: 'modules/test-module/test-module-0.10.0.zip',
+              metadata: {}
+            },
+            alias('0.10.0')
+          ]
+        ])
+      }))
+      const deleted = await gcsService.cleanupOldVersions(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '0.10.0',
+        retention
+      )
+
+      expect(deleted).toEqual(['0.9.0', '0.8.0', '0.7.0'])
+      expect(planned).toEqual(
+        deleted.map(
+          (version) => `modules/test-module/test-module-${version}.zip`
+        )
+      )
+    })
+
+    test('keeps the version of an alias that would not move', async () => {
+      mockBucket.mockImplementationOnce(() => ({
+        getFiles: jest.fn().mockResolvedValue([
+          [
+            ...mockFiles,
+            {
+              name: 'modules/test-module/test-module-0.x.zip',
+              metadata: { metadata: { aliasVersion: '0.9.0' } },
+              delete: mockDelete
+            }
+          ]
+        ])
+      }))
+
+      // Aliases only move forward, so publishing 0.8.1 leaves 0.x on 0.9.0
+      const planned = await gcsService.listVersionsToDelete(
+        'test-bucket',
+        'modules/test-module',
+        'test-module',
+        '0.8.1',
+        { keepStable: 1, keepPrereleases: 0, dropReleasedPrereleases: false },
+        ['modules/test-module/test-module-0.x.zip']
+      )
+
+      expect(planned).toEqual([
+        'modules/test-module/test-module-0.8.0.zip',
+        'modules/test-module/test-module-0.7.0.zip'
+      ])
+    })
+  })
+
+  describe('deleteObject', () => {
+    test('deletes the object, ignoring missing ones', async () => {
+      await gcsService.deleteObject(
+        'test-bucket',
+        'v1/modules/a/b/c/1.0.0/download'
+      )
+
+      expect(mockFile).toHaveBeenCalledWith('v1/modules/a/b/c/1.0.0/download')
+      expect(mockDelete).toHaveBeenCalledWith({ ignoreNotFound: true })
+    })
+  })
+
+  describe('saveObject', () => {
+    test('saves the contents uncached and makes them public', async () => {
+      await gcsService.saveObject(
+        'test-bucket',
+        'modules/test-module/test-module-1.0.0.zip.sig',
+        'c2lnbmF0dXJl',
+        'text/plain'
+      )
+
+      expect(mockSave).toHaveBeenCalledWith('c2lnbmF0dXJl', {
+        contentType: 'text/plain',
+        metadata: { cacheControl: 'no-cache, max-age=0' },
+        predefinedAcl: undefined,
+        resumable: false
+      })
+      expect(mockMakePublic).toHaveBeenCalled()
+    })
+
+    test('does not make private objects public', async () => {
+      await gcsService.saveObject(
+        'test-bucket',
+        'modules/test-module/test-module-1.0.0.zip.sig',
+        'c2lnbmF0dXJl',
+        'text/plain',
+        'private'
+      )
+
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('readObject', () => {
+    test('returns the contents of the object', async () => {
+      mockDownload.mockResolvedValueOnce([Buffer.from('c2lnbmF0dXJl')])
+
+      expect(
+        await gcsService.readObject(
+          'test-bucket',
+          'modules/test-module/test-module-1.0.0.zip.sig'
+        )
+      ).toBe('c2lnbmF0dXJl')
+    })
+
+    test('returns undefined for missing objects', async () => {
+      mockDownload.mockRejectedValueOnce({ code: 404 })
+
+      expect(
+        await gcsService.readObject(
+          'test-bucket',
+          'modules/test-module/test-module-1.0.0.zip.sig'
+        )
+      ).toBeUndefined()
+    })
+  })
+
+  describe('downloadObject', () => {
+    test('downloads the generation it reports checksums for', async () => {
+      mockGetMetadata.mockResolvedValueOnce([
+        {
+          generation: '7',
+          size: '2048',
+          md5Hash: 'md5-base64',
+          crc32c: 'crc-base64'
+        }
+      ])
+
+      const stored = await gcsService.downloadObject(
+        'test-bucket',
+        'modules/test-module/test-module-1.0.0.zip',
+        '/tmp/test-module-1.0.0.zip'
+      )
+
+      expect(stored).toEqual({
+        size: 2048,
+        md5Hash: 'md5-base64',
+        crc32c: 'crc-base64'
+      })
+      expect(mockFile).toHaveBeenLastCalledWith(
+        'modules/test-module/test-module-1.0.0.zip',
+        { generation: '7' }
+      )
+      expect(mockDownload).toHaveBeenCalledWith({
+        destination: '/tmp/test-module-1.0.0.zip',
+        validation: false
+      })
+    })
+  })
+
+  describe('updateJsonObject', () => {
+    const destination = 'modules/test-module/versions.json'
+
+    test('creates a missing document with an ifGenerationMatch=0 precondition', async () => {
+      mockGetMetadata.mockRejectedValueOnce(
+        Object.assign(new Error('Not Found'), { code: 404 })
+      )
+      const update = jest.fn().mockReturnValue({ versions: [] })
+
+      const result = await gcsService.updateJsonObject(
+        'test-bucket',
+        destination,
+        update,
+        { access: 'private' }
+      )
+
+      expect(result).toEqual({ versions: [] })
+      expect(update).toHaveBeenCalledWith(undefined)
+      expect(mockSave).toHaveBeenCalledWith(
+        JSON.stringify({ versions: [] }, null, 2),
+        expect.objectContaining({
+          contentType: 'application/json',
+          preconditionOpts: { ifGenerationMatch: 0 }
+        })
+      )
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+
+    test('updates the generation that was read', async () => {
+      mockGetMetadata.mockResolvedValueOnce([{ generation: '42' }])
+      mockDownload.mockResolvedValueOnce([Buffer.from('{"count":1}')])
+
+      await gcsService.updateJsonObject<{ count: number }>(
+        'test-bucket',
+        destination,
+        (current) => ({ count: (current?.count || 0) + 1 })
+      )
+
+      expect(mockFile).toHaveBeenCalledWith(destination, { generation: 42 })
+      expect(mockSave).toHaveBeenCalledWith(
+        JSON.stringify({ count: 2 }, null, 2),
+        expect.objectContaining({ preconditionOpts: { ifGenerationMatch: 42 } })
+      )
+      expect(mockMakePublic).toHaveBeenCalled()
+    })
+
+    test('retries when another writer changed the document', async () => {
+      mockGetMetadata
+        .mockResolvedValueOnce([{ generation: '1' }])
+        .mockResolvedValueOnce([{ generation: '2' }])
+      mockDownload
+        .mockResolvedValueOnce([Buffer.from('{"count":1}')])
+        .mockResolvedValueOnce([Buffer.from('{"count":5}')])
+      mockSave.mockRejectedValueOnce(
+        Object.assign(new Error('Precondition Failed'), { code: 412 })
+      )
+
+      const result = await gcsService.updateJsonObject<{ count: number }>(
+        'test-bucket',
+        destination,
+        (current) => ({ count: (current?.count || 0) + 1 })
+      )
+
+      expect(result).toEqual({ count: 6 })
+      expect(mockSave).toHaveBeenCalledTimes(2)
+      expect(mockSave).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ preconditionOpts: { ifGenerationMatch: 2 } })
+      )
+    })
+
+    test('gives up when the document keeps changing', async () => {
+      jest.useFakeTimers()
+      mockGetMetadata.mockResolvedValue([{ generation: '1' }])
+      mockSave.mockRejectedValue(
+        Object.assign(new Error('Precondition Failed'), { code: 412 })
+      )
+
+      try {
+        const result = expect(
+          gcsService.updateJsonObject('test-bucket', destination, () => ({}))
+        ).rejects.toThrow(/kept changing after 5 attempts/)
+        await jest.runAllTimersAsync()
+        await result
+        expect(mockSave).toHaveBeenCalledTimes(5)
+      } finally {
+        jest.useRealTimers()
+        mockGetMetadata.mockResolvedValue([
+          { metadata: { sha256Hash: 'abc123hash' } }
+        ])
+        mockSave.mockResolvedValue(undefined)
+      }
+    })
+
+    test('refuses to replace a document that is not valid JSON', async () => {
+      mockGetMetadata.mockResolvedValueOnce([{ generation: '3' }])
+      mockDownload.mockResolvedValueOnce([Buffer.from('<html>')])
+
+      await expect(
+        gcsService.updateJsonObject('test-bucket', destination, () => ({}))
+      ).rejects.toThrow(/does not contain valid JSON/)
+      expect(mockSave).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateVersionIndex', () => {
+    test('lists every published version with its details, newest first', async () => {
+      mockGetMetadata.mockRejectedValueOnce(
+        Object.assign(new Error('Not Found'), { code: 404 })
+      )
+
+      const index = await gcsService.updateVersionIndex(
+        'test-bucket',
+        'modules/test-module',
+        'test-module'
+      )
+
+      expect(mockFile).toHaveBeenCalledWith('modules/test-module/versions.json')
+      expect(index.module).toBe('test-module')
+      expect(index.versions.map((entry) => entry.version)).toEqual([
+        '1.0.0',
+        '0.9.0',
+        '0.8.0',
+        '0.7.0'
+      ])
+      expect(index.versions[0]).toEqual({
+        version: '1.0.0',
+        sha256: 'hash-1.0.0',
+        size: 2048,
+        uploadTimestamp: '2024-02-01T00:00:00.000Z',
+        gitCommit: 'abc123'
+      })
+      expect(index.versions[1]).toMatchObject({
+        version: '0.9.0',
+        size: 1024,
+        uploadTimestamp: '2024-01-01T00:00:00.000Z'
+      })
+      expect(mockSave).toHaveBeenCalledWith(
+        JSON.stringify(index, null, 2),
+        expect.anything()
+      )
+    })
+  })
+
+  describe('updateAlias', () => {
+    const archivePath = 'modules/test-module/test-module-1.2.0.zip'
+    const aliasPath = 'modules/test-module/test-module-1.x.zip'
+    const notFound = Object.assign(new Error('Not Found'), { code: 404 })
+
+    test('copies the archive to a missing alias with a short cache control', async () => {
+      mockGetMetadata
+        .mockResolvedValueOnce([{ metadata: { sha256Hash: 'hash-1.2.0' } }])
+        .mockRejectedValueOnce(notFound)
+
+      expect(
+        await gcsService.updateAlias(
+          'test-bucket',
+          archivePath,
+          aliasPath,
+          '1.2.0'
+        )
+      ).toBe(true)
+      expect(mockFile).toHaveBeenCalledWith(aliasPath)
+      expect(mockCopy).toHaveBeenCalledWith(expect.anything(), {
+        contentType: 'application/zip',
+        cacheControl: 'public, max-age=60',
+        metadata: { sha256Hash: 'hash-1.2.0', aliasVersion: '1.2.0' },
+        predefinedAcl: undefined,
+        preconditionOpts: { ifGenerationMatch: 0 }
+      })
+      expect(mockMakePublic).toHaveBeenCalled()
+    })
+
+    test('only moves aliases forward', async () => {
+      mockGetMetadata
+        .mockResolvedValueOnce([{ metadata: { sha256Hash: 'hash-1.2.0' } }])
+        .mockResolvedValueOnce([
+          { generation: '7', metadata: { aliasVersion: '1.10.0' } }
+        ])
+
+      expect(
+        await gcsService.updateAlias(
+          'test-bucket',
+          archivePath,
+          aliasPath,
+          '1.2.0'
+        )
+      ).toBe(false)
+      expect(mockCopy).not.toHaveBeenCalled()
+    })
+
+    test('retries when another publisher moved the alias', async () => {
+      mockGetMetadata
+        .mockResolvedValueOnce([{ metadata: { sha256Hash: 'hash-1.2.0' } }])
+        .mockResolvedValueOnce([
+          { generation: '3', metadata: { aliasVersion: '1.1.0' } }
+        ])
+        .mockResolvedValueOnce([
+          { generation: '4', metadata: { aliasVersion: '1.1.1' } }
+        ])
+      mockCopy.mockRejectedValueOnce(
+        Object.assign(new Error('Precondition Failed'), { code: 412 })
+      )
+
+      expect(
+        await gcsService.updateAlias(
+          'test-bucket',
+          archivePath,
+          aliasPath,
+          '1.2.0',
+          'private'
+        )
+      ).toBe(true)
+      expect(mockCopy).toHaveBeenCalledTimes(2)
+      expect(mockCopy).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ preconditionOpts: { ifGenerationMatch: 4 } })
+      )
+      expect(mockMakePublic).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateChecksumManifest', () => {
+    test('lists the hash of every version in sha256sum format', async () => {
+      mockGetMetadata.mockResolvedValueOnce([{ generation: '3' }])
+      mockDownload.mockResolvedValueOnce([Buffer.from('')])
+
+      const manifest = await gcsService.updateChecksumManifest(
+        'test-bucket',
+        'modules/test-module',
+        'test-module'
+      )
+
+      // Versions uploaded without a recorded hash cannot be checked
+      expect(manifest).toBe('hash-1.0.0  test-module-1.0.0.zip\n')
+      expect(mockFile).toHaveBeenCalledWith('modules/test-module/SHA256SUMS')
+      expect(mockSave).toHaveBeenCalledWith(manifest, {
+        contentType: 'text/plain; charset=utf-8',
+        metadata: { cacheControl: 'no-cache, max-age=0', metadata: undefined },
+        predefinedAcl: undefined,
+        preconditionOpts: { ifGenerationMatch: 3 },
+        resumable: false
+      })
+      expect(mockMakePublic).toHaveBeenCalled()
+    })
   })
 })
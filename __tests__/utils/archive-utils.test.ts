@@ -0,0 +1,323 @@
+import * as os from 'os'
+import * as path from 'path'
+import * as fs from 'fs'
+import * as zlib from 'zlib'
+import { calculateFileHash } from '../../src/utils/file-utils'
+import {
+  buildZipArchive,
+  extractZipArchive,
+  isCompleteZipArchive
+} from '../../src/utils/archive-utils'
+
+// Walks the central directory of a zip archive
+const readCentralDirectory = (
+  zipPath: string,
+  visit: (data: Buffer, offset: number, name: string) => void
+): void => {
+  const data = fs.readFileSync(zipPath)
+  const endOffset = data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const entryCount = data.readUInt16LE(endOffset + 10)
+  let offset = data.readUInt32LE(endOffset + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    const nameLength = data.readUInt16LE(offset + 28)
+    visit(
+      data,
+      offset,
+      data.toString('utf8', offset + 46, offset + 46 + nameLength)
+    )
+    offset += 46 + nameLength
+  }
+}
+
+// Reads the entries of a zip archive through its central directory
+const readZipEntries = (zipPath: string): Record<string, string> => {
+  const entries: Record<string, string> = {}
+  readCentralDirectory(zipPath, (data, offset, name) => {
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const localOffset = data.readUInt32LE(offset + 42)
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26)
+    entries[name] = zlib
+      .inflateRawSync(data.subarray(dataStart, dataStart + compressedSize))
+      .toString('utf8')
+  })
+  return entries
+}
+
+// Reads the entry names, timestamps and Unix modes of a zip archive
+const readZipHeaders = (
+  zipPath: string
+): Array<{ name: string; dosDate: number; mode: number }> => {
+  const headers: Array<{ name: string; dosDate: number; mode: number }> = []
+  readCentralDirectory(zipPath, (data, offset, name) => {
+    headers.push({
+      name,
+      dosDate: data.readUInt16LE(offset + 14),
+      mode: data.readUInt32LE(offset + 38) >>> 16
+    })
+  })
+  return headers
+}
+
+describe('Archive Utilities', () => {
+  let tempDir: string
+  let moduleDir: string
+  let zipPath: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-utils-test-'))
+    moduleDir = path.join(tempDir, 'module')
+    zipPath = path.join(tempDir, 'module.zip')
+
+    fs.mkdirSync(path.join(moduleDir, 'modules', 'subnet'), {
+      recursive: true
+    })
+    fs.writeFileSync(
+      path.join(moduleDir, 'main.tf'),
+      'resource "null_resource" "example" {}'
+    )
+    fs.writeFileSync(
+      path.join(moduleDir, 'modules', 'subnet', 'variables.tf'),
+      'variable "cidr" {}'
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  describe('buildZipArchive', () => {
+    test('packages every module file with its contents', async () => {
+      const files = await buildZipArchive(moduleDir, zipPath)
+
+      expect(files).toEqual(['main.tf', 'modules/subnet/variables.tf'])
+      expect(readZipEntries(zipPath)).toEqual({
+        'main.tf': 'resource "null_resource" "example" {}',
+        'modules/subnet/variables.tf': 'variable "cidr" {}'
+      })
+    })
+
+    test('skips git metadata and .DS_Store files', async () => {
+      fs.mkdirSync(path.join(moduleDir, '.git'))
+      fs.writeFileSync(path.join(moduleDir, '.git', 'HEAD'), 'ref: main')
+      fs.writeFileSync(path.join(moduleDir, '.gitignore'), '.terraform')
+      fs.writeFileSync(path.join(moduleDir, '.DS_Store'), '')
+
+      const files = await buildZipArchive(moduleDir, zipPath)
+
+      expect(files).toEqual(['main.tf', 'modules/subnet/variables.tf'])
+    })
+
+    test('skips .terraform directories and honors .terraformignore', async () => {
+      fs.mkdirSync(path.join(moduleDir, '.terraform', 'providers'), {
+        recursive: true
+      })
+      fs.writeFileSync(path.join(moduleDir, '.terraform', 'providers', 'x'), '')
+      fs.mkdirSync(path.join(moduleDir, 'examples'))
+      fs.writeFileSync(path.join(moduleDir, 'examples', 'main.tf'), '')
+      fs.writeFileSync(path.join(moduleDir, 'terraform.tfstate'), '{}')
+      fs.writeFileSync(path.join(moduleDir, 'keep.tfstate'), '{}')
+      fs.writeFileSync(
+        path.join(moduleDir, '.terraformignore'),
+        '# local files\nexamples/\n*.tfstate\n!keep.tfstate\n'
+      )
+
+      const files = await buildZipArchive(moduleDir, zipPath)
+
+      expect(files).toEqual([
+        '.terraformignore',
+        'keep.tfstate',
+        'main.tf',
+        'modules/subnet/variables.tf'
+      ])
+    })
+
+    test('applies include and exclude patterns', async () => {
+      fs.mkdirSync(path.join(moduleDir, 'test'))
+      fs.writeFileSync(path.join(moduleDir, 'test', 'vpc_test.go'), '')
+      fs.writeFileSync(path.join(moduleDir, 'README.md'), '# VPC')
+      fs.writeFileSync(
+        path.join(moduleDir, 'modules', 'subnet', 'notes.txt'),
+        ''
+      )
+
+      const files = await buildZipArchive(moduleDir, zipPath, {
+        include: ['*.tf', '*.md', 'test/'],
+        exclude: ['**/*_test.go']
+      })
+
+      expect(files).toEqual([
+        'README.md',
+        'main.tf',
+        'modules/subnet/variables.tf'
+      ])
+    })
+
+    test('does not follow excluded symlinks', async () => {
+      fs.symlinkSync(os.tmpdir(), path.join(moduleDir, 'tmp'))
+
+      const files = await buildZipArchive(moduleDir, zipPath, {
+        exclude: ['tmp/']
+      })
+
+      expect(files).toEqual(['main.tf', 'modules/subnet/variables.tf'])
+    })
+
+    test('follows symlinks that stay inside the module', async () => {
+      fs.symlinkSync(
+        path.join('..', '..', 'main.tf'),
+        path.join(moduleDir, 'modules', 'subnet', 'main.tf')
+      )
+
+      await buildZipArchive(moduleDir, zipPath)
+
+      expect(readZipEntries(zipPath)['modules/subnet/main.tf']).toBe(
+        'resource "null_resource" "example" {}'
+      )
+    })
+
+    test('rejects symlinks that point outside the module', async () => {
+      fs.writeFileSync(path.join(tempDir, 'secret.txt'), 'secret')
+      fs.symlinkSync(
+        path.join(tempDir, 'secret.txt'),
+        path.join(moduleDir, 'secret.txt')
+      )
+
+      await expect(buildZipArchive(moduleDir, zipPath)).rejects.toThrow(
+        /Symlink secret.txt points outside the module directory/
+      )
+    })
+
+    test('reports broken symlinks', async () => {
+      fs.symlinkSync(
+        path.join(moduleDir, 'missing.tf'),
+        path.join(moduleDir, 'broken.tf')
+      )
+
+      await expect(buildZipArchive(moduleDir, zipPath)).rejects.toThrow(
+        /Unable to resolve symlink broken.tf/
+      )
+    })
+
+    // Permission checks are bypassed when the tests run as root
+    const testUnlessRoot = process.getuid?.() === 0 ? test.skip : test
+
+    testUnlessRoot('reports unreadable files', async () => {
+      fs.chmodSync(path.join(moduleDir, 'main.tf'), 0o000)
+
+      await expect(buildZipArchive(moduleDir, zipPath)).rejects.toThrow(
+        /Unable to read file main.tf/
+      )
+      expect(fs.existsSync(zipPath)).toBe(false)
+    })
+
+    test('produces byte-identical archives for identical content', async () => {
+      // Recreate the same module with different file order, times and modes
+      const copyDir = path.join(tempDir, 'copy')
+      fs.mkdirSync(path.join(copyDir, 'modules', 'subnet'), {
+        recursive: true
+      })
+      fs.writeFileSync(
+        path.join(copyDir, 'modules', 'subnet', 'variables.tf'),
+        'variable "cidr" {}'
+      )
+      fs.writeFileSync(
+        path.join(copyDir, 'main.tf'),
+        'resource "null_resource" "example" {}',
+        { mode: 0o600 }
+      )
+      fs.utimesSync(path.join(copyDir, 'main.tf'), 0, 0)
+
+      const copyZipPath = path.join(tempDir, 'copy.zip')
+      await buildZipArchive(moduleDir, zipPath)
+      await buildZipArchive(copyDir, copyZipPath)
+
+      expect(await calculateFileHash(copyZipPath)).toBe(
+        await calculateFileHash(zipPath)
+      )
+    })
+
+    test('sorts entries and normalizes timestamps and permissions', async () => {
+      fs.writeFileSync(path.join(moduleDir, 'a-script.sh'), 'exit 0', {
+        mode: 0o700
+      })
+      fs.writeFileSync(path.join(moduleDir, 'Z.md'), '# Z')
+
+      await buildZipArchive(moduleDir, zipPath)
+
+      expect(readZipHeaders(zipPath)).toEqual([
+        { name: 'Z.md', dosDate: 33, mode: 0o100644 },
+        { name: 'a-script.sh', dosDate: 33, mode: 0o100755 },
+        { name: 'main.tf', dosDate: 33, mode: 0o100644 },
+        { name: 'modules/subnet/variables.tf', dosDate: 33, mode: 0o100644 }
+      ])
+    })
+
+    test('throws when the source is not a directory', async () => {
+      await expect(
+        buildZipArchive(path.join(moduleDir, 'main.tf'), zipPath)
+      ).rejects.toThrow(/is not a directory/)
+    })
+  })
+
+  describe('isCompleteZipArchive', () => {
+    test('accepts archives built by buildZipArchive', async () => {
+      await buildZipArchive(moduleDir, zipPath)
+
+      expect(await isCompleteZipArchive(zipPath)).toBe(true)
+    })
+
+    test('rejects archives that were cut short', async () => {
+      await buildZipArchive(moduleDir, zipPath)
+      fs.truncateSync(zipPath, fs.statSync(zipPath).size - 10)
+
+      expect(await isCompleteZipArchive(zipPath)).toBe(false)
+    })
+
+    test('rejects files too small to be a zip archive', async () => {
+      fs.writeFileSync(zipPath, 'PK')
+
+      expect(await isCompleteZipArchive(zipPath)).toBe(false)
+    })
+  })
+
+  describe('extractZipArchive', () => {
+    test('restores the files packaged by buildZipArchive', async () => {
+      const files = await buildZipArchive(moduleDir, zipPath)
+      const destination = path.join(tempDir, 'extracted')
+
+      expect(await extractZipArchive(zipPath, destination)).toEqual(files)
+      expect(
+        fs.readFileSync(
+          path.join(destination, 'modules', 'subnet', 'variables.tf'),
+          'utf8'
+        )
+      ).toBe('variable "cidr" {}')
+    })
+
+    test('rejects entries that would be written outside the destination', async () => {
+      await buildZipArchive(moduleDir, zipPath)
+      // Rewrite 'main.tf' in the central directory to a name of the same length
+      const data = fs.readFileSync(zipPath)
+      readCentralDirectory(zipPath, (_data, offset, name) => {
+        if (name === 'main.tf') {
+          data.write('../a.tf', offset + 46, 'utf8')
+        }
+      })
+      fs.writeFileSync(zipPath, data)
+
+      await expect(
+        extractZipArchive(zipPath, path.join(tempDir, 'extracted'))
+      ).rejects.toThrow(`${zipPath} has an entry outside the archive: ../a.tf`)
+      expect(fs.existsSync(path.join(tempDir, 'a.tf'))).toBe(false)
+    })
+
+    test('rejects files that are not zip archives', async () => {
+      fs.writeFileSync(zipPath, 'not a zip archive, just some text')
+
+      await expect(
+        extractZipArchive(zipPath, path.join(tempDir, 'extracted'))
+      ).rejects.toThrow(`${zipPath} is not a zip archive`)
+    })
+  })
+})
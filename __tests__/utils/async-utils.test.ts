@@ -0,0 +1,49 @@
+import { mapWithConcurrency } from '../../src/utils/async-utils'
+
+describe('Async Utilities', () => {
+  describe('mapWithConcurrency', () => {
+    test('returns results in input order', async () => {
+      const results = await mapWithConcurrency(
+        [30, 10, 20],
+        2,
+        (delay) =>
+          new Promise<number>((resolve) =>
+            setTimeout(() => resolve(delay * 2), delay)
+          )
+      )
+
+      expect(results).toEqual([60, 20, 40])
+    })
+
+    test('never runs more than the limit at once', async () => {
+      let running = 0
+      let maxRunning = 0
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        running--
+      })
+
+      expect(maxRunning).toBe(2)
+    })
+
+    test('rejects when a call fails', async () => {
+      await expect(
+        mapWithConcurrency([1, 2], 2, async (item) => {
+          if (item === 2) {
+            throw new Error('boom')
+          }
+          return item
+        })
+      ).rejects.toThrow('boom')
+    })
+
+    test('handles an empty list', async () => {
+      await expect(
+        mapWithConcurrency([], 4, async (item) => item)
+      ).resolves.toEqual([])
+    })
+  })
+})
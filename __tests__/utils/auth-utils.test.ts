@@ -0,0 +1,157 @@
+import * as os from 'os'
+import * as path from 'path'
+import * as fs from 'fs'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import { GoogleAuth } from 'google-auth-library'
+import * as core from '@actions/core'
+import {
+  buildExternalAccountConfig,
+  createWorkloadIdentityCredentialsFile
+} from '../../src/utils/auth-utils'
+
+// Mock @actions/core so no real OIDC token request is made
+jest.mock('@actions/core', () => ({
+  getIDToken: jest.fn(),
+  info: jest.fn()
+}))
+
+const provider =
+  'projects/123456/locations/global/workloadIdentityPools/github/providers/my-repo'
+const serviceAccount = 'publisher@my-project.iam.gserviceaccount.com'
+
+describe('Auth Utilities', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-utils-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  describe('buildExternalAccountConfig', () => {
+    test('builds an external_account configuration', () => {
+      expect(
+        buildExternalAccountConfig(provider, serviceAccount, '/tmp/token')
+      ).toEqual({
+        type: 'external_account',
+        audience: `//iam.googleapis.com/${provider}`,
+        subject_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+        token_url: 'https://sts.googleapis.com/v1/token',
+        service_account_impersonation_url: `https://iamcredentials.googleapis.com/v1/projects/-/serviceAccounts/${serviceAccount}:generateAccessToken`,
+        credential_source: { file: '/tmp/token' }
+      })
+    })
+
+    test('omits impersonation without a service account', () => {
+      const config = buildExternalAccountConfig(
+        provider,
+        undefined,
+        '/tmp/token'
+      )
+
+      expect(config.service_account_impersonation_url).toBeUndefined()
+    })
+  })
+
+  describe('createWorkloadIdentityCredentialsFile', () => {
+    test('writes the OIDC token and the credentials file', async () => {
+      ;(core.getIDToken as jest.Mock).mockResolvedValue('github-oidc-token')
+
+      const { credentialsPath, tokenPath } =
+        await createWorkloadIdentityCredentialsFile(
+          provider,
+          serviceAccount,
+          tempDir
+        )
+
+      expect(core.getIDToken).toHaveBeenCalledWith(
+        `https://iam.googleapis.com/${provider}`
+      )
+      expect(fs.readFileSync(tokenPath, 'utf8')).toBe('github-oidc-token')
+      expect(
+        JSON.parse(fs.readFileSync(credentialsPath, 'utf8')).credential_source
+      ).toEqual({ file: tokenPath })
+    })
+
+    test('explains a failed OIDC token request', async () => {
+      ;(core.getIDToken as jest.Mock).mockRejectedValue(
+        new Error('Unable to get ACTIONS_ID_TOKEN_REQUEST_URL env variable')
+      )
+
+      await expect(
+        createWorkloadIdentityCredentialsFile(provider, undefined, tempDir)
+      ).rejects.toThrow(/id-token: write/)
+    })
+
+    test('exchanges the OIDC token at the STS endpoint', async () => {
+      // Local mock of the STS and IAM Credentials APIs
+      const requests: Array<{ url: string; body: string }> = []
+      const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+          requests.push({ url: req.url || '', body })
+          res.setHeader('Content-Type', 'application/json')
+          if (req.url === '/v1/token') {
+            res.end(
+              JSON.stringify({
+                access_token: 'federated-token',
+                issued_token_type:
+                  'urn:ietf:params:oauth:token-type:access_token',
+                token_type: 'Bearer',
+                expires_in: 3600
+              })
+            )
+          } else {
+            res.end(
+              JSON.stringify({
+                accessToken: 'service-account-token',
+                expireTime: new Date(Date.now() + 3600000).toISOString()
+              })
+            )
+          }
+        })
+      })
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      )
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+      try {
+        ;(core.getIDToken as jest.Mock).mockResolvedValue('github-oidc-token')
+        const { credentialsPath } = await createWorkloadIdentityCredentialsFile(
+          provider,
+          serviceAccount,
+          tempDir,
+          {
+            stsTokenUrl: `${baseUrl}/v1/token`,
+            iamCredentialsUrl: `${baseUrl}/v1`
+          }
+        )
+
+        const auth = new GoogleAuth({
+          keyFilename: credentialsPath,
+          scopes: ['https://www.googleapis.com/auth/devstorage.read_write']
+        })
+        const client = await auth.getClient()
+        const { token } = await client.getAccessToken()
+
+        expect(token).toBe('service-account-token')
+        const stsRequest = new URLSearchParams(requests[0].body)
+        expect(stsRequest.get('subject_token')).toBe('github-oidc-token')
+        expect(stsRequest.get('audience')).toBe(
+          `//iam.googleapis.com/${provider}`
+        )
+        expect(requests[1].url).toBe(
+          `/v1/projects/-/serviceAccounts/${serviceAccount}:generateAccessToken`
+        )
+      } finally {
+        await new Promise((resolve) => server.close(resolve))
+      }
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import * as exec from '@actions/exec'
+import {
+  getReleaseType,
+  readCommitMessages
+} from '../../src/utils/commit-utils'
+
+jest.mock('@actions/exec')
+
+describe('Commit Utilities', () => {
+  const getExecOutput = exec.getExecOutput as jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('readCommitMessages', () => {
+    test('lists the messages of the commits touching the directory', async () => {
+      getExecOutput.mockResolvedValue({
+        exitCode: 0,
+        stdout:
+          'feat: add subnets\n\nWith secondary ranges.\n\0\nfix: typo\n\0\n',
+        stderr: ''
+      })
+
+      expect(await readCommitMessages('modules/vpc', 'abc123')).toEqual([
+        'feat: add subnets\n\nWith secondary ranges.',
+        'fix: typo'
+      ])
+      expect(getExecOutput).toHaveBeenCalledWith(
+        'git',
+        ['log', '--format=%B%x00', 'abc123..HEAD', '--', '.'],
+        expect.objectContaining({ cwd: 'modules/vpc' })
+      )
+    })
+
+    test('explains that shallow checkouts lack the history', async () => {
+      getExecOutput.mockResolvedValue({
+        exitCode: 128,
+        stdout: '',
+        stderr: "fatal: bad revision 'abc123..HEAD'\n"
+      })
+
+      await expect(readCommitMessages('modules/vpc', 'abc123')).rejects.toThrow(
+        "git log failed in modules/vpc: fatal: bad revision 'abc123..HEAD'. The checkout needs the history since abc123 (fetch-depth: 0 with actions/checkout)"
+      )
+    })
+  })
+
+  describe('getReleaseType', () => {
+    test('picks the largest release the commits call for', () => {
+      expect(getReleaseType(['fix: typo', 'docs: readme'], '1.2.3')).toBe(
+        'patch'
+      )
+      expect(getReleaseType(['perf(nat): cache routes'], '1.2.3')).toBe('patch')
+      expect(
+        getReleaseType(['fix: typo', 'feat(vpc): add subnets'], '1.2.3')
+      ).toBe('minor')
+      expect(getReleaseType(['feat!: drop the name variable'], '1.2.3')).toBe(
+        'major'
+      )
+      expect(
+        getReleaseType(
+          ['fix: rename output\n\nBREAKING CHANGE: id is now network_id'],
+          '1.2.3'
+        )
+      ).toBe('major')
+    })
+
+    test('calls for a minor release for breaking changes before 1.0.0', () => {
+      expect(getReleaseType(['refactor!: new layout'], '0.4.1')).toBe('minor')
+    })
+
+    test('finds no release without feat, fix, perf or breaking commits', () => {
+      expect(
+        getReleaseType(
+          ['docs: readme', 'chore: bump', 'Merge branch x'],
+          '1.0.0'
+        )
+      ).toBeUndefined()
+      expect(getReleaseType([], '1.0.0')).toBeUndefined()
+    })
+  })
+})
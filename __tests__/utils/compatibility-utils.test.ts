@@ -0,0 +1,137 @@
+import {
+  compareModuleInterfaces,
+  formatBreakingChange,
+  isConstraintTightened,
+  toSemverRange
+} from '../../src/utils/compatibility-utils'
+import { ModuleDescriptor } from '../../src/interfaces'
+
+describe('Compatibility Utilities', () => {
+  describe('toSemverRange', () => {
+    test('translates Terraform version constraints', () => {
+      expect(toSemverRange('>= 5.0, < 7.0')).toBe('>=5.0.0 <7.0.0')
+      expect(toSemverRange('~> 3.1')).toBe('>=3.1.0 <4.0.0')
+      expect(toSemverRange('~> 3.1.2')).toBe('>=3.1.2 <3.2.0')
+      expect(toSemverRange('1.5.7')).toBe('=1.5.7')
+      expect(toSemverRange('>= 1.0, != 1.2.0')).toBe(
+        '>=1.0.0 <1.2.0 || >=1.0.0 >1.2.0'
+      )
+    })
+
+    test('returns undefined for constraints it cannot read', () => {
+      expect(toSemverRange('latest')).toBeUndefined()
+      expect(toSemverRange('>= 1.0,')).toBeUndefined()
+    })
+  })
+
+  describe('isConstraintTightened', () => {
+    test('detects constraints that reject versions accepted before', () => {
+      expect(isConstraintTightened('>= 5.0', '>= 6.0')).toBe(true)
+      expect(isConstraintTightened('>= 5.0', '>= 5.0, < 7.0')).toBe(true)
+      expect(isConstraintTightened('~> 3.0', '~> 3.4')).toBe(true)
+      expect(isConstraintTightened(undefined, '>= 1.3')).toBe(true)
+    })
+
+    test('accepts loosened, unchanged and unreadable constraints', () => {
+      expect(isConstraintTightened('>= 5.0, < 6.0', '>= 5.0, < 7.0')).toBe(
+        false
+      )
+      expect(isConstraintTightened('~> 3.4', '~> 3.0')).toBe(false)
+      expect(isConstraintTightened('>= 1.3', undefined)).toBe(false)
+      expect(isConstraintTightened('latest', '>= 1.3')).toBe(false)
+    })
+  })
+
+  describe('compareModuleInterfaces', () => {
+    const descriptor = (
+      overrides: Partial<ModuleDescriptor> = {}
+    ): ModuleDescriptor => ({
+      name: 'vpc',
+      version: '1.0.0',
+      requiredVersion: '>= 1.3',
+      providers: [
+        { name: 'google', source: 'hashicorp/google', version: '>= 5.0' }
+      ],
+      inputs: [
+        { name: 'name', type: 'string', required: true, sensitive: false },
+        {
+          name: 'mtu',
+          type: 'number',
+          default: 1460,
+          required: false,
+          sensitive: false
+        }
+      ],
+      outputs: [{ name: 'id', sensitive: false }],
+      submodules: [
+        {
+          path: 'modules/subnet',
+          providers: [],
+          inputs: [
+            { name: 'cidr', type: 'string', required: true, sensitive: false }
+          ],
+          outputs: [{ name: 'self_link', sensitive: false }]
+        }
+      ],
+      ...overrides
+    })
+
+    test('finds no changes between compatible versions', () => {
+      const next = descriptor({
+        version: '1.1.0',
+        inputs: [
+          ...descriptor().inputs,
+          { name: 'labels', default: {}, required: false, sensitive: false }
+        ],
+        outputs: [...descriptor().outputs, { name: 'name', sensitive: false }],
+        providers: [{ name: 'google', version: '>= 4.0' }]
+      })
+
+      expect(compareModuleInterfaces(descriptor(), next)).toEqual([])
+    })
+
+    test('lists the breaking changes of the root and of submodules', () => {
+      const previous = descriptor()
+      const next = descriptor({
+        version: '1.1.0',
+        requiredVersion: '>= 1.5',
+        providers: [{ name: 'google', version: '>= 5.0, < 6.0' }],
+        inputs: [
+          { name: 'name', required: true, sensitive: false },
+          { name: 'mtu', required: true, sensitive: false },
+          { name: 'project', required: true, sensitive: false }
+        ],
+        outputs: [],
+        submodules: [
+          {
+            ...previous.submodules[0],
+            inputs: [{ name: 'range', required: true, sensitive: false }]
+          }
+        ]
+      })
+
+      expect(
+        compareModuleInterfaces(previous, next).map(formatBreakingChange)
+      ).toEqual([
+        'variable "mtu" no longer has a default',
+        'new variable "project" has no default',
+        'output "id" was removed',
+        'provider "google" constraint tightened from ">= 5.0" to ">= 5.0, < 6.0"',
+        'required_version tightened from ">= 1.3" to ">= 1.5"',
+        'modules/subnet: variable "cidr" was removed',
+        'modules/subnet: new variable "range" has no default'
+      ])
+    })
+
+    test('reports removed submodules', () => {
+      expect(
+        compareModuleInterfaces(descriptor(), descriptor({ submodules: [] }))
+      ).toEqual([
+        {
+          kind: 'removed-submodule',
+          description: 'submodule "modules/subnet" was removed'
+        }
+      ])
+    })
+  })
+})
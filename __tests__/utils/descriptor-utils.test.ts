@@ -0,0 +1,157 @@
+import * as os from 'os'
+import * as path from 'path'
+import * as fs from 'fs'
+import {
+  buildModuleDescriptor,
+  summarizeModuleDescriptor
+} from '../../src/utils/descriptor-utils'
+
+describe('Descriptor Utilities', () => {
+  let modulePath: string
+
+  const writeFile = (name: string, contents: string): void => {
+    fs.mkdirSync(path.dirname(path.join(modulePath, name)), {
+      recursive: true
+    })
+    fs.writeFileSync(path.join(modulePath, name), contents)
+  }
+
+  beforeEach(() => {
+    modulePath = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'descriptor-utils-test-')
+    )
+    writeFile(
+      'main.tf',
+      `terraform {
+  required_version = ">= 1.3"
+  required_providers {
+    google = { source = "hashicorp/google", version = ">= 5.0" }
+  }
+}
+
+variable "name" {
+  type = string
+}
+
+variable "password" {
+  type      = string
+  default   = "hunter2"
+  sensitive = true
+}
+
+output "id" {
+  value = "x"
+}
+`
+    )
+    writeFile('README.md', '# VPC\n')
+    writeFile('modules/subnet/main.tf', 'variable "cidr" {}\n')
+    writeFile('modules/unpackaged/main.tf', 'variable "x" {}\n')
+    writeFile('examples/basic/main.tf', 'module "vpc" { source = "../.." }\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(modulePath, { recursive: true, force: true })
+  })
+
+  describe('buildModuleDescriptor', () => {
+    test('describes the root, the packaged submodules and the README', () => {
+      const descriptor = buildModuleDescriptor(modulePath, 'vpc', '1.2.0', [
+        'README.md',
+        'examples/basic/main.tf',
+        'main.tf',
+        'modules/subnet/main.tf'
+      ])
+
+      expect(descriptor).toEqual({
+        name: 'vpc',
+        version: '1.2.0',
+        requiredVersion: '>= 1.3',
+        providers: [
+          { name: 'google', source: 'hashicorp/google', version: '>= 5.0' }
+        ],
+        inputs: [
+          {
+            name: 'name',
+            type: 'string',
+            required: true,
+            sensitive: false
+          },
+          {
+            name: 'password',
+            type: 'string',
+            default: undefined,
+            required: false,
+            sensitive: true
+          }
+        ],
+        outputs: [{ name: 'id', sensitive: false }],
+        submodules: [
+          {
+            path: 'modules/subnet',
+            providers: [],
+            inputs: [{ name: 'cidr', required: true, sensitive: false }],
+            outputs: []
+          }
+        ],
+        readme: '# VPC\n'
+      })
+    })
+
+    test('leaves out the Terraform files that are not packaged', () => {
+      writeFile('excluded.tf', 'variable "excluded" {}\n')
+      writeFile('modules/subnet/excluded.tf', 'output "excluded" {}\n')
+      writeFile('examples/broken/main.tf', 'module "vpc" {\n')
+
+      const descriptor = buildModuleDescriptor(modulePath, 'vpc', '1.2.0', [
+        'main.tf',
+        'modules/subnet/main.tf'
+      ])
+
+      expect(descriptor.inputs.map((input) => input.name)).toEqual([
+        'name',
+        'password'
+      ])
+      expect(descriptor.submodules).toEqual([
+        {
+          path: 'modules/subnet',
+          providers: [],
+          inputs: [{ name: 'cidr', required: true, sensitive: false }],
+          outputs: []
+        }
+      ])
+    })
+  })
+
+  describe('summarizeModuleDescriptor', () => {
+    test('lists the interface and leaves out what is empty', () => {
+      const descriptor = buildModuleDescriptor(modulePath, 'vpc', '1.2.0', [
+        'main.tf'
+      ])
+
+      expect(summarizeModuleDescriptor(descriptor)).toEqual({
+        terraformInputs: 'name, password',
+        terraformRequiredInputs: 'name',
+        terraformOutputs: 'id',
+        terraformProviders: 'google (hashicorp/google >= 5.0)',
+        terraformRequiredVersion: '>= 1.3'
+      })
+    })
+
+    test('cuts long lists short', () => {
+      const descriptor = buildModuleDescriptor(modulePath, 'vpc', '1.2.0', [
+        'main.tf'
+      ])
+      descriptor.inputs = Array.from({ length: 200 }, (_, index) => ({
+        name: `variable_${index}`,
+        required: false,
+        sensitive: false
+      }))
+
+      const { terraformInputs } = summarizeModuleDescriptor(descriptor)
+
+      expect(terraformInputs.length).toBeLessThanOrEqual(1024)
+      expect(terraformInputs).toMatch(/^variable_0, variable_1, .*\d, \.\.\.$/)
+    })
+  })
+})
@@ -1,7 +1,10 @@
 import * as path from 'path'
 import * as fs from 'fs'
 import * as crypto from 'crypto'
-import { calculateFileHash } from '../../src/utils/file-utils'
+import {
+  calculateFileChecksums,
+  calculateFileHash
+} from '../../src/utils/file-utils'
 
 describe('File Utilities', () => {
   describe('calculateFileHash', () => {
@@ -35,4 +38,30 @@ describe('File Utilities', () => {
       ).rejects.toThrow()
     })
   })
+
+  describe('calculateFileChecksums', () => {
+    test('calculates the MD5 hash and CRC32C checksum as GCS reports them', async () => {
+      const testFilePath = path.join(__dirname, 'checksum-file.txt')
+      fs.writeFileSync(testFilePath, '123456789')
+
+      try {
+        expect(await calculateFileChecksums(testFilePath)).toEqual({
+          md5Hash: crypto
+            .createHash('md5')
+            .update('123456789')
+            .digest('base64'),
+          // The CRC32C check value of '123456789' is 0xe3069283
+          crc32c: Buffer.from([0xe3, 0x06, 0x92, 0x83]).toString('base64')
+        })
+      } finally {
+        fs.unlinkSync(testFilePath)
+      }
+    })
+
+    test('throws error for non-existent file', async () => {
+      await expect(
+        calculateFileChecksums('/path/to/nonexistent/file.txt')
+      ).rejects.toThrow()
+    })
+  })
 })
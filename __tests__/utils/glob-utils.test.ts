@@ -0,0 +1,90 @@
+import {
+  compileGlob,
+  isIgnored,
+  matchesAny,
+  parseIgnoreFile
+} from '../../src/utils/glob-utils'
+
+describe('Glob Utilities', () => {
+  describe('compileGlob', () => {
+    test('matches unanchored patterns at any depth', () => {
+      const rule = compileGlob('*.tfstate')
+
+      expect(rule.regex.test('terraform.tfstate')).toBe(true)
+      expect(rule.regex.test('envs/dev/terraform.tfstate')).toBe(true)
+      expect(rule.regex.test('terraform.tfstate.backup')).toBe(false)
+    })
+
+    test('anchors patterns containing a slash to the root', () => {
+      const rule = compileGlob('test/fixtures')
+
+      expect(rule.regex.test('test/fixtures')).toBe(true)
+      expect(rule.regex.test('modules/test/fixtures')).toBe(false)
+      expect(compileGlob('/main.tf').regex.test('modules/x/main.tf')).toBe(
+        false
+      )
+    })
+
+    test('supports globstars, single characters and character classes', () => {
+      expect(compileGlob('**/*_test.go').regex.test('test/vpc_test.go')).toBe(
+        true
+      )
+      expect(compileGlob('**/*_test.go').regex.test('vpc_test.go')).toBe(true)
+      expect(compileGlob('docs/**').regex.test('docs/a/b.md')).toBe(true)
+      expect(compileGlob('v?.tf').regex.test('v1.tf')).toBe(true)
+      expect(compileGlob('[!a]*.tf').regex.test('main.tf')).toBe(true)
+      expect(compileGlob('[!m]*.tf').regex.test('main.tf')).toBe(false)
+    })
+
+    test('records negation and directory-only flags', () => {
+      expect(compileGlob('!keep.tf')).toMatchObject({
+        negated: true,
+        directoryOnly: false
+      })
+      expect(compileGlob('examples/')).toMatchObject({
+        negated: false,
+        directoryOnly: true
+      })
+    })
+
+    test('rejects empty patterns', () => {
+      expect(() => compileGlob('!')).toThrow(/Invalid glob pattern/)
+    })
+  })
+
+  describe('parseIgnoreFile', () => {
+    test('skips comments and blank lines', () => {
+      const rules = parseIgnoreFile('# state\n*.tfstate\n\n  examples/  \r\n')
+
+      expect(rules.map((rule) => rule.pattern)).toEqual([
+        '*.tfstate',
+        'examples/'
+      ])
+    })
+  })
+
+  describe('isIgnored', () => {
+    const rules = parseIgnoreFile('examples/\n*.tfvars\n!default.tfvars')
+
+    test('lets the last matching rule win', () => {
+      expect(isIgnored(rules, 'prod.tfvars', false)).toBe(true)
+      expect(isIgnored(rules, 'default.tfvars', false)).toBe(false)
+      expect(isIgnored(rules, 'main.tf', false)).toBe(false)
+    })
+
+    test('only applies directory patterns to directories', () => {
+      expect(isIgnored(rules, 'examples', true)).toBe(true)
+      expect(isIgnored(rules, 'examples', false)).toBe(false)
+    })
+  })
+
+  describe('matchesAny', () => {
+    test('matches files through their parent directories', () => {
+      const rules = parseIgnoreFile('modules/\n*.tf')
+
+      expect(matchesAny(rules, 'modules/subnet/README.md')).toBe(true)
+      expect(matchesAny(rules, 'main.tf')).toBe(true)
+      expect(matchesAny(rules, 'README.md')).toBe(false)
+    })
+  })
+})
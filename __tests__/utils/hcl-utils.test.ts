@@ -0,0 +1,138 @@
+import { parseHcl } from '../../src/utils/hcl-utils'
+
+describe('HCL Utilities', () => {
+  describe('parseHcl', () => {
+    test('parses attributes, labeled blocks and nested blocks', () => {
+      const body = parseHcl(
+        `# Network
+resource "google_compute_network" "this" {
+  name = var.name
+  /* ignored */
+  lifecycle { ignore_changes = [labels] }
+}
+`,
+        'main.tf'
+      )
+
+      expect(body.attributes).toEqual({})
+      expect(body.blocks).toEqual([
+        {
+          type: 'resource',
+          labels: ['google_compute_network', 'this'],
+          line: 2,
+          body: {
+            attributes: { name: { expression: 'var.name', line: 3 } },
+            blocks: [
+              {
+                type: 'lifecycle',
+                labels: [],
+                line: 5,
+                body: {
+                  attributes: {
+                    ignore_changes: { expression: '[labels]', line: 5 }
+                  },
+                  blocks: []
+                }
+              }
+            ]
+          }
+        }
+      ])
+    })
+
+    test('evaluates literals but keeps only the source of other expressions', () => {
+      const { attributes } = parseHcl(
+        `name    = "vpc"
+count   = 3
+enabled = true
+tags    = { env = "dev", "team" = "core" }
+zones   = ["a", "b"]
+greet   = "Hello \${var.name}"
+cidrs   = [for s in var.subnets : s.cidr if s.public]
+doc     = <<-EOT
+  Docs
+  EOT
+`,
+        'locals.tf'
+      )
+
+      expect(attributes.name.value).toBe('vpc')
+      expect(attributes.count.value).toBe(3)
+      expect(attributes.enabled.value).toBe(true)
+      expect(attributes.tags.value).toEqual({ env: 'dev', team: 'core' })
+      expect(attributes.zones.value).toEqual(['a', 'b'])
+      expect(attributes.greet).toEqual({
+        expression: '"Hello ${var.name}"',
+        line: 6
+      })
+      expect(attributes.cidrs.expression).toBe(
+        '[for s in var.subnets : s.cidr if s.public]'
+      )
+      expect(attributes.doc.value).toBe('Docs\n')
+    })
+
+    test('reports syntax errors with the file, line and column', () => {
+      expect(() => parseHcl('variable "x" {\n', 'variables.tf')).toThrow(
+        "variables.tf:1:14: Unclosed variable block: missing '}'"
+      )
+      expect(() => parseHcl('a = 1\na = 2\n', 'main.tf')).toThrow(
+        'main.tf:2:1: Attribute a is defined more than once'
+      )
+      expect(() => parseHcl('x = [1, 2\n', 'main.tf')).toThrow(
+        "main.tf:1:5: Unclosed '[': missing ']'"
+      )
+      expect(() => parseHcl('x = "open\n', 'main.tf')).toThrow(
+        'main.tf:1:5: Unterminated string'
+      )
+    })
+
+    test('parses operations, traversals, function calls and for expressions', () => {
+      const { attributes } = parseHcl(
+        `a = var.subnets[0].cidr
+b = merge(local.tags, { env = "dev" }, var.extra...)
+c = var.enabled ? -1 : !var.flag || 2 * (3 + 4) >= 5
+d = var.subnets[*].id
+e = { for k, v in var.map : k => v... if v != null }
+f = provider::google::region_from_zone("us-central1-a")
+g = [
+  1,
+  2,
+]
+`,
+        'main.tf'
+      )
+
+      expect(Object.keys(attributes)).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+        'e',
+        'f',
+        'g'
+      ])
+      expect(attributes.g.value).toEqual([1, 2])
+    })
+
+    test('rejects expressions that are not valid', () => {
+      expect(() => parseHcl('a = = 1\n', 'main.tf')).toThrow(
+        "main.tf:1:5: Expected an expression, found '='"
+      )
+      expect(() => parseHcl('a = 1 +\n', 'main.tf')).toThrow(
+        'main.tf:1:8: Expected an expression, found a newline'
+      )
+      expect(() => parseHcl('a = var.\n', 'main.tf')).toThrow(
+        "main.tf:1:9: Expected an attribute name after '.', found a newline"
+      )
+      expect(() => parseHcl('a = 1 2 3\n', 'main.tf')).toThrow(
+        "main.tf:1:7: Expected a newline, found '2'"
+      )
+      expect(() => parseHcl('a = f(1,,2)\n', 'main.tf')).toThrow(
+        "main.tf:1:9: Expected an expression, found ','"
+      )
+      expect(() => parseHcl('a = { b }\n', 'main.tf')).toThrow(
+        "main.tf:1:9: Expected '=' or ':' after an object key, found '}'"
+      )
+    })
+  })
+})
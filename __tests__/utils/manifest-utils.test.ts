@@ -0,0 +1,67 @@
+import * as os from 'os'
+import * as path from 'path'
+import * as fs from 'fs'
+import { parseModuleManifest } from '../../src/utils/manifest-utils'
+
+describe('Manifest Utilities', () => {
+  describe('parseModuleManifest', () => {
+    const expected = [
+      { name: 'vpc', path: 'modules/vpc', version: '1.2.0' },
+      { name: 'gke', path: 'modules/gke', version: '2.0.1' }
+    ]
+
+    test('parses an inline YAML list', () => {
+      const manifest = [
+        '- name: vpc',
+        '  path: modules/vpc',
+        '  version: 1.2.0',
+        '- name: gke',
+        '  path: modules/gke',
+        '  version: 2.0.1'
+      ].join('\n')
+
+      expect(parseModuleManifest(manifest)).toEqual(expected)
+    })
+
+    test('parses an inline JSON list', () => {
+      expect(parseModuleManifest(JSON.stringify(expected))).toEqual(expected)
+    })
+
+    test('reads a manifest file with a modules key', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-test-'))
+      const manifestPath = path.join(tempDir, 'modules.json')
+      fs.writeFileSync(manifestPath, JSON.stringify({ modules: expected }))
+
+      try {
+        expect(parseModuleManifest(manifestPath)).toEqual(expected)
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true })
+      }
+    })
+
+    test('reports unreadable manifest files', () => {
+      expect(() => parseModuleManifest('/path/to/missing.yml')).toThrow(
+        /Unable to read modules manifest/
+      )
+    })
+
+    test('rejects empty lists and incomplete entries', () => {
+      expect(() => parseModuleManifest('[]')).toThrow(/non-empty list/)
+      expect(() =>
+        parseModuleManifest('- name: vpc\n  path: modules/vpc')
+      ).toThrow(/entry 1 is missing 'version'/)
+    })
+
+    test('leaves versions out when they are not required', () => {
+      expect(
+        parseModuleManifest('- name: vpc\n  path: modules/vpc', false)
+      ).toEqual([{ name: 'vpc', path: 'modules/vpc', version: '' }])
+    })
+
+    test('rejects duplicate module names', () => {
+      expect(() =>
+        parseModuleManifest(JSON.stringify([expected[0], expected[0]]))
+      ).toThrow(/module vpc is listed more than once/)
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import {
+  PROVENANCE_BUILD_TYPE,
+  buildProvenanceStatement
+} from '../../src/utils/provenance-utils'
+
+describe('Provenance Utilities', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      GITHUB_SERVER_URL: 'https://github.com',
+      GITHUB_REPOSITORY: 'acme/modules',
+      GITHUB_REPOSITORY_ID: '123',
+      GITHUB_REPOSITORY_OWNER_ID: '456',
+      GITHUB_REF: 'refs/tags/vpc/v1.2.0',
+      GITHUB_SHA: 'abc123',
+      GITHUB_WORKFLOW_REF:
+        'acme/modules/.github/workflows/publish.yml@refs/tags/vpc/v1.2.0',
+      GITHUB_EVENT_NAME: 'push',
+      GITHUB_ACTOR: 'octocat',
+      GITHUB_RUN_ID: '789',
+      GITHUB_RUN_ATTEMPT: '2',
+      RUNNER_NAME: 'GitHub Actions 2',
+      RUNNER_OS: 'Linux',
+      RUNNER_ARCH: 'X64',
+      RUNNER_ENVIRONMENT: 'github-hosted'
+    }
+    delete process.env.GITHUB_EVENT_PATH
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe('buildProvenanceStatement', () => {
+    test('attests the archive digest with the GitHub context of the run', () => {
+      const statement = buildProvenanceStatement('vpc-1.2.0.zip', 'f00d', {
+        'module-name': 'vpc'
+      })
+
+      expect(statement).toMatchObject({
+        _type: 'https://in-toto.io/Statement/v1',
+        subject: [{ name: 'vpc-1.2.0.zip', digest: { sha256: 'f00d' } }],
+        predicateType: 'https://slsa.dev/provenance/v1',
+        predicate: {
+          buildDefinition: {
+            buildType: PROVENANCE_BUILD_TYPE,
+            externalParameters: {
+              workflow: {
+                ref: 'refs/tags/vpc/v1.2.0',
+                repository: 'https://github.com/acme/modules',
+                path: '.github/workflows/publish.yml'
+              },
+              inputs: { 'module-name': 'vpc' }
+            },
+            internalParameters: {
+              github: {
+                event_name: 'push',
+                repository_id: '123',
+                repository_owner_id: '456',
+                actor: 'octocat',
+                runner_environment: 'github-hosted'
+              },
+              runner: { name: 'GitHub Actions 2', os: 'Linux', arch: 'X64' }
+            },
+            resolvedDependencies: [
+              {
+                uri: 'git+https://github.com/acme/modules@refs/tags/vpc/v1.2.0',
+                digest: { gitCommit: 'abc123' }
+              }
+            ]
+          },
+          runDetails: {
+            builder: { id: 'https://github.com/actions/runner/github-hosted' },
+            metadata: {
+              invocationId:
+                'https://github.com/acme/modules/actions/runs/789/attempts/2'
+            }
+          }
+        }
+      })
+      expect(
+        Date.parse(statement.predicate.runDetails.metadata.finishedOn)
+      ).not.toBeNaN()
+    })
+
+    test('treats runners that do not say where they run as self-hosted', () => {
+      delete process.env.RUNNER_ENVIRONMENT
+
+      const statement = buildProvenanceStatement('vpc-1.2.0.zip', 'f00d', {})
+
+      expect(statement.predicate.runDetails.builder.id).toBe(
+        'https://github.com/actions/runner/self-hosted'
+      )
+    })
+  })
+})
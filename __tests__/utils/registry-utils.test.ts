@@ -0,0 +1,77 @@
+import {
+  buildDiscoveryDocument,
+  buildDownloadDocument,
+  buildVersionsDocument,
+  getRegistryModulePath
+} from '../../src/utils/registry-utils'
+
+describe('Registry Utilities', () => {
+  describe('getRegistryModulePath', () => {
+    test('places modules under the modules.v1 service path', () => {
+      expect(getRegistryModulePath('infraspec', 'vpc', 'google')).toBe(
+        'v1/modules/infraspec/vpc/google'
+      )
+    })
+  })
+
+  describe('buildDiscoveryDocument', () => {
+    test('announces the modules.v1 service', () => {
+      expect(buildDiscoveryDocument(undefined)).toEqual({
+        'modules.v1': '/v1/modules/'
+      })
+    })
+
+    test('keeps the other services of an existing document', () => {
+      expect(
+        buildDiscoveryDocument({ 'providers.v1': '/v1/providers/' })
+      ).toEqual({
+        'providers.v1': '/v1/providers/',
+        'modules.v1': '/v1/modules/'
+      })
+    })
+  })
+
+  describe('buildVersionsDocument', () => {
+    test('lists the versions in the registry protocol format', () => {
+      expect(
+        buildVersionsDocument([{ version: '1.1.0' }, { version: '1.0.0' }])
+      ).toEqual({
+        modules: [{ versions: [{ version: '1.1.0' }, { version: '1.0.0' }] }]
+      })
+    })
+
+    test('flags yanked versions with a deprecation', () => {
+      expect(
+        buildVersionsDocument([
+          {
+            version: '1.0.0',
+            yanked: {
+              reason: 'Leaks state',
+              replacement: '1.0.1',
+              yankedAt: '2024-03-01T00:00:00Z'
+            }
+          }
+        ])
+      ).toEqual({
+        modules: [
+          {
+            versions: [
+              {
+                version: '1.0.0',
+                deprecation: { reason: 'Leaks state (use 1.0.1 instead)' }
+              }
+            ]
+          }
+        ]
+      })
+    })
+  })
+
+  describe('buildDownloadDocument', () => {
+    test('holds the download location', () => {
+      expect(
+        buildDownloadDocument('gcs::https://www.googleapis.com/storage/v1/b/x')
+      ).toEqual({ location: 'gcs::https://www.googleapis.com/storage/v1/b/x' })
+    })
+  })
+})
@@ -0,0 +1,300 @@
+import {
+  applyRetentionPolicy,
+  parseRetentionPolicy
+} from '../../src/utils/retention-utils'
+import { RetentionPolicy } from '../../src/interfaces'
+
+// Returns the versions the policy deletes
+const deleted = (
+  versions: string[],
+  policy: RetentionPolicy,
+  currentVersion: string
+): string[] =>
+  applyRetentionPolicy(
+    versions.map((version) => ({ version })),
+    policy,
+    currentVersion
+  )
+    .filter((decision) => !decision.keep)
+    .map((decision) => decision.version)
+
+describe('Retention Utilities', () => {
+  describe('applyRetentionPolicy', () => {
+    const policy: RetentionPolicy = {
+      keepStable: 2,
+      keepPrereleases: 1,
+      dropReleasedPrereleases: false
+    }
+
+    test('keeps the latest stable versions and pre-releases separately', () => {
+      expect(
+        deleted(
+          ['1.0.0', '1.1.0', '1.2.0', '1.3.0-rc.1', '1.3.0-rc.2', '1.3.0'],
+          policy,
+          '1.3.0'
+        )
+      ).toEqual(['1.3.0-rc.1', '1.0.0'])
+    })
+
+    test('drops pre-releases once their final release exists', () => {
+      expect(
+        deleted(
+          ['1.2.0', '1.3.0-rc.1', '1.4.0-beta.1'],
+          { ...policy, dropReleasedPrereleases: true },
+          '1.3.0'
+        )
+      ).toEqual(['1.3.0-rc.1'])
+    })
+
+    test('never deletes the highest version of each major line', () => {
+      const decisions = applyRetentionPolicy(
+        [
+          '1.4.0',
+          '1.5.0',
+          '2.0.0',
+          '2.1.0',
+          '3.0.0-beta.1',
+          '3.0.0-beta.2'
+        ].map((version) => ({ version })),
+        { keepStable: 0, keepPrereleases: 0, dropReleasedPrereleases: true },
+        '4.0.0'
+      )
+
+      expect(decisions).toEqual([
+        {
+          version: '3.0.0-beta.2',
+          keep: true,
+          reason: 'highest version of major line 3'
+        },
+        {
+          version: '3.0.0-beta.1',
+          keep: false,
+          reason: 'older than the latest 0 pre-releases'
+        },
+        {
+          version: '2.1.0',
+          keep: true,
+          reason: 'highest version of major line 2'
+        },
+        {
+          version: '2.0.0',
+          keep: false,
+          reason: 'older than the latest 0 stable versions'
+        },
+        {
+          version: '1.5.0',
+          keep: true,
+          reason: 'highest version of major line 1'
+        },
+        {
+          version: '1.4.0',
+          keep: false,
+          reason: 'older than the latest 0 stable versions'
+        }
+      ])
+    })
+
+    test('does not protect versions superseded by the version being published', () => {
+      expect(
+        deleted(
+          ['2.0.0', '2.1.0'],
+          { keepStable: 0, keepPrereleases: 0, dropReleasedPrereleases: false },
+          '2.2.0'
+        )
+      ).toEqual(['2.1.0', '2.0.0'])
+    })
+
+    test('protects the highest stable version rather than a newer pre-release', () => {
+      expect(
+        deleted(
+          ['1.5.0', '1.6.0-beta.1', '2.0.0'],
+          { keepStable: 0, keepPrereleases: 0, dropReleasedPrereleases: false },
+          '2.1.0'
+        )
+      ).toEqual(['2.0.0', '1.6.0-beta.1'])
+    })
+
+    test('keeps the version being published without counting it', () => {
+      const decisions = applyRetentionPolicy(
+        ['1.0.0', '1.1.0', '1.2.0'].map((version) => ({ version })),
+        { ...policy, keepStable: 1 },
+        '1.2.0'
+      )
+
+      expect(decisions[0]).toEqual({
+        version: '1.2.0',
+        keep: true,
+        reason: 'version being published'
+      })
+      expect(decisions[1]).toMatchObject({ version: '1.1.0', keep: true })
+    })
+
+    test('treats versions with build metadata as distinct versions', () => {
+      expect(
+        deleted(
+          ['1.0.0+build.1', '1.0.0+build.2', '1.0.0+build.3', '2.0.0'],
+          { ...policy, keepStable: 1 },
+          '2.0.0'
+        )
+      ).toEqual(['1.0.0+build.2', '1.0.0+build.1'])
+    })
+
+    test('keeps versions uploaded within the maximum age', () => {
+      const now = new Date('2024-06-01T00:00:00.000Z')
+      const decisions = applyRetentionPolicy(
+        [
+          { version: '1.3.0', uploadTimestamp: '2024-05-20T00:00:00.000Z' },
+          { version: '1.2.0', uploadTimestamp: '2024-03-10T00:00:00.000Z' },
+          { version: '1.1.0', uploadTimestamp: '2024-01-01T00:00:00.000Z' },
+          { version: '1.0.0' }
+        ],
+        {
+          keepStable: 0,
+          keepPrereleases: 0,
+          dropReleasedPrereleases: false,
+          maxAgeDays: 90
+        },
+        '1.4.0',
+        now
+      )
+
+      expect(decisions).toEqual([
+        {
+          version: '1.3.0',
+          keep: true,
+          reason: 'uploaded within the last 90 days'
+        },
+        {
+          version: '1.2.0',
+          keep: true,
+          reason: 'uploaded within the last 90 days'
+        },
+        {
+          version: '1.1.0',
+          keep: false,
+          reason:
+            'older than the latest 0 stable versions and uploaded more than 90 days ago'
+        },
+        {
+          version: '1.0.0',
+          keep: false,
+          reason:
+            'older than the latest 0 stable versions and without an upload timestamp'
+        }
+      ])
+    })
+
+    test('keeps the newest version of every minor line and pinned versions', () => {
+      const decisions = applyRetentionPolicy(
+        ['1.0.0', '1.0.1', '1.1.0', '1.1.1', '1.2.0', '1.2.1-rc.1'].map(
+          (version) => ({ version })
+        ),
+        {
+          keepStable: 0,
+          keepPrereleases: 0,
+          dropReleasedPrereleases: false,
+          keepLatestPerMinor: true,
+          pinnedVersions: ['1.0.0']
+        },
+        '2.0.0'
+      )
+
+      expect(
+        decisions.map(
+          (decision) =>
+            `${decision.version} ${decision.keep ? 'kept' : 'removed'}: ${decision.reason}`
+        )
+      ).toEqual([
+        '1.2.1-rc.1 removed: older than the latest 0 pre-releases',
+        '1.2.0 kept: highest version of major line 1',
+        '1.1.1 kept: newest version of minor line 1.1',
+        '1.1.0 removed: older than the latest 0 stable versions',
+        '1.0.1 kept: newest version of minor line 1.0',
+        '1.0.0 kept: pinned'
+      ])
+    })
+
+    test('deletes yanked versions before the others', () => {
+      const yanked = { reason: 'Leaks state', yankedAt: '2024-03-01T00:00:00Z' }
+      const decisions = applyRetentionPolicy(
+        [
+          { version: '1.0.0' },
+          { version: '1.1.0' },
+          { version: '1.2.0', yanked },
+          { version: '2.0.0', yanked }
+        ],
+        { keepStable: 2, keepPrereleases: 0, dropReleasedPrereleases: false },
+        '1.3.0'
+      )
+
+      // 2.0.0 does not head major line 2 once yanked
+      expect(decisions).toEqual([
+        {
+          version: '2.0.0',
+          keep: false,
+          reason: 'yanked and not among the latest 2 stable versions'
+        },
+        {
+          version: '1.2.0',
+          keep: false,
+          reason: 'yanked and not among the latest 2 stable versions'
+        },
+        {
+          version: '1.1.0',
+          keep: true,
+          reason: 'one of the latest 2 stable versions'
+        },
+        {
+          version: '1.0.0',
+          keep: true,
+          reason: 'one of the latest 2 stable versions'
+        }
+      ])
+    })
+  })
+
+  describe('parseRetentionPolicy', () => {
+    test('parses every rule', () => {
+      expect(
+        parseRetentionPolicy(
+          'stable:10, prereleases:2\nmax-age:12w, latest-per-minor, latest-per-major\npin:1.2.3, pin:2.0.0-rc.1, drop-released-prereleases'
+        )
+      ).toEqual({
+        keepStable: 10,
+        keepPrereleases: 2,
+        dropReleasedPrereleases: true,
+        maxAgeDays: 84,
+        keepLatestPerMinor: true,
+        pinnedVersions: ['1.2.3', '2.0.0-rc.1']
+      })
+    })
+
+    test('only keeps what the listed rules keep', () => {
+      expect(parseRetentionPolicy('max-age:90d, latest-per-minor')).toEqual({
+        keepStable: 0,
+        keepPrereleases: 0,
+        dropReleasedPrereleases: false,
+        maxAgeDays: 90,
+        keepLatestPerMinor: true
+      })
+    })
+
+    test('rejects unknown rules and malformed values', () => {
+      expect(() => parseRetentionPolicy('keep-all')).toThrow(
+        /Invalid retention-policy rule 'keep-all'/
+      )
+      expect(() => parseRetentionPolicy('stable:-1')).toThrow(
+        /expected a non-negative integer/
+      )
+      expect(() => parseRetentionPolicy('max-age:3m')).toThrow(
+        /expected an age such as 90d or 12w/
+      )
+      expect(() => parseRetentionPolicy('pin:v1.0.0')).toThrow(
+        /expected a semantic version/
+      )
+      expect(() => parseRetentionPolicy('latest-per-minor:true')).toThrow(
+        /Invalid retention-policy rule/
+      )
+    })
+  })
+})
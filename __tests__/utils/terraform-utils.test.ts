@@ -0,0 +1,226 @@
+import * as os from 'os'
+import * as path from 'path'
+import * as fs from 'fs'
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as io from '@actions/io'
+import {
+  inspectTerraformModule,
+  listTerraformFiles,
+  runTerraformChecks
+} from '../../src/utils/terraform-utils'
+
+jest.mock('@actions/core')
+jest.mock('@actions/exec')
+jest.mock('@actions/io')
+
+describe('Terraform Utilities', () => {
+  let modulePath: string
+  let files: string[]
+
+  const writeFile = (name: string, contents: string): void => {
+    files.push(name)
+    fs.mkdirSync(path.dirname(path.join(modulePath, name)), {
+      recursive: true
+    })
+    fs.writeFileSync(path.join(modulePath, name), contents)
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    modulePath = fs.mkdtempSync(path.join(os.tmpdir(), 'terraform-utils-test-'))
+    files = []
+  })
+
+  afterEach(() => {
+    fs.rmSync(modulePath, { recursive: true, force: true })
+  })
+
+  describe('listTerraformFiles', () => {
+    test('lists packaged Terraform files outside hidden and .terraform directories', () => {
+      expect(
+        listTerraformFiles([
+          'override.tf.json',
+          'main.tf',
+          'README.md',
+          'modules/subnet/main.tf',
+          '.terraform/modules/x/main.tf',
+          '.github/ci.tf'
+        ])
+      ).toEqual(['main.tf', 'modules/subnet/main.tf', 'override.tf.json'])
+    })
+  })
+
+  describe('inspectTerraformModule', () => {
+    test('reads the interface of the module from its root files', () => {
+      writeFile(
+        'versions.tf',
+        `terraform {
+  required_version = ">= 1.3"
+  required_providers {
+    google = {
+      source                = "hashicorp/google"
+      version               = ">= 5.0"
+      configuration_aliases = [google.west]
+    }
+    random = "~> 3.0"
+  }
+}
+`
+      )
+      writeFile(
+        'variables.tf',
+        `variable "name" {
+  type        = string
+  description = "Name of the network"
+}
+
+variable "tags" {
+  type      = map(string)
+  default   = { env = "dev" }
+  sensitive = true
+}
+`
+      )
+      writeFile(
+        'outputs.tf',
+        `output "id" {
+  value       = google_compute_network.this.id
+  description = "Network ID"
+}
+`
+      )
+      writeFile('examples/basic/main.tf', 'module "vpc" { source = "../.." }\n')
+
+      expect(inspectTerraformModule(modulePath, files)).toEqual({
+        files: ['outputs.tf', 'variables.tf', 'versions.tf'],
+        variables: [
+          {
+            name: 'name',
+            type: 'string',
+            description: 'Name of the network',
+            default: undefined,
+            required: true,
+            sensitive: false
+          },
+          {
+            name: 'tags',
+            type: 'map(string)',
+            description: undefined,
+            default: { env: 'dev' },
+            required: false,
+            sensitive: true
+          }
+        ],
+        outputs: [{ name: 'id', description: 'Network ID', sensitive: false }],
+        requiredProviders: [
+          { name: 'google', source: 'hashicorp/google', version: '>= 5.0' },
+          { name: 'random', version: '~> 3.0' }
+        ],
+        requiredVersion: '>= 1.3'
+      })
+    })
+
+    test('requires Terraform files in the module root', () => {
+      writeFile('modules/subnet/main.tf', '')
+
+      expect(() => inspectTerraformModule(modulePath, files)).toThrow(
+        `No Terraform files (.tf or .tf.json) found in ${modulePath} (only in subdirectories: modules/subnet/main.tf)`
+      )
+    })
+
+    test('lists the syntax errors of every file, submodules included', () => {
+      writeFile('main.tf', 'resource "a" "b" {\n')
+      writeFile('override.tf.json', '{')
+      writeFile('modules/subnet/main.tf', 'x = 1\nx = 2\n')
+
+      expect(() => inspectTerraformModule(modulePath, files)).toThrow(
+        new RegExp(
+          [
+            `Terraform files in ${modulePath} have syntax errors:`,
+            "main.tf:1:18: Unclosed resource block: missing '}'",
+            'modules/subnet/main.tf:2:1: Attribute x is defined more than once',
+            'override.tf.json: '
+          ]
+            .map((line) => line.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+            .join('\\n')
+        )
+      )
+    })
+
+    test('neither checks nor reads files that are not packaged', () => {
+      writeFile('main.tf', 'variable "name" {}\n')
+      writeFile('extra.tf', 'variable "extra" {}\n')
+      writeFile('examples/broken/main.tf', 'module "vpc" {\n')
+
+      const info = inspectTerraformModule(modulePath, ['main.tf'])
+
+      expect(info.files).toEqual(['main.tf'])
+      expect(info.variables.map((variable) => variable.name)).toEqual(['name'])
+    })
+  })
+
+  describe('runTerraformChecks', () => {
+    const getExecOutput = exec.getExecOutput as jest.Mock
+
+    const result = (
+      exitCode: number,
+      stdout = '',
+      stderr = ''
+    ): exec.ExecOutput => ({ exitCode, stdout, stderr })
+
+    test('skips the checks with a warning when terraform is not installed', async () => {
+      ;(io.which as jest.Mock).mockResolvedValue('')
+
+      expect(await runTerraformChecks(modulePath)).toBe(false)
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('terraform was not found on the PATH')
+      )
+      expect(getExecOutput).not.toHaveBeenCalled()
+    })
+
+    test('runs fmt, init and validate without leaving files in the module', async () => {
+      ;(io.which as jest.Mock).mockResolvedValue('/usr/bin/terraform')
+      getExecOutput.mockImplementation(async (_tool, args: string[]) => {
+        if (args[0] === 'init') {
+          writeFile('.terraform.lock.hcl', '# lock')
+        }
+        return result(0)
+      })
+
+      expect(await runTerraformChecks(modulePath)).toBe(true)
+      expect(getExecOutput.mock.calls.map((call) => call[1][0])).toEqual([
+        'fmt',
+        'init',
+        'validate'
+      ])
+      const { env } = getExecOutput.mock.calls[1][2]
+      expect(env.TF_DATA_DIR).toBeDefined()
+      expect(fs.existsSync(env.TF_DATA_DIR)).toBe(false)
+      expect(fs.readdirSync(modulePath)).toEqual([])
+    })
+
+    test('lists the files terraform fmt would change', async () => {
+      ;(io.which as jest.Mock).mockResolvedValue('/usr/bin/terraform')
+      getExecOutput.mockResolvedValueOnce(result(3, 'main.tf\noutputs.tf\n'))
+
+      await expect(runTerraformChecks(modulePath)).rejects.toThrow(
+        `terraform fmt -check failed in ${modulePath}; run terraform fmt on: main.tf, outputs.tf`
+      )
+    })
+
+    test('reports validation errors', async () => {
+      ;(io.which as jest.Mock).mockResolvedValue('/usr/bin/terraform')
+      getExecOutput
+        .mockResolvedValueOnce(result(0))
+        .mockResolvedValueOnce(result(0))
+        .mockResolvedValueOnce(
+          result(1, '', 'Error: Reference to undeclared input variable\n')
+        )
+
+      await expect(runTerraformChecks(modulePath)).rejects.toThrow(
+        `terraform validate failed in ${modulePath}:\nError: Reference to undeclared input variable`
+      )
+    })
+  })
+})
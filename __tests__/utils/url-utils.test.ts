@@ -0,0 +1,34 @@
+import { getModuleSourceUrl, isPublicAccess } from '../../src/utils/url-utils'
+
+describe('URL Utilities', () => {
+  describe('isPublicAccess', () => {
+    test('treats public and publicRead as public', () => {
+      expect(isPublicAccess('public')).toBe(true)
+      expect(isPublicAccess('predefined-acl:publicRead')).toBe(true)
+      expect(isPublicAccess('private')).toBe(false)
+      expect(isPublicAccess('predefined-acl:projectPrivate')).toBe(false)
+    })
+  })
+
+  describe('getModuleSourceUrl', () => {
+    test('returns an https URL for public objects', () => {
+      expect(
+        getModuleSourceUrl('test-bucket', 'modules/vpc/vpc-1.0.0.zip', 'public')
+      ).toBe(
+        'https://storage.googleapis.com/test-bucket/modules/vpc/vpc-1.0.0.zip'
+      )
+    })
+
+    test('returns a gcs:: source for private objects', () => {
+      expect(
+        getModuleSourceUrl(
+          'test-bucket',
+          'modules/vpc/vpc-1.0.0.zip',
+          'private'
+        )
+      ).toBe(
+        'gcs::https://www.googleapis.com/storage/v1/test-bucket/modules/vpc/vpc-1.0.0.zip'
+      )
+    })
+  })
+})
@@ -1,6 +1,16 @@
+import { generateKeyPairSync } from 'crypto'
 import {
+  validateAccess,
   validateBucketName,
-  validateModuleName
+  validateCleanupMode,
+  validateMaintenanceLine,
+  validateModuleName,
+  validateModuleValidation,
+  validateRegistryNamespace,
+  validateRegistryProvider,
+  validateServiceAccount,
+  validateSigningKey,
+  validateWorkloadIdentityProvider
 } from '../../src/utils/validation'
 
 describe('Validation Utilities', () => {
@@ -45,4 +55,189 @@ describe('Validation Utilities', () => {
       expect(() => validateModuleName('invalid module name')).toThrow()
     })
   })
+
+  describe('validateAccess', () => {
+    test('accepts public, private and predefined ACLs', () => {
+      expect(validateAccess('public')).toBe('public')
+      expect(validateAccess('private')).toBe('private')
+      expect(validateAccess('predefined-acl:projectPrivate')).toBe(
+        'predefined-acl:projectPrivate'
+      )
+    })
+
+    test('rejects unknown access modes', () => {
+      expect(() => validateAccess('')).toThrow(/Invalid access value/)
+      expect(() => validateAccess('publicRead')).toThrow()
+      expect(() => validateAccess('predefined-acl:')).toThrow()
+      expect(() => validateAccess('predefined-acl:everyone')).toThrow()
+    })
+  })
+
+  describe('validateCleanupMode', () => {
+    test('accepts delete, archive and cold storage classes', () => {
+      expect(validateCleanupMode('delete')).toBe('delete')
+      expect(validateCleanupMode('archive')).toBe('archive')
+      expect(validateCleanupMode('storage-class:COLDLINE')).toBe(
+        'storage-class:COLDLINE'
+      )
+    })
+
+    test('rejects unknown modes and storage classes', () => {
+      expect(() => validateCleanupMode('move')).toThrow(
+        /Invalid cleanup-mode value/
+      )
+      expect(() => validateCleanupMode('storage-class:STANDARD')).toThrow()
+      expect(() => validateCleanupMode('storage-class:coldline')).toThrow()
+    })
+  })
+
+  describe('validateWorkloadIdentityProvider', () => {
+    test('accepts full provider resource names', () => {
+      const provider =
+        'projects/123456/locations/global/workloadIdentityPools/github/providers/my-repo'
+      expect(validateWorkloadIdentityProvider(provider)).toBe(provider)
+    })
+
+    test('rejects partial or malformed names', () => {
+      expect(() => validateWorkloadIdentityProvider('github/my-repo')).toThrow(
+        /Invalid workload-identity-provider/
+      )
+      expect(() =>
+        validateWorkloadIdentityProvider(
+          'projects/my-project/locations/global/workloadIdentityPools/github/providers/my-repo'
+        )
+      ).toThrow()
+    })
+  })
+
+  describe('validateServiceAccount', () => {
+    test('accepts service account emails', () => {
+      expect(
+        validateServiceAccount('publisher@my-project.iam.gserviceaccount.com')
+      ).toBe('publisher@my-project.iam.gserviceaccount.com')
+      expect(
+        validateServiceAccount('123456-compute@developer.gserviceaccount.com')
+      ).toBe('123456-compute@developer.gserviceaccount.com')
+      expect(
+        validateServiceAccount('my-project@appspot.gserviceaccount.com')
+      ).toBe('my-project@appspot.gserviceaccount.com')
+      // Project example.com:my-project
+      expect(
+        validateServiceAccount(
+          'publisher@my-project.example.com.iam.gserviceaccount.com'
+        )
+      ).toBe('publisher@my-project.example.com.iam.gserviceaccount.com')
+    })
+
+    test('rejects other values', () => {
+      expect(() => validateServiceAccount('publisher@example.com')).toThrow(
+        /Invalid service-account/
+      )
+      expect(() => validateServiceAccount('publisher')).toThrow()
+      expect(() =>
+        validateServiceAccount('publisher@gserviceaccount.com.example.com')
+      ).toThrow()
+    })
+  })
+
+  describe('validateRegistryNamespace', () => {
+    test('accepts registry namespaces', () => {
+      expect(validateRegistryNamespace('infraspec')).toBe('infraspec')
+      expect(validateRegistryNamespace('Platform_Team-2')).toBe(
+        'Platform_Team-2'
+      )
+    })
+
+    test('rejects malformed namespaces', () => {
+      expect(() => validateRegistryNamespace('-team')).toThrow(
+        /Invalid namespace/
+      )
+      expect(() => validateRegistryNamespace('team/vpc')).toThrow()
+      expect(() => validateRegistryNamespace('a'.repeat(65))).toThrow()
+    })
+  })
+
+  describe('validateRegistryProvider', () => {
+    test('accepts lowercase provider names', () => {
+      expect(validateRegistryProvider('google')).toBe('google')
+      expect(validateRegistryProvider('google2')).toBe('google2')
+    })
+
+    test('rejects malformed provider names', () => {
+      expect(() => validateRegistryProvider('Google')).toThrow(
+        /Invalid provider/
+      )
+      expect(() => validateRegistryProvider('google-beta')).toThrow()
+      expect(() => validateRegistryProvider('')).toThrow()
+    })
+  })
+
+  describe('validateSigningKey', () => {
+    const pemKeys = (
+      keyPair: ReturnType<typeof generateKeyPairSync>
+    ): { privateKey: string; publicKey: string } => ({
+      privateKey: keyPair.privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+      publicKey: keyPair.publicKey
+        .export({ type: 'spki', format: 'pem' })
+        .toString()
+    })
+
+    test('accepts EC and RSA keys in PEM format', () => {
+      const ec = pemKeys(generateKeyPairSync('ec', { namedCurve: 'P-256' }))
+      const rsa = pemKeys(generateKeyPairSync('rsa', { modulusLength: 2048 }))
+
+      expect(validateSigningKey(ec.privateKey, 'private')).toBe(ec.privateKey)
+      expect(validateSigningKey(ec.publicKey, 'public')).toBe(ec.publicKey)
+      expect(validateSigningKey(rsa.privateKey, 'private')).toBe(rsa.privateKey)
+    })
+
+    test('rejects unreadable keys without echoing them', () => {
+      expect(() => validateSigningKey('secret material', 'private')).toThrow(
+        'Invalid signing-key value: it is not a private key in PEM format.'
+      )
+      const ec = pemKeys(generateKeyPairSync('ec', { namedCurve: 'P-256' }))
+      expect(() => validateSigningKey(ec.publicKey, 'private')).toThrow(
+        /Invalid signing-key value/
+      )
+    })
+
+    test('rejects key types that cannot sign with SHA-256', () => {
+      const ed25519 = pemKeys(generateKeyPairSync('ed25519'))
+
+      expect(() => validateSigningKey(ed25519.publicKey, 'public')).toThrow(
+        /Invalid signing-public-key value: ed25519 keys are not supported/
+      )
+    })
+  })
+
+  describe('validateModuleValidation', () => {
+    test('accepts the validation levels', () => {
+      expect(validateModuleValidation('none')).toBe('none')
+      expect(validateModuleValidation('hcl')).toBe('hcl')
+      expect(validateModuleValidation('terraform')).toBe('terraform')
+    })
+
+    test('rejects other values', () => {
+      expect(() => validateModuleValidation('strict')).toThrow(
+        'Invalid validate-module value: strict. Must be one of: none, hcl, terraform.'
+      )
+    })
+  })
+
+  describe('validateMaintenanceLine', () => {
+    test('accepts major and minor version lines', () => {
+      expect(validateMaintenanceLine('1.x')).toBe('1.x')
+      expect(validateMaintenanceLine('0.4.x')).toBe('0.4.x')
+    })
+
+    test('rejects versions and ranges', () => {
+      for (const line of ['1', '1.2.3', '>=1.0', '01.x', 'x']) {
+        expect(() => validateMaintenanceLine(line)).toThrow(
+          `Invalid maintenance-lines entry: ${line}. Must be a major or minor version line such as 1.x or 2.3.x.`
+        )
+      }
+    })
+  })
 })
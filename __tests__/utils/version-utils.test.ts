@@ -0,0 +1,174 @@
+import {
+  compareVersionsDescending,
+  findLatestRelease,
+  findNewerVersion,
+  findPreviousRelease,
+  getReleaseVersion,
+  isPrerelease,
+  isSemver,
+  parseArchiveVersion,
+  parseVersionTag
+} from '../../src/utils/version-utils'
+
+describe('Version Utilities', () => {
+  describe('isSemver', () => {
+    test('accepts the full semver grammar', () => {
+      expect(isSemver('1.2.3')).toBe(true)
+      expect(isSemver('2.0.0-rc.1')).toBe(true)
+      expect(isSemver('1.0.0-alpha-1.0.x')).toBe(true)
+      expect(isSemver('1.0.0+build.5')).toBe(true)
+      expect(isSemver('1.0.0-beta.2+exp.sha.5114f85')).toBe(true)
+    })
+
+    test('rejects prefixes and malformed versions', () => {
+      expect(isSemver('v1.2.3')).toBe(false)
+      expect(isSemver('=1.2.3')).toBe(false)
+      expect(isSemver('1.2')).toBe(false)
+      expect(isSemver('01.2.3')).toBe(false)
+      expect(isSemver('1.2.3-01')).toBe(false)
+      expect(isSemver('1.2.3+')).toBe(false)
+    })
+  })
+
+  describe('isPrerelease', () => {
+    test('detects pre-release identifiers but not build metadata', () => {
+      expect(isPrerelease('2.0.0-rc.1')).toBe(true)
+      expect(isPrerelease('2.0.0+build.1')).toBe(false)
+      expect(isPrerelease('2.0.0')).toBe(false)
+    })
+  })
+
+  describe('getReleaseVersion', () => {
+    test('strips pre-release identifiers and build metadata', () => {
+      expect(getReleaseVersion('2.0.0-rc.1+build.7')).toBe('2.0.0')
+    })
+  })
+
+  describe('compareVersionsDescending', () => {
+    test('orders versions newest first', () => {
+      expect(
+        [
+          '1.0.0',
+          '2.0.0-rc.1',
+          '1.0.0+build.2',
+          '2.0.0',
+          '1.0.0+build.10',
+          '1.10.0'
+        ].sort(compareVersionsDescending)
+      ).toEqual([
+        '2.0.0',
+        '2.0.0-rc.1',
+        '1.10.0',
+        '1.0.0+build.10',
+        '1.0.0+build.2',
+        '1.0.0'
+      ])
+    })
+  })
+
+  describe('parseVersionTag', () => {
+    test('drops the v prefix and reads the module of prefixed tags', () => {
+      expect(parseVersionTag('v1.2.3')).toEqual({ version: '1.2.3' })
+      expect(parseVersionTag('refs/tags/2.0.0-rc.1')).toEqual({
+        version: '2.0.0-rc.1'
+      })
+      expect(parseVersionTag('refs/tags/vpc/v1.2.3')).toEqual({
+        moduleName: 'vpc',
+        version: '1.2.3'
+      })
+      expect(parseVersionTag('network/vpc/1.0.0')).toEqual({
+        moduleName: 'network/vpc',
+        version: '1.0.0'
+      })
+    })
+
+    test('rejects tags that do not name a semantic version', () => {
+      expect(parseVersionTag('release-1.2.3')).toBeUndefined()
+      expect(parseVersionTag('v1.2')).toBeUndefined()
+      expect(parseVersionTag('vpc/')).toBeUndefined()
+    })
+  })
+
+  describe('findPreviousRelease', () => {
+    const published = [
+      '0.9.0',
+      '1.0.0',
+      '1.2.0',
+      '1.3.0-rc.1',
+      '1.4.1',
+      '2.0.0'
+    ]
+
+    test('picks the newest lower release of the same major version', () => {
+      expect(findPreviousRelease('1.4.0', published)).toBe('1.2.0')
+      expect(findPreviousRelease('1.5.0', published)).toBe('1.4.1')
+      expect(findPreviousRelease('2.1.0', published)).toBe('2.0.0')
+    })
+
+    test('finds none for the first release of a major version', () => {
+      expect(findPreviousRelease('3.0.0', published)).toBeUndefined()
+      expect(findPreviousRelease('1.0.0', published)).toBeUndefined()
+    })
+
+    test('treats each 0.x minor version as its own line', () => {
+      expect(findPreviousRelease('0.9.3', ['0.8.0', '0.9.1'])).toBe('0.9.1')
+      expect(findPreviousRelease('0.10.0', ['0.8.0', '0.9.1'])).toBeUndefined()
+    })
+  })
+
+  describe('findLatestRelease', () => {
+    test('picks the newest release, skipping pre-releases', () => {
+      expect(findLatestRelease(['1.2.0', '2.0.0-rc.1', '1.10.0'])).toBe(
+        '1.10.0'
+      )
+      expect(findLatestRelease(['1.0.0-beta.1'])).toBeUndefined()
+    })
+  })
+
+  describe('findNewerVersion', () => {
+    const published = ['1.2.0', '1.3.0', '2.0.0-rc.1', '2.0.0', '2.1.0']
+
+    test('finds the newest version a new version would go back from', () => {
+      expect(findNewerVersion('1.0.5', published)).toBe('2.1.0')
+      expect(findNewerVersion('2.0.1', published)).toBe('2.1.0')
+      expect(findNewerVersion('2.2.0', published)).toBeUndefined()
+      expect(findNewerVersion('2.1.0', published)).toBeUndefined()
+    })
+
+    test('only compares versions of a maintenance line with their line', () => {
+      expect(findNewerVersion('1.3.1', published, ['1.x'])).toBeUndefined()
+      expect(findNewerVersion('1.2.5', published, ['1.x'])).toBe('1.3.0')
+      expect(findNewerVersion('1.2.5', published, ['1.2.x'])).toBeUndefined()
+      expect(findNewerVersion('1.9.0-rc.1', published, ['1.x'])).toBeUndefined()
+      expect(findNewerVersion('2.0.5', published, ['1.x'])).toBe('2.1.0')
+    })
+  })
+
+  describe('parseArchiveVersion', () => {
+    test('extracts the version of archives of the module', () => {
+      expect(
+        parseArchiveVersion(
+          'modules/vpc/vpc-2.0.0-rc.1.zip',
+          'modules/vpc',
+          'vpc'
+        )
+      ).toBe('2.0.0-rc.1')
+    })
+
+    test('ignores other objects', () => {
+      expect(
+        parseArchiveVersion('modules/vpc/versions.json', 'modules/vpc', 'vpc')
+      ).toBeUndefined()
+      expect(
+        parseArchiveVersion(
+          'modules/vpc/vpc-peering-1.0.0.zip',
+          'modules/vpc',
+          'vpc'
+        )
+      ).toBeUndefined()
+      expect(
+        parseArchiveVersion('modules/vpc/vpc-latest.zip', 'modules/vpc', 'vpc')
+      ).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,402 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview Command-line interface of the terraform-module-gcs-publisher.
+ * This module adapts the publishing core (publisher.ts) to the command line, so modules
+ * can be published from any CI system or a laptop: `tf-gcs-publish publish|list|cleanup|verify`.
+ * Options are the action inputs given as flags (`--gcs-bucket my-bucket`) or as
+ * environment variables (`TF_GCS_PUBLISH_GCS_BUCKET=my-bucket`); flags take precedence.
+ * The exit code tells whether the command succeeded (0), an operation failed (1) or
+ * the command line was invalid (2).
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import { parseArgs } from 'util'
+import { GCSService } from './services/gcs-service'
+import { CredentialOptions, InputReader } from './interfaces'
+import {
+  buildDryRunReport,
+  cleanupModule,
+  prepareCredentials,
+  publishModules,
+  readCredentialOptions,
+  readModuleOptions,
+  verifyModule
+} from './publisher'
+import {
+  validateBucketName,
+  validateModuleName,
+  validateSigningKey
+} from './utils/validation'
+import { isSemver } from './utils/version-utils'
+
+/** Exit code of a command that succeeded */
+export const EXIT_SUCCESS = 0
+
+/** Exit code when a module fails to publish or an archive fails verification */
+export const EXIT_FAILURE = 1
+
+/** Exit code for an unknown command, invalid flags or invalid inputs */
+export const EXIT_USAGE = 2
+
+/** Prefix of the environment variables read for options not given as flags */
+export const ENV_PREFIX = 'TF_GCS_PUBLISH_'
+
+/** Supported commands */
+const COMMANDS = ['publish', 'list', 'cleanup', 'verify']
+
+/** Flags without a value, named after the action inputs */
+const BOOLEAN_FLAGS = [
+  'delete-old-versions',
+  'drop-released-prereleases',
+  'dry-run',
+  'restore',
+  'yank',
+  'sign',
+  'monotonic-versions',
+  'update-aliases',
+  'help'
+]
+
+/** Flags with a value, named after the action inputs */
+const STRING_FLAGS = [
+  'gcs-bucket',
+  'module-name',
+  'module-version',
+  'module-path',
+  'modules',
+  'max-parallel',
+  'google-credentials',
+  'workload-identity-provider',
+  'service-account',
+  'keep-versions',
+  'keep-prereleases',
+  'retention-policy',
+  'cleanup-mode',
+  'include',
+  'exclude',
+  'on-existing',
+  'access',
+  'namespace',
+  'provider',
+  'yank-reason',
+  'yank-replacement',
+  'signing-key',
+  'signing-public-key',
+  'validate-module',
+  'breaking-changes',
+  'version-source',
+  'maintenance-lines',
+  'output'
+]
+
+/** Default values of the flags, matching the action input defaults */
+const FLAG_DEFAULTS: Record<string, string> = {
+  'module-path': '.'
+}
+
+const USAGE = `Usage: tf-gcs-publish <command> [flags]
+
+Commands:
+  publish   Package and publish a module (or every module of --modules)
+  list      List the published versions of a module
+  cleanup   Clean up old versions of a module, keeping the newest (or --module-version)
+  verify    Check published archives against their recorded hash, GCS checksums and
+            signature
+
+Flags are the action inputs, e.g. --gcs-bucket, --module-name, --module-version,
+--module-path, --delete-old-versions, --retention-policy or --dry-run. Each flag can
+also be set through an environment variable, e.g. ${ENV_PREFIX}GCS_BUCKET.
+Use --output <file> to write the result as JSON.
+
+Exit codes: ${EXIT_SUCCESS} success, ${EXIT_FAILURE} failure, ${EXIT_USAGE} invalid command line or inputs.
+`
+
+/**
+ * Creates an input reader over parsed flags, falling back to environment variables
+ * and then to the defaults of the action inputs.
+ *
+ * @param flags - Parsed command-line flags
+ * @param env - Environment variables to read the options not given as flags from
+ * @returns A reader behaving like core.getInput
+ */
+export function createInputReader(
+  flags: Record<string, string | boolean | undefined>,
+  env: Record<string, string | undefined> = process.env
+): InputReader {
+  return (name, options) => {
+    const flag = flags[name]
+    const value =
+      flag === undefined
+        ? (env[`${ENV_PREFIX}${name.toUpperCase().replace(/-/g, '_')}`] ??
+          FLAG_DEFAULTS[name] ??
+          '')
+        : String(flag)
+    if (options?.required && !value) {
+      throw new Error(`Input required and not supplied: --${name}`)
+    }
+    return value.trim()
+  }
+}
+
+/**
+ * Reads the module a list, cleanup or verify command works on.
+ *
+ * @param getInput - Reads an input by name
+ * @returns The bucket, the module and the optional version
+ * @throws {Error} When the bucket or module name is missing or invalid
+ * @throws {Error} When the version is not a valid semantic version
+ */
+function readModuleSelection(getInput: InputReader): {
+  bucketName: string
+  moduleName: string
+  moduleVersion?: string
+} {
+  const moduleVersion = getInput('module-version') || undefined
+  if (moduleVersion && !isSemver(moduleVersion)) {
+    throw new Error(
+      `Invalid module version: ${moduleVersion}. Must be a valid semantic version.`
+    )
+  }
+  return {
+    bucketName: validateBucketName(getInput('gcs-bucket', { required: true })),
+    moduleName: validateModuleName(getInput('module-name', { required: true })),
+    moduleVersion
+  }
+}
+
+/**
+ * Writes the result of a command as JSON when --output is given.
+ *
+ * @param getInput - Reads an input by name
+ * @param result - The result to write
+ */
+function writeOutput(getInput: InputReader, result: unknown): void {
+  const outputPath = getInput('output')
+  if (outputPath) {
+    fs.writeFileSync(outputPath, `${JSON.stringify(result, null, 2)}\n`)
+  }
+}
+
+/**
+ * Reads and validates the options of a command, without touching the bucket.
+ *
+ * @param command - One of the supported commands
+ * @param getInput - Reads an input by name
+ * @returns The authentication settings and the operation that runs the command,
+ *    resolving to the exit code
+ * @throws {Error} When required inputs are missing or inputs fail validation
+ */
+function prepareCommand(
+  command: string,
+  getInput: InputReader
+): {
+  credentials: CredentialOptions
+  execute: (gcsService: GCSService) => Promise<number>
+} {
+  if (command === 'publish') {
+    // Verify mode is the verify command; a leftover TF_GCS_PUBLISH_VERIFY must not
+    // turn a publish into a verification
+    const options = readModuleOptions((name, inputOptions) =>
+      name === 'verify' ? '' : getInput(name, inputOptions)
+    )
+    return {
+      credentials: options,
+      execute: async (gcsService) => {
+        const results = await publishModules(options, gcsService)
+        for (const result of results) {
+          core.info(
+            `${result.error ? '❌' : '✅'} ${result.moduleName} ${result.moduleVersion}: ${result.error || result.moduleUrl}`
+          )
+        }
+        writeOutput(
+          getInput,
+          options.dryRun
+            ? buildDryRunReport(results)
+            : results.map((result) => ({
+                name: result.moduleName,
+                version: result.moduleVersion,
+                url: result.moduleUrl,
+                provenance: result.provenanceUrl,
+                descriptor: result.descriptorUrl,
+                latest: result.latestVersion,
+                ...(result.compatibility && {
+                  compatibility: result.compatibility
+                }),
+                ...(result.error && { error: result.error })
+              }))
+        )
+        return results.some((result) => result.error)
+          ? EXIT_FAILURE
+          : EXIT_SUCCESS
+      }
+    }
+  }
+
+  const selection = readModuleSelection(getInput)
+  const moduleFolder = `modules/${selection.moduleName}`
+  const credentials = readCredentialOptions(getInput)
+
+  if (command === 'list') {
+    return {
+      credentials,
+      execute: async (gcsService) => {
+        const versions = await gcsService.listModuleVersions(
+          selection.bucketName,
+          moduleFolder,
+          selection.moduleName
+        )
+        for (const entry of versions) {
+          core.info(
+            `${entry.version}\t${entry.uploadTimestamp || ''}\t${entry.sha256 || ''}${entry.yanked ? '\tyanked' : ''}`
+          )
+        }
+        writeOutput(getInput, versions)
+        return EXIT_SUCCESS
+      }
+    }
+  }
+
+  if (command === 'verify') {
+    const signingPublicKey = getInput('signing-public-key')
+    if (signingPublicKey) {
+      validateSigningKey(signingPublicKey, 'public')
+    }
+    const trust = { publicKey: signingPublicKey || undefined }
+    return {
+      credentials,
+      execute: async (gcsService) => {
+        const results = await verifyModule(
+          selection.bucketName,
+          selection.moduleName,
+          gcsService,
+          selection.moduleVersion,
+          trust
+        )
+        writeOutput(getInput, results)
+        return results.every((result) => result.status === 'ok')
+          ? EXIT_SUCCESS
+          : EXIT_FAILURE
+      }
+    }
+  }
+
+  // The cleanup options are validated with a stand-in version: unless a version is
+  // given, the newest published version is kept, and it is only known once listed
+  const options = readModuleOptions((name, inputOptions) => {
+    if (name === 'module-version') {
+      return selection.moduleVersion || '0.0.0'
+    }
+    return name === 'modules' || name === 'version-source' || name === 'verify'
+      ? ''
+      : getInput(name, inputOptions)
+  })
+  return {
+    credentials,
+    execute: async (gcsService) => {
+      let moduleVersion = selection.moduleVersion
+      if (!moduleVersion) {
+        const [newest] = await gcsService.listModuleVersions(
+          selection.bucketName,
+          moduleFolder,
+          selection.moduleName
+        )
+        if (!newest) {
+          core.info(`No published versions of ${selection.moduleName}`)
+          writeOutput(getInput, [])
+          return EXIT_SUCCESS
+        }
+        moduleVersion = newest.version
+      }
+      const deletedVersions = await cleanupModule(
+        { ...options, moduleVersion },
+        gcsService
+      )
+      writeOutput(getInput, deletedVersions)
+      return EXIT_SUCCESS
+    }
+  }
+}
+
+/**
+ * Runs the command line interface.
+ *
+ * @param args - Command-line arguments, without the node executable and script
+ * @param env - Environment variables to read the options not given as flags from
+ * @returns The exit code
+ */
+export async function main(
+  args: string[],
+  env: Record<string, string | undefined> = process.env
+): Promise<number> {
+  let command: string | undefined
+  let getInput: InputReader
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: Object.fromEntries([
+        ...BOOLEAN_FLAGS.map((flag) => [flag, { type: 'boolean' as const }]),
+        ...STRING_FLAGS.map((flag) => [flag, { type: 'string' as const }])
+      ])
+    })
+    const flags = values as Record<string, string | boolean | undefined>
+    if (flags.help) {
+      process.stdout.write(USAGE)
+      return EXIT_SUCCESS
+    }
+    command = positionals[0]
+    if (!command || !COMMANDS.includes(command) || positionals.length > 1) {
+      throw new Error(
+        command
+          ? `Unknown command: ${positionals.join(' ')}`
+          : 'No command given'
+      )
+    }
+    getInput = createInputReader(flags, env)
+  } catch (error) {
+    process.stderr.write(
+      `tf-gcs-publish: ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`
+    )
+    return EXIT_USAGE
+  }
+
+  let prepared: ReturnType<typeof prepareCommand>
+  try {
+    prepared = prepareCommand(command, getInput)
+  } catch (error) {
+    process.stderr.write(
+      `tf-gcs-publish ${command}: ${error instanceof Error ? error.message : String(error)}\n`
+    )
+    return EXIT_USAGE
+  }
+
+  let tempFiles: string[] = []
+  try {
+    const credentials = await prepareCredentials(prepared.credentials)
+    tempFiles = credentials.tempFiles
+    return await prepared.execute(new GCSService(credentials.credentialsPath))
+  } catch (error) {
+    process.stderr.write(
+      `tf-gcs-publish ${command}: ${error instanceof Error ? error.message : String(error)}\n`
+    )
+    return EXIT_FAILURE
+  } finally {
+    // Clean up credentials files
+    for (const tempFile of tempFiles) {
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile)
+      }
+    }
+  }
+}
+
+// Run the command line interface
+if (require.main === module) {
+  main(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode
+  })
+}
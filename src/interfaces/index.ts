@@ -28,12 +28,169 @@ export interface GCSBucketOptions {
       uploadedBy: string
       /** ISO timestamp when the upload occurred */
       uploadTimestamp: string
+      /** Git commit the module was published from, when known */
+      gitCommit?: string
     }
   }
   /** Validation method to use during upload (e.g., 'crc32c') */
   validation: string
   /** Whether to use resumable uploads, typically set to false for smaller files */
   resumable: boolean
+  /** Predefined ACL applied to the object as it is created */
+  predefinedAcl?: PredefinedAcl
+  /** Request preconditions; ifGenerationMatch 0 makes the upload fail if the object exists */
+  preconditionOpts?: {
+    ifGenerationMatch: number
+  }
+}
+
+/**
+ * What to do when the versioned archive already exists in the bucket.
+ * - fail: refuse to publish (the default, published versions are immutable)
+ * - skip-if-identical: succeed without uploading when the stored sha256Hash matches
+ * - overwrite: replace the existing object
+ */
+export type OnExistingPolicy = 'fail' | 'skip-if-identical' | 'overwrite'
+
+/**
+ * Predefined (canned) ACLs supported by Google Cloud Storage.
+ */
+export type PredefinedAcl =
+  | 'authenticatedRead'
+  | 'bucketOwnerFullControl'
+  | 'bucketOwnerRead'
+  | 'private'
+  | 'projectPrivate'
+  | 'publicRead'
+
+/**
+ * How access to published archives is granted.
+ * - public: make the object readable by everyone (the historical behavior)
+ * - private: leave access to the bucket's IAM policy
+ * - predefined-acl:<name>: apply one of the GCS predefined ACLs on upload
+ */
+export type ModuleAccess =
+  | 'public'
+  | 'private'
+  | `predefined-acl:${PredefinedAcl}`
+
+/**
+ * Colder storage classes retired versions can be rewritten to.
+ */
+export type ColdStorageClass = 'NEARLINE' | 'COLDLINE' | 'ARCHIVE'
+
+/**
+ * What cleaning up old versions does with the versions the retention policy removes.
+ * - delete: delete the archives (irreversible unless bucket versioning is on)
+ * - archive: move the archives below the archive/ prefix
+ * - storage-class:<class>: keep the archives in place, rewritten to a colder storage class
+ * Archived and rewritten versions are tagged with a retiredAt metadata field and can be
+ * brought back with a restore.
+ */
+export type CleanupMode =
+  | 'delete'
+  | 'archive'
+  | `storage-class:${ColdStorageClass}`
+
+/**
+ * Interface for the behavioral options of an upload.
+ */
+export interface UploadOptions {
+  /** Policy applied when the destination object already exists (defaults to 'fail') */
+  onExisting?: OnExistingPolicy
+  /** Access granted on the uploaded object (defaults to 'public') */
+  access?: ModuleAccess
+  /** Git commit recorded in the object metadata */
+  gitCommit?: string
+  /** Additional custom metadata recorded on the object */
+  metadata?: Record<string, string>
+}
+
+/**
+ * Interface for the rules deciding which old versions are kept by a cleanup.
+ */
+export interface RetentionPolicy {
+  /** Number of stable versions to keep besides the one being published */
+  keepStable: number
+  /** Number of pre-release versions to keep besides the one being published */
+  keepPrereleases: number
+  /** Whether to delete pre-releases once their final release is published */
+  dropReleasedPrereleases: boolean
+  /** Keep versions uploaded within this many days */
+  maxAgeDays?: number
+  /** Keep the newest version of every minor line */
+  keepLatestPerMinor?: boolean
+  /** Versions that are never deleted */
+  pinnedVersions?: string[]
+}
+
+/**
+ * Interface for the retention decision about one published version.
+ */
+export interface RetentionDecision {
+  /** Semantic version of the module */
+  version: string
+  /** Whether the version is kept */
+  keep: boolean
+  /** The rule that decided, e.g. 'highest version of major line 1' */
+  reason: string
+}
+
+/**
+ * Interface for the options of a document maintained in the bucket,
+ * such as a module's versions.json index or SHA256SUMS manifest.
+ */
+export interface JsonObjectOptions {
+  /** Access granted on the object (defaults to 'public') */
+  access?: ModuleAccess
+  /** Cache control header; documents that change should not be cached for long */
+  cacheControl?: string
+  /** Custom metadata, served as x-goog-meta-* response headers */
+  metadata?: Record<string, string>
+}
+
+/**
+ * Interface for one published version in a module's versions.json index.
+ */
+export interface VersionIndexEntry {
+  /** Semantic version of the module */
+  version: string
+  /** SHA-256 hash of the archive, from its sha256Hash metadata */
+  sha256?: string
+  /** Size of the archive in bytes */
+  size: number
+  /** ISO timestamp when the archive was uploaded */
+  uploadTimestamp?: string
+  /** Git commit the version was published from */
+  gitCommit?: string
+  /** Deprecation details when the version was yanked */
+  yanked?: YankDetails
+}
+
+/**
+ * Interface for the deprecation details recorded on a yanked version.
+ */
+export interface YankDetails {
+  /** Why consumers should move off the version */
+  reason: string
+  /** Version to use instead */
+  replacement?: string
+  /** Who yanked the version (the GitHub actor) */
+  yankedBy?: string
+  /** ISO timestamp when the version was yanked */
+  yankedAt: string
+}
+
+/**
+ * Interface for the versions.json index written next to a module's archives.
+ */
+export interface VersionIndex {
+  /** Name of the module */
+  module: string
+  /** ISO timestamp when the index was last written */
+  updated: string
+  /** Every published version, newest first */
+  versions: VersionIndexEntry[]
 }
 
 /**
@@ -49,10 +206,544 @@ export interface ModuleOptions {
   moduleVersion: string
   /** Local filesystem path to the module directory */
   modulePath: string
-  /** Google Cloud credentials JSON content for authentication */
+  /** Google Cloud credentials JSON content for authentication (empty for keyless authentication) */
   googleCredentialsJson: string
   /** Whether to delete older versions of the same module */
   deleteOldVersions: boolean
-  /** Number of recent versions to retain when cleaning up old versions */
+  /** Number of recent stable versions to retain when cleaning up old versions */
   keepVersions: number
+  /** Number of recent pre-release versions to retain when cleaning up old versions */
+  keepPrereleases?: number
+  /** Whether cleanup deletes pre-releases once their final release is published */
+  dropReleasedPrereleases?: boolean
+  /** Parsed retention-policy expression; replaces keepVersions, keepPrereleases and dropReleasedPrereleases */
+  retentionPolicy?: RetentionPolicy
+  /** Glob patterns of files to package; when empty every file not excluded is packaged */
+  includePatterns?: string[]
+  /** Glob patterns of files to leave out, applied after the module's .terraformignore */
+  excludePatterns?: string[]
+  /** Policy applied when the version has already been published (defaults to 'fail') */
+  onExisting?: OnExistingPolicy
+  /** Access granted on published objects (defaults to 'public') */
+  access?: ModuleAccess
+  /** Workload Identity Provider resource name for keyless authentication with GitHub OIDC */
+  workloadIdentityProvider?: string
+  /** Service account to impersonate through Workload Identity Federation */
+  serviceAccount?: string
+  /** Modules to publish in one run; overrides moduleName, moduleVersion and modulePath */
+  modules?: ModuleDefinition[]
+  /** Maximum number of modules packaged and uploaded concurrently */
+  maxParallel?: number
+  /** Module Registry namespace; the registry files are only written when set */
+  registryNamespace?: string
+  /** Main provider of the module in the registry address (defaults to 'google') */
+  registryProvider?: string
+  /** Report what would be published and deleted without writing to the bucket */
+  dryRun?: boolean
+  /** What cleanup does with removed versions (defaults to 'delete') */
+  cleanupMode?: CleanupMode
+  /** Restore the retired moduleVersion instead of publishing it */
+  restore?: boolean
+  /** Yank the published moduleVersion instead of publishing it */
+  yank?: boolean
+  /** Why the version is yanked (required to yank) */
+  yankReason?: string
+  /** Version consumers of the yanked version should move to */
+  yankReplacement?: string
+  /** Verify the published archives instead of publishing (every version when moduleVersion is empty) */
+  verify?: boolean
+  /** Sign the archive and upload the signature and certificate next to it */
+  sign?: boolean
+  /** PEM private key to sign with (keyless signing through Fulcio when omitted) */
+  signingKey?: string
+  /** PEM public key that signatures must verify with */
+  signingPublicKey?: string
+  /** How the module is validated before it is published (defaults to 'none') */
+  validateModule?: ModuleValidation
+  /** What to do with a minor or patch release breaking compatibility (defaults to 'fail') */
+  breakingChanges?: BreakingChangePolicy
+  /** Where the version to publish comes from (defaults to 'input') */
+  versionSource?: VersionSource
+  /** Refuse to publish a version older than one already published */
+  monotonicVersions?: boolean
+  /** Version lines (e.g. '1.x') older versions may still be published in */
+  maintenanceLines?: string[]
+  /** Point the <name>-latest.zip and <name>-<major>.x.zip aliases at new releases */
+  updateAliases?: boolean
+}
+
+/**
+ * Interface for one entry of the `modules` input of a monorepo.
+ */
+export interface ModuleDefinition {
+  /** Name of the Terraform module */
+  name: string
+  /** Local filesystem path to the module directory */
+  path: string
+  /** Semantic version of the module (empty when derived from a tag or commits) */
+  version: string
+}
+
+/**
+ * Interface for the outcome of publishing a single module.
+ */
+export interface PublishResult {
+  /** Name of the module */
+  moduleName: string
+  /** Version of the module */
+  moduleVersion: string
+  /** Module source URL of the uploaded archive (set when publishing succeeded) */
+  moduleUrl?: string
+  /** URL of the archive's provenance statement (set when publishing uploaded the archive) */
+  provenanceUrl?: string
+  /** URL of the module descriptor (set when publishing uploaded and described the module) */
+  descriptorUrl?: string
+  /** Module-relative paths of the packaged files */
+  packagedFiles: string[]
+  /** Error message (set when publishing failed) */
+  error?: string
+  /** What publishing would do (set in dry-run mode) */
+  plan?: DryRunPlan
+  /** Outcome of verifying each archive (set in verify mode) */
+  verification?: VerificationResult[]
+  /** Comparison with the release before the version (set when one was made) */
+  compatibility?: CompatibilityReport
+  /** Newest release of the module that is not yanked (set when published, planned or refused by monotonic-versions) */
+  latestVersion?: string
+}
+
+/**
+ * Interface for the objects an upload published.
+ */
+export interface UploadedModule {
+  /** Module source URL of the uploaded archive */
+  moduleUrl: string
+  /** URL of the archive's provenance statement, unless the archive was already published */
+  provenanceUrl?: string
+  /** URL of the module descriptor, when one was published */
+  descriptorUrl?: string
+  /** Newest release of the module that is not yanked, once the version is listed */
+  latestVersion?: string
+}
+
+/**
+ * What publishing would do with the versioned archive.
+ * - create: upload it, the version is not published yet
+ * - overwrite: replace the published archive (on-existing is 'overwrite')
+ * - skip: nothing, identical content is already published
+ * - fail: refuse, the version is already published (with different content)
+ */
+export type UploadAction = 'create' | 'overwrite' | 'skip' | 'fail'
+
+/**
+ * Interface for the dry-run report of a single module.
+ */
+export interface DryRunPlan {
+  /** Destination object of the archive within the bucket */
+  destination: string
+  /** SHA-256 hash of the packaged archive */
+  sha256: string
+  /** What would happen to the destination object */
+  action: UploadAction
+  /** Objects that cleaning up old versions would delete */
+  deletions: string[]
+}
+
+/**
+ * Interface for the dry-run report entry of a single module, as written to the
+ * dry-run-report output.
+ */
+export interface DryRunReportEntry extends Partial<DryRunPlan> {
+  /** Name of the module */
+  name: string
+  /** Version of the module */
+  version: string
+  /** Module source URL the archive would be published at */
+  url?: string
+  /** Module-relative paths of the files that would be packaged */
+  packagedFiles: string[]
+  /** Newest release that is not yanked once the version would be published */
+  latestVersion?: string
+  /** Why publishing would fail */
+  error?: string
+}
+
+/**
+ * Outcome of verifying a published archive.
+ * - ok: the archive matches the SHA-256 hash recorded at upload and the checksums GCS
+ *   reports for it
+ * - tampered: the archive is complete but does not match the recorded hash or the
+ *   checksums reported by GCS
+ * - truncated: the archive is shorter than GCS reports, or is cut short and no longer
+ *   a complete zip archive
+ * - invalid-signature: the signature does not match the archive or is not trusted
+ * - unsigned: signatures are expected, but the archive has none
+ * - missing-metadata: no hash was recorded, so the archive cannot be verified
+ */
+export type VerificationStatus =
+  | 'ok'
+  | 'tampered'
+  | 'truncated'
+  | 'invalid-signature'
+  | 'unsigned'
+  | 'missing-metadata'
+
+/**
+ * Interface for the verification result of a published version.
+ */
+export interface VerificationResult {
+  /** Name of the module */
+  name: string
+  /** Semantic version of the module */
+  version: string
+  /** Object path of the archive */
+  object: string
+  /** Outcome of the verification */
+  status: VerificationStatus
+  /** The checks that failed, empty when the archive is ok */
+  issues: string[]
+  /** SHA-256 hash recorded in the archive metadata */
+  expectedSha256?: string
+  /** SHA-256 hash of the downloaded archive */
+  actualSha256: string
+  /** Size in bytes GCS reports for the archive */
+  expectedSize: number
+  /** Size in bytes of the downloaded archive */
+  actualSize: number
+}
+
+/**
+ * Interface for the checksums of an object, base64-encoded as GCS reports them.
+ * GCS does not compute an MD5 hash for composite objects.
+ */
+export interface ObjectChecksums {
+  /** MD5 hash of the object contents */
+  md5Hash?: string
+  /** CRC32C checksum of the object contents */
+  crc32c?: string
+}
+
+/**
+ * Interface for a cosign-style detached signature of an archive.
+ */
+export interface ArchiveSignature {
+  /** Base64 signature of the archive bytes, published as <archive>.sig */
+  signature: string
+  /** PEM certificate chain or public key it verifies with, published as <archive>.pem */
+  certificate: string
+}
+
+/**
+ * Interface for what a signature must match to be trusted.
+ */
+export interface SignatureTrust {
+  /** PEM public key the signature must verify with */
+  publicKey?: string
+}
+
+/**
+ * Interface for an object downloaded for verification, as GCS describes it.
+ */
+export interface DownloadedObject extends ObjectChecksums {
+  /** Size of the object in bytes */
+  size: number
 }
+
+/**
+ * Reads an input by name, like core.getInput does for action inputs.
+ * Throws when a required input is missing.
+ */
+export type InputReader = (
+  name: string,
+  options?: { required?: boolean }
+) => string
+
+/**
+ * Authentication settings of a run: a service account key, a Workload Identity
+ * Provider (with an optional service account to impersonate), or neither.
+ */
+export type CredentialOptions = Pick<
+  ModuleOptions,
+  'googleCredentialsJson' | 'workloadIdentityProvider' | 'serviceAccount'
+>
+
+/**
+ * Interface for module archive options.
+ * These options control which files of the module directory are packaged.
+ */
+export interface ArchiveOptions {
+  /** Gitignore-style patterns of files to package (all files when omitted) */
+  include?: string[]
+  /** Gitignore-style patterns of files to leave out of the archive */
+  exclude?: string[]
+}
+
+/**
+ * Interface for external account (Workload Identity Federation) credentials,
+ * as understood by google-auth-library.
+ */
+export interface ExternalAccountConfig {
+  type: 'external_account'
+  audience: string
+  subject_token_type: string
+  token_url: string
+  service_account_impersonation_url?: string
+  credential_source: {
+    file: string
+  }
+}
+
+/**
+ * Interface for the endpoints used by the Workload Identity Federation token exchange.
+ * Google's endpoints are used by default; overriding them allows testing against local mocks.
+ */
+export interface TokenEndpoints {
+  /** STS token exchange endpoint */
+  stsTokenUrl?: string
+  /** Base URL of the IAM Credentials API */
+  iamCredentialsUrl?: string
+}
+
+/**
+ * Interface for the Terraform service discovery document (.well-known/terraform.json).
+ */
+export interface RegistryDiscoveryDocument {
+  /** Base URL of the Module Registry Protocol v1 service */
+  'modules.v1'?: string
+  /** Other services announced by the host */
+  [service: string]: string | undefined
+}
+
+/**
+ * Interface for the response of the registry's "list available versions" endpoint.
+ */
+export interface RegistryVersionsDocument {
+  modules: Array<{
+    versions: Array<{ version: string; deprecation?: { reason: string } }>
+  }>
+}
+
+/**
+ * Interface for the body of a version's registry download object.
+ */
+export interface RegistryDownloadDocument {
+  /** Module source address of the archive, as sent in X-Terraform-Get */
+  location: string
+}
+
+/**
+ * Interface for an in-toto statement attesting the SLSA provenance of an archive.
+ */
+export interface ProvenanceStatement {
+  _type: 'https://in-toto.io/Statement/v1'
+  /** The attested archive, identified by its SHA-256 digest */
+  subject: Array<{ name: string; digest: { sha256: string } }>
+  predicateType: 'https://slsa.dev/provenance/v1'
+  predicate: {
+    buildDefinition: {
+      /** URI of the schema of the parameters below */
+      buildType: string
+      /** Parameters under the control of the workflow author */
+      externalParameters: Record<string, unknown>
+      /** Parameters set by the platform running the workflow */
+      internalParameters: Record<string, unknown>
+      /** Sources the archive was built from */
+      resolvedDependencies: Array<{
+        uri: string
+        digest: { gitCommit: string }
+      }>
+    }
+    runDetails: {
+      /** Platform that ran the workflow */
+      builder: { id: string }
+      /** Workflow run that published the archive */
+      metadata: { invocationId: string; finishedOn: string }
+    }
+  }
+}
+
+/**
+ * Interface for an attribute of an HCL body.
+ */
+export interface HclAttribute {
+  /** Source text of the expression */
+  expression: string
+  /** Value of the expression when it is a literal (unset otherwise) */
+  value?: unknown
+  /** Line the attribute starts on */
+  line: number
+}
+
+/**
+ * Interface for a block of an HCL body, such as `variable "region" { ... }`.
+ */
+export interface HclBlock {
+  /** Type of the block (e.g. 'variable') */
+  type: string
+  /** Labels of the block (e.g. ['region']) */
+  labels: string[]
+  /** Attributes and nested blocks of the block */
+  body: HclBody
+  /** Line the block starts on */
+  line: number
+}
+
+/**
+ * Interface for the contents of an HCL file or block.
+ */
+export interface HclBody {
+  /** Attributes by name */
+  attributes: Record<string, HclAttribute>
+  /** Nested blocks, in order */
+  blocks: HclBlock[]
+}
+
+/**
+ * How modules are validated before they are published.
+ * - none: not at all
+ * - hcl: the module must hold .tf files that parse
+ * - terraform: as hcl, then `terraform fmt -check` and `terraform validate` when
+ *   terraform is on the PATH
+ */
+export type ModuleValidation = 'none' | 'hcl' | 'terraform'
+
+/**
+ * Interface for an input variable of a Terraform module.
+ */
+export interface TerraformVariable {
+  /** Name of the variable */
+  name: string
+  /** Type constraint, as written (e.g. 'list(string)') */
+  type?: string
+  /** Description of the variable */
+  description?: string
+  /** Default value, when it is a literal */
+  default?: unknown
+  /** Whether the variable has no default and must be set */
+  required: boolean
+  /** Whether the variable is marked sensitive */
+  sensitive: boolean
+}
+
+/**
+ * Interface for an output value of a Terraform module.
+ */
+export interface TerraformOutput {
+  /** Name of the output */
+  name: string
+  /** Description of the output */
+  description?: string
+  /** Whether the output is marked sensitive */
+  sensitive: boolean
+}
+
+/**
+ * Interface for a provider a Terraform module requires.
+ */
+export interface TerraformProviderRequirement {
+  /** Local name of the provider (e.g. 'google') */
+  name: string
+  /** Source address of the provider (e.g. 'hashicorp/google') */
+  source?: string
+  /** Version constraint of the provider (e.g. '>= 5.0') */
+  version?: string
+}
+
+/**
+ * Interface for the interface of a Terraform module, read from its .tf files.
+ */
+export interface TerraformModuleInfo {
+  /** Module-relative paths of the Terraform files of the module root */
+  files: string[]
+  /** Input variables, in file order */
+  variables: TerraformVariable[]
+  /** Output values, in file order */
+  outputs: TerraformOutput[]
+  /** Providers from the required_providers blocks */
+  requiredProviders: TerraformProviderRequirement[]
+  /** Terraform version constraint from required_version */
+  requiredVersion?: string
+}
+
+/**
+ * Interface for the interface of a submodule, as recorded in a module descriptor.
+ */
+export interface SubmoduleDescriptor {
+  /** Module-relative path of the submodule (e.g. 'modules/subnet') */
+  path: string
+  /** Terraform version constraint from required_version */
+  requiredVersion?: string
+  /** Providers from the required_providers blocks */
+  providers: TerraformProviderRequirement[]
+  /** Input variables, in file order */
+  inputs: TerraformVariable[]
+  /** Output values, in file order */
+  outputs: TerraformOutput[]
+}
+
+/**
+ * Interface for the descriptor published next to an archive (<name>-<version>.json),
+ * describing the module without downloading it.
+ */
+export interface ModuleDescriptor extends Omit<SubmoduleDescriptor, 'path'> {
+  /** Name of the module */
+  name: string
+  /** Version of the module */
+  version: string
+  /** Hex SHA-256 hash of the archive (set once the archive is uploaded) */
+  sha256?: string
+  /** Submodules packaged below modules/ */
+  submodules: SubmoduleDescriptor[]
+  /** Contents of the packaged README.md */
+  readme?: string
+}
+
+/**
+ * Kinds of changes to a module's interface that break its consumers.
+ */
+export type BreakingChangeKind =
+  | 'removed-variable'
+  | 'required-variable'
+  | 'removed-output'
+  | 'removed-submodule'
+  | 'tightened-provider'
+  | 'tightened-terraform-version'
+
+/**
+ * Interface for a change to a module's interface that breaks its consumers.
+ */
+export interface BreakingChange {
+  /** What kind of change it is */
+  kind: BreakingChangeKind
+  /** Module-relative path of the submodule it is in (unset for the module root) */
+  submodule?: string
+  /** What changed (e.g. 'variable "region" was removed') */
+  description: string
+}
+
+/**
+ * Interface for the comparison of a new version with the release before it.
+ */
+export interface CompatibilityReport {
+  /** The release the new version was compared with */
+  baselineVersion: string
+  /** Changes breaking the consumers of the baseline (empty when compatible) */
+  changes: BreakingChange[]
+}
+
+/**
+ * What to do with a minor or patch release that breaks compatibility.
+ * - fail: refuse to publish (the default)
+ * - warn: publish with a warning per breaking change
+ * - ignore: skip the comparison with the previous release
+ */
+export type BreakingChangePolicy = 'fail' | 'warn' | 'ignore'
+
+/**
+ * Where the version to publish comes from.
+ * - input: the module-version input, or the versions of the modules manifest (the default)
+ * - tag: the tag the workflow runs on (e.g. 'v1.2.3', or 'vpc/v1.2.3' in a monorepo)
+ * - conventional-commits: the latest published version, bumped according to the
+ *   conventional commits touching the module since it was published
+ */
+export type VersionSource = 'input' | 'tag' | 'conventional-commits'
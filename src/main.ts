@@ -1,258 +1,306 @@
 /**
  * @fileoverview Main entry point for the terraform-module-gcs-publisher GitHub Action.
- * This module handles publishing Terraform modules to Google Cloud Storage with proper
- * versioning, metadata, and cleanup of old versions. It implements the core functionality
- * required by the action including input validation, file handling, GCS uploads, and
- * version management.
+ * This module adapts the publishing core (publisher.ts) to GitHub Actions: it reads
+ * the action inputs, authenticates, publishes the modules, and reports the results
+ * as action outputs, in the log and in the job summary. The command-line interface
+ * (cli.ts) is the other adapter over the same core.
  *
  * @author Infraspec
  * @license MIT
  */
 
 import * as core from '@actions/core'
-import * as path from 'path'
 import * as fs from 'fs'
-import * as semver from 'semver'
 import { GCSService } from './services/gcs-service'
-import { ModuleOptions } from './interfaces'
-import { validateBucketName, validateModuleName } from './utils/validation'
-import { calculateFileHash } from './utils/file-utils'
-
-/**
- * Creates a zip archive of the module for uploading to Google Cloud Storage.
- * This function uses the system's zip command to create an archive while excluding
- * git-related files and other unnecessary metadata files.
- *
- * @param sourcePath - Path to the module directory to be archived
- * @param outputPath - Path where the zip archive will be created
- * @returns The path to the created zip archive
- * @throws {Error} When the source path doesn't exist or isn't accessible
- * @throws {Error} When the zip command fails to execute properly
- * @throws {Error} When the output zip file cannot be created or verified
- */
-async function createZipArchive(
-  sourcePath: string,
-  outputPath: string
-): Promise<string> {
-  // Ensure the source path exists
-  if (!fs.existsSync(sourcePath)) {
-    throw new Error(`Source path ${sourcePath} does not exist`)
-  }
-
-  // Create zip archive using zip command
-  const zipArgs = ['-r', outputPath, '.', '-x', '*.git*', '*.DS_Store']
-  const options = {
-    cwd: sourcePath,
-    silent: true
-  }
-
-  // Import exec dynamically to avoid including all dependencies at top level
-  const exec = await import('@actions/exec')
-  await exec.exec('zip', zipArgs, options)
-
-  // Verify the zip file was created
-  if (!fs.existsSync(outputPath)) {
-    throw new Error(`Failed to create zip file at ${outputPath}`)
-  }
-
-  return outputPath
-}
+import { ModuleOptions, PublishResult } from './interfaces'
+import {
+  buildDryRunReport,
+  createTempCredentialsFile,
+  createZipArchive,
+  expandModules,
+  planModuleUpload,
+  prepareCredentials,
+  processModuleUpload,
+  publishModule,
+  publishModules,
+  publishToRegistry,
+  readModuleOptions,
+  restoreModule,
+  validateInputs,
+  yankModule
+} from './publisher'
+import { formatBreakingChange } from './utils/compatibility-utils'
 
 /**
  * Parses and validates all input parameters from the GitHub Actions environment.
- * This function extracts inputs using the @actions/core library and constructs
- * a validated ModuleOptions object ready for use in the module publishing process.
+ * See readModuleOptions for the inputs and their validation.
  *
  * @returns Validated module options object with all required properties set
  * @throws {Error} When required inputs are missing from the GitHub Actions context
- * @throws {Error} When inputs fail validation via the validateInputs function
+ * @throws {Error} When inputs fail validation
  */
 function getValidatedInputs(): ModuleOptions {
-  const options: ModuleOptions = {
-    bucketName: core.getInput('gcs-bucket', { required: true }),
-    moduleName: core.getInput('module-name', { required: true }),
-    moduleVersion: core.getInput('module-version', { required: true }),
-    modulePath: core.getInput('module-path', { required: true }),
-    googleCredentialsJson: core.getInput('google-credentials', {
-      required: true
-    }),
-    deleteOldVersions: core.getInput('delete-old-versions') === 'true',
-    keepVersions: parseInt(core.getInput('keep-versions') || '5', 10)
-  }
-
-  validateInputs(options)
-
-  return options
+  return readModuleOptions(core.getInput)
 }
 
 /**
- * Validates the input parameters to the GitHub Action.
- * This function performs comprehensive validation on all input parameters including
- * format validation, existence checks, and semantic version validation.
+ * Reports the outcome of every module as a log table and in the job summary.
  *
- * @param options - Module options object containing all parameters to validate
- * @throws {Error} When the bucket name doesn't conform to GCS naming rules
- * @throws {Error} When the module name contains invalid characters
- * @throws {Error} When the module path doesn't exist on the filesystem
- * @throws {Error} When the module version isn't a valid semantic version format
- * @throws {Error} When the keepVersions parameter is not a positive integer
+ * @param results - Outcome of each module, in manifest order
  */
-function validateInputs(options: ModuleOptions): void {
-  // Validate bucket name format
-  validateBucketName(options.bucketName)
-
-  // Validate module name format
-  validateModuleName(options.moduleName)
-
-  // Validate module path exists
-  if (!fs.existsSync(options.modulePath)) {
-    throw new Error(`Module path ${options.modulePath} does not exist`)
-  }
-
-  // Validate module version is a valid semver
-  if (!semver.valid(options.moduleVersion)) {
-    throw new Error(
-      `Invalid module version: ${options.moduleVersion}. Must be a valid semantic version.`
+async function reportResults(results: PublishResult[]): Promise<void> {
+  core.info('Module publishing results:')
+  for (const result of results) {
+    core.info(
+      `  ${result.error ? '❌' : '✅'} ${result.moduleName} ${result.moduleVersion}: ${result.error || result.moduleUrl}`
     )
   }
 
-  // Validate keep-versions is a positive integer
-  if (options.keepVersions <= 0) {
-    throw new Error(
-      `Invalid keep-versions value: ${options.keepVersions}. Must be a positive integer.`
-    )
+  // The job summary is only available when running inside GitHub Actions
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return
   }
+  await core.summary
+    .addHeading('Published Terraform modules', 3)
+    .addTable([
+      [
+        { data: 'Module', header: true },
+        { data: 'Version', header: true },
+        { data: 'Status', header: true },
+        { data: 'URL / Error', header: true }
+      ],
+      ...results.map((result) => [
+        result.moduleName,
+        result.moduleVersion,
+        result.error ? '❌ Failed' : '✅ Published',
+        result.error || result.moduleUrl || ''
+      ])
+    ])
+    .write()
 }
 
 /**
- * Creates a temporary file for Google credentials.
- * This function validates the JSON format of the credentials and writes them to a
- * temporary file that can be used by the Google Cloud Storage client library.
+ * Reports what a dry run would publish and delete, as a log, in the job summary and
+ * in the dry-run-report output.
  *
- * @param credentialsJson - Google credentials JSON string containing service account information
- * @returns Path to the created temporary credentials file
- * @throws {Error} When the credentials JSON is invalid or cannot be parsed
- * @throws {Error} When the temporary file cannot be created due to file system errors
+ * @param results - Outcome of each module, in manifest order
  */
-function createTempCredentialsFile(credentialsJson: string): string {
-  // Create a temporary credentials file
-  const tempDir = process.env.RUNNER_TEMP || '/tmp'
-  const credentialsPath = path.join(tempDir, 'google-credentials.json')
-
-  try {
-    // Validate JSON format
-    JSON.parse(credentialsJson)
+async function reportDryRun(results: PublishResult[]): Promise<void> {
+  const report = buildDryRunReport(results)
+  core.setOutput('dry-run-report', JSON.stringify(report))
 
-    // Write credentials to file
-    fs.writeFileSync(credentialsPath, credentialsJson, { encoding: 'utf8' })
-    core.info(`Created temporary credentials file at ${credentialsPath}`)
-
-    return credentialsPath
-  } catch (error) {
-    throw new Error(
-      `Invalid Google credentials JSON: ${error instanceof Error ? error.message : String(error)}`
+  core.info('Dry run, nothing was written to or deleted from the bucket:')
+  for (const entry of report) {
+    core.info(
+      `  ${entry.name} ${entry.version}: ${entry.error || `${entry.action} ${entry.destination}`}`
     )
+    for (const deletion of entry.deletions || []) {
+      core.info(`    would delete ${deletion}`)
+    }
   }
+
+  // The job summary is only available when running inside GitHub Actions
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return
+  }
+  await core.summary
+    .addHeading('Dry run: Terraform modules', 3)
+    .addTable([
+      [
+        { data: 'Module', header: true },
+        { data: 'Version', header: true },
+        { data: 'Destination', header: true },
+        { data: 'Action', header: true },
+        { data: 'Would delete', header: true }
+      ],
+      ...report.map((entry) => [
+        entry.name,
+        entry.version,
+        entry.destination || '',
+        entry.error ? `❌ ${entry.error}` : entry.action || '',
+        (entry.deletions || []).join('<br>') || 'nothing'
+      ])
+    ])
+    .write()
 }
 
 /**
- * Processes the module upload and related operations.
- * This function calculates the file hash, performs the upload operation,
- * and handles cleanup of old versions if requested in the options.
+ * Reports, in the job summary, the changes breaking compatibility with the previous
+ * release found in any module, whether they failed the module or were only warned
+ * about.
  *
- * @param options - Module options containing bucket name, module name, and version information
- * @param gcsService - GCS service instance for interacting with Google Cloud Storage
- * @param zipFilePath - Path to the local zip file to be uploaded
- * @returns URL to the uploaded module in Google Cloud Storage (gs:// format)
- * @throws {Error} When file hash calculation fails due to file system errors
- * @throws {Error} When the upload to GCS fails due to authentication or network issues
- * @throws {Error} When cleanup of old versions fails (if deleteOldVersions is true)
+ * @param results - Outcome of each module, in manifest order
  */
-async function processModuleUpload(
-  options: ModuleOptions,
-  gcsService: GCSService,
-  zipFilePath: string
-): Promise<string> {
-  // Calculate file hash for integrity verification
-  const fileHash = await calculateFileHash(zipFilePath)
-  core.info(`File integrity hash (SHA-256): ${fileHash}`)
-
-  // Determine module folder structure
-  const moduleFolder = `modules/${options.moduleName}`
-  const zipFileName = `${options.moduleName}-${options.moduleVersion}.zip`
-
-  // Upload versioned file with hash metadata
-  await gcsService.uploadToGCS(
-    options.bucketName,
-    zipFilePath,
-    `${moduleFolder}/${zipFileName}`,
-    fileHash
+async function reportCompatibility(results: PublishResult[]): Promise<void> {
+  const breaking = results.filter(
+    (result) => result.compatibility && result.compatibility.changes.length > 0
   )
+  // The job summary is only available when running inside GitHub Actions
+  if (breaking.length === 0 || !process.env.GITHUB_STEP_SUMMARY) {
+    return
+  }
+  await core.summary
+    .addHeading('Breaking changes', 3)
+    .addTable([
+      [
+        { data: 'Module', header: true },
+        { data: 'Version', header: true },
+        { data: 'Compared with', header: true },
+        { data: 'Breaking changes', header: true }
+      ],
+      ...breaking.map((result) => [
+        result.moduleName,
+        result.moduleVersion,
+        result.compatibility?.baselineVersion || '',
+        (result.compatibility?.changes || [])
+          .map(formatBreakingChange)
+          .join('<br>')
+      ])
+    ])
+    .write()
+}
 
-  // Clean up old versions if requested
-  if (options.deleteOldVersions) {
-    await gcsService.cleanupOldVersions(
-      options.bucketName,
-      moduleFolder,
-      options.moduleName,
-      options.moduleVersion,
-      options.keepVersions
-    )
+/**
+ * Reports the verification of the published archives as a log, in the job summary and
+ * in the verification-report output.
+ *
+ * @param results - Outcome of each module, in manifest order
+ */
+async function reportVerification(results: PublishResult[]): Promise<void> {
+  const report = results.flatMap((result) => result.verification || [])
+  core.setOutput('verification-report', JSON.stringify(report))
+
+  core.info('Verification results:')
+  for (const result of results) {
+    if (result.error && !result.verification) {
+      core.info(
+        `  ❌ ${result.moduleName} ${result.moduleVersion}: ${result.error}`
+      )
+    }
   }
 
-  return `gs://${options.bucketName}/${moduleFolder}/${zipFileName}`
+  // The job summary is only available when running inside GitHub Actions
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return
+  }
+  await core.summary
+    .addHeading('Verified Terraform modules', 3)
+    .addTable([
+      [
+        { data: 'Module', header: true },
+        { data: 'Version', header: true },
+        { data: 'Status', header: true },
+        { data: 'Issues', header: true }
+      ],
+      ...report.map((entry) => [
+        entry.name,
+        entry.version,
+        entry.status === 'ok' ? '✅ ok' : `❌ ${entry.status}`,
+        entry.issues.join('<br>')
+      ])
+    ])
+    .write()
 }
 
 /**
  * Main function that runs the GitHub Action for publishing Terraform modules to GCS.
  * This is the entry point for the action that handles the entire process from reading
- * inputs, validating parameters, creating the zip archive, and uploading to GCS.
+ * inputs, validating parameters, creating the zip archives, and uploading to GCS.
+ * Several modules are published concurrently, up to the maxParallel limit; a failing
+ * module does not stop the others, but fails the action once all have finished.
+ * In dry-run mode nothing is written to or deleted from the bucket; what would happen
+ * is reported in the dry-run-report output, the only output set. In restore and yank mode the published versions are restored
+ * or yanked instead of being published. In verify mode the published archives are
+ * checked, failing the action when any of them does not match its recorded hashes.
  *
  * @throws {Error} When required inputs are missing or invalid
  * @throws {Error} When zip creation fails due to file system issues
  * @throws {Error} When GCS authentication or upload operations fail
  */
 async function run(): Promise<void> {
-  let tempCredentialsFile: string | null = null
+  let tempFiles: string[] = []
 
   try {
     // Get and validate inputs
     const options = getValidatedInputs()
 
-    // Create temporary credentials file
-    tempCredentialsFile = createTempCredentialsFile(
-      options.googleCredentialsJson
-    )
+    // Create temporary credentials files
+    const credentials = await prepareCredentials(options)
+    tempFiles = credentials.tempFiles
 
     // Initialize GCS service
-    const gcsService = new GCSService(tempCredentialsFile)
+    const gcsService = new GCSService(credentials.credentialsPath)
+
+    // Publish every module, collecting failures instead of stopping at the first
+    const results = await publishModules(options, gcsService)
+    await reportCompatibility(results)
+
+    if (options.verify) {
+      await reportVerification(results)
+      const failed = results.filter((result) => result.error)
+      if (failed.length > 0) {
+        throw new Error(
+          failed
+            .map((result) => `${result.moduleName}: ${result.error}`)
+            .join('; ')
+        )
+      }
+      return
+    }
 
-    // Prepare zip file
-    const zipFileName = `${options.moduleName}-${options.moduleVersion}.zip`
-    const zipFilePath = path.join(
-      process.env.RUNNER_TEMP || '/tmp',
-      zipFileName
-    )
+    // Nothing a dry run describes exists yet, so only its report is set
+    if (options.dryRun) {
+      await reportDryRun(results)
+      const failed = results.filter((result) => result.error)
+      if (failed.length > 0) {
+        throw new Error(
+          options.modules
+            ? `${failed.length} of ${results.length} module(s) failed to publish: ${failed.map((result) => result.moduleName).join(', ')}`
+            : failed[0].error
+        )
+      }
+      return
+    }
 
-    // Create zip file
-    core.info(
-      `Creating zip file for module ${options.moduleName} v${options.moduleVersion}...`
+    // Set outputs
+    const published = results.filter((result) => !result.error)
+    core.setOutput(
+      'published-modules',
+      JSON.stringify(
+        published.map((result) => ({
+          name: result.moduleName,
+          version: result.moduleVersion,
+          url: result.moduleUrl,
+          provenance: result.provenanceUrl,
+          descriptor: result.descriptorUrl,
+          latest: result.latestVersion
+        }))
+      )
     )
-    await createZipArchive(options.modulePath, zipFilePath)
 
-    // Upload to GCS and process related operations
-    core.info(`Uploading ${zipFileName} to GCS bucket ${options.bucketName}...`)
-    const moduleUrl = await processModuleUpload(
-      options,
-      gcsService,
-      zipFilePath
-    )
+    if (!options.modules) {
+      const [result] = results
+      // Reported even when the version is refused for going backwards
+      core.setOutput('latest-version', result.latestVersion)
+      if (result.error) {
+        throw new Error(result.error)
+      }
+      core.setOutput('module-url', result.moduleUrl)
+      core.setOutput('provenance-url', result.provenanceUrl)
+      core.setOutput('descriptor-url', result.descriptorUrl)
+      core.setOutput('version', result.moduleVersion)
+      core.setOutput('packaged-files', JSON.stringify(result.packagedFiles))
+      return
+    }
 
-    // Set outputs
-    core.setOutput('module-url', moduleUrl)
-    core.setOutput('version', options.moduleVersion)
+    await reportResults(results)
 
-    core.info(`✅ Successfully published module to ${moduleUrl}`)
+    const failed = results.filter((result) => result.error)
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} of ${results.length} module(s) failed to publish: ${failed.map((result) => result.moduleName).join(', ')}`
+      )
+    }
   } catch (error) {
     // Improved error handling as per GitHub template
     if (error instanceof Error) {
@@ -261,9 +309,11 @@ async function run(): Promise<void> {
       core.setFailed(`Unexpected error: ${error}`)
     }
   } finally {
-    // Clean up credentials file
-    if (tempCredentialsFile && fs.existsSync(tempCredentialsFile)) {
-      fs.unlinkSync(tempCredentialsFile)
+    // Clean up credentials files
+    for (const tempFile of tempFiles) {
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile)
+      }
     }
   }
 }
@@ -280,6 +330,13 @@ export {
   createZipArchive,
   getValidatedInputs,
   validateInputs,
+  expandModules,
   createTempCredentialsFile,
-  processModuleUpload
+  prepareCredentials,
+  processModuleUpload,
+  planModuleUpload,
+  publishToRegistry,
+  publishModule,
+  restoreModule,
+  yankModule
 }
@@ -0,0 +1,1940 @@
+/**
+ * @fileoverview Publishing core of the terraform-module-gcs-publisher.
+ * This module reads and validates the publishing options, packages modules, uploads
+ * them with their versions.json index, SHA256SUMS manifest and Module Registry files,
+ * and restores, yanks or cleans up published versions. It does not depend on where
+ * the options come from: the GitHub Action (main.ts) and the command-line interface
+ * (cli.ts) are thin adapters over it.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as core from '@actions/core'
+import { Context } from '@actions/github/lib/context'
+import * as path from 'path'
+import * as fs from 'fs'
+import * as semver from 'semver'
+import {
+  CHECKSUM_MANIFEST_NAME,
+  DESCRIPTOR_EXTENSION,
+  GCSService,
+  PROVENANCE_EXTENSION
+} from './services/gcs-service'
+import {
+  ArchiveOptions,
+  BreakingChangePolicy,
+  CleanupMode,
+  CompatibilityReport,
+  CredentialOptions,
+  DryRunPlan,
+  DryRunReportEntry,
+  InputReader,
+  ModuleAccess,
+  ModuleDescriptor,
+  ModuleOptions,
+  ModuleValidation,
+  OnExistingPolicy,
+  PublishResult,
+  RetentionPolicy,
+  SignatureTrust,
+  UploadAction,
+  UploadedModule,
+  VerificationResult,
+  VerificationStatus,
+  VersionIndexEntry,
+  VersionSource
+} from './interfaces'
+import {
+  validateAccess,
+  validateBucketName,
+  validateCleanupMode,
+  validateMaintenanceLine,
+  validateModuleName,
+  validateModuleValidation,
+  validateRegistryNamespace,
+  validateRegistryProvider,
+  validateServiceAccount,
+  validateSigningKey,
+  validateWorkloadIdentityProvider
+} from './utils/validation'
+import { calculateFileChecksums, calculateFileHash } from './utils/file-utils'
+import {
+  buildZipArchive,
+  extractZipArchive,
+  isCompleteZipArchive
+} from './utils/archive-utils'
+import { getModuleSourceUrl, getObjectUrl } from './utils/url-utils'
+import { createWorkloadIdentityCredentialsFile } from './utils/auth-utils'
+import { parseModuleManifest } from './utils/manifest-utils'
+import {
+  REGISTRY_DISCOVERY_PATH,
+  TERRAFORM_GET_METADATA_KEY,
+  buildDiscoveryDocument,
+  buildDownloadDocument,
+  buildVersionsDocument,
+  getRegistryModulePath
+} from './utils/registry-utils'
+import { mapWithConcurrency } from './utils/async-utils'
+import {
+  findLatestRelease,
+  findNewerVersion,
+  findPreviousRelease,
+  isPrerelease,
+  isSemver,
+  parseVersionTag
+} from './utils/version-utils'
+import { signFile, verifyFileSignature } from './utils/signing-utils'
+import { parseRetentionPolicy } from './utils/retention-utils'
+import {
+  PROVENANCE_CONTENT_TYPE,
+  buildProvenanceStatement
+} from './utils/provenance-utils'
+import {
+  inspectTerraformModule,
+  runTerraformChecks
+} from './utils/terraform-utils'
+import {
+  buildModuleDescriptor,
+  summarizeModuleDescriptor
+} from './utils/descriptor-utils'
+import {
+  compareModuleInterfaces,
+  formatBreakingChange
+} from './utils/compatibility-utils'
+import { getReleaseType, readCommitMessages } from './utils/commit-utils'
+
+/** Supported values of the on-existing input */
+const ON_EXISTING_POLICIES: OnExistingPolicy[] = [
+  'fail',
+  'skip-if-identical',
+  'overwrite'
+]
+
+/** Supported values of the breaking-changes input */
+const BREAKING_CHANGE_POLICIES: BreakingChangePolicy[] = [
+  'fail',
+  'warn',
+  'ignore'
+]
+
+/** Supported values of the version-source input */
+const VERSION_SOURCES: VersionSource[] = [
+  'input',
+  'tag',
+  'conventional-commits'
+]
+
+/** Version of the first release of a module derived from conventional commits */
+const INITIAL_VERSION = '1.0.0'
+
+/**
+ * Creates a zip archive of the module for uploading to Google Cloud Storage.
+ * The archive is built in-process by buildZipArchive, so no system `zip` binary is
+ * required on the runner. Git-related files, .terraform directories, paths listed in
+ * the module's .terraformignore and the exclude patterns are left out.
+ *
+ * @param sourcePath - Path to the module directory to be archived
+ * @param outputPath - Path where the zip archive will be created
+ * @param archiveOptions - Include/exclude glob patterns for the packaged files
+ * @returns The module-relative paths of the packaged files
+ * @throws {Error} When the source path doesn't exist or isn't accessible
+ * @throws {Error} When a module file cannot be read or a symlink points outside the module
+ * @throws {Error} When the patterns leave no files to package
+ */
+export async function createZipArchive(
+  sourcePath: string,
+  outputPath: string,
+  archiveOptions: ArchiveOptions = {}
+): Promise<string[]> {
+  // Ensure the source path exists
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`Source path ${sourcePath} does not exist`)
+  }
+
+  const files = await buildZipArchive(sourcePath, outputPath, archiveOptions)
+  if (files.length === 0) {
+    throw new Error(
+      `No files to package in ${sourcePath}; check the include/exclude patterns and .terraformignore`
+    )
+  }
+
+  core.info(`Packaged ${files.length} file(s) into ${outputPath}:`)
+  for (const file of files) {
+    core.info(`  ${file}`)
+  }
+
+  return files
+}
+
+/**
+ * Parses a list input given either one entry per line or as a comma-separated value.
+ *
+ * @param value - Raw input value
+ * @returns The trimmed, non-empty entries
+ */
+function parseListInput(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+}
+
+/**
+ * Parses and validates all input parameters, named after the action inputs.
+ * Inputs are read through getInput, so the same options can come from the GitHub
+ * Actions environment or from command-line flags. The result is a validated
+ * ModuleOptions object ready for use in the module publishing process.
+ * When the `modules` input is set, module-name, module-version and module-path are
+ * optional and every module of the manifest is validated instead. In verify mode
+ * module-version is optional, every published version being verified without it.
+ * With version-source set to 'tag', the version is read from the tag the workflow
+ * runs on (see applyTagVersion); with 'conventional-commits', it is only derived when
+ * publishing (see getNextVersion).
+ *
+ * @param getInput - Reads an input by name (e.g. core.getInput)
+ * @returns Validated module options object with all required properties set
+ * @throws {Error} When required inputs are missing
+ * @throws {Error} When the modules manifest cannot be read or parsed
+ * @throws {Error} When the retention policy expression is malformed
+ * @throws {Error} When version-source is 'tag' and the tag names no version of the module
+ * @throws {Error} When inputs fail validation via the validateInputs function
+ */
+export function readModuleOptions(getInput: InputReader): ModuleOptions {
+  const versionSource = (getInput('version-source') || 'input') as VersionSource
+  const modulesInput = getInput('modules')
+  const modules = modulesInput
+    ? parseModuleManifest(modulesInput, versionSource === 'input')
+    : undefined
+  const verify = getInput('verify') === 'true'
+
+  let options: ModuleOptions = {
+    bucketName: getInput('gcs-bucket', { required: true }),
+    moduleName: getInput('module-name', { required: !modules }),
+    moduleVersion: getInput('module-version', {
+      required: !modules && !verify && versionSource === 'input'
+    }),
+    modulePath: getInput('module-path', { required: !modules }),
+    ...readCredentialOptions(getInput),
+    deleteOldVersions: getInput('delete-old-versions') === 'true',
+    keepVersions: parseInt(getInput('keep-versions') || '5', 10),
+    keepPrereleases: parseInt(getInput('keep-prereleases') || '5', 10),
+    dropReleasedPrereleases: getInput('drop-released-prereleases') === 'true',
+    retentionPolicy: getInput('retention-policy')
+      ? parseRetentionPolicy(getInput('retention-policy'))
+      : undefined,
+    includePatterns: parseListInput(getInput('include')),
+    excludePatterns: parseListInput(getInput('exclude')),
+    onExisting: (getInput('on-existing') || 'fail') as OnExistingPolicy,
+    access: (getInput('access') || 'public') as ModuleAccess,
+    modules,
+    maxParallel: parseInt(getInput('max-parallel') || '4', 10),
+    registryNamespace: getInput('namespace') || undefined,
+    registryProvider: getInput('provider') || 'google',
+    dryRun: getInput('dry-run') === 'true',
+    cleanupMode: (getInput('cleanup-mode') || 'delete') as CleanupMode,
+    restore: getInput('restore') === 'true',
+    yank: getInput('yank') === 'true',
+    yankReason: getInput('yank-reason') || undefined,
+    yankReplacement: getInput('yank-replacement') || undefined,
+    verify,
+    sign: getInput('sign') === 'true',
+    signingKey: getInput('signing-key') || undefined,
+    signingPublicKey: getInput('signing-public-key') || undefined,
+    validateModule: (getInput('validate-module') || 'none') as ModuleValidation,
+    breakingChanges: (getInput('breaking-changes') ||
+      'fail') as BreakingChangePolicy,
+    versionSource,
+    monotonicVersions: getInput('monotonic-versions') === 'true',
+    maintenanceLines: parseListInput(getInput('maintenance-lines')),
+    updateAliases: getInput('update-aliases') === 'true'
+  }
+
+  if (versionSource === 'tag') {
+    options = applyTagVersion(options, new Context().ref)
+  }
+
+  for (const moduleOptions of expandModules(options)) {
+    validateInputs(moduleOptions)
+  }
+
+  return options
+}
+
+/**
+ * Sets the version to publish from the tag the workflow runs on. A tag prefixed with
+ * a module name (e.g. 'vpc/v1.2.3') releases only that module: in a modules manifest
+ * the other modules are left out.
+ *
+ * @param options - Module options, possibly holding a list of modules
+ * @param ref - The git ref the workflow runs on (e.g. 'refs/tags/v1.2.3')
+ * @returns The options with the version of the tag
+ * @throws {Error} When the ref is not a tag naming a semantic version
+ * @throws {Error} When the tag names a module other than the one to publish
+ */
+export function applyTagVersion(
+  options: ModuleOptions,
+  ref: string
+): ModuleOptions {
+  const tag = ref.startsWith('refs/tags/') ? parseVersionTag(ref) : undefined
+  if (!tag) {
+    throw new Error(
+      `version-source tag requires a tag naming a semantic version (e.g. v1.2.3 or vpc/v1.2.3), but the workflow runs on ${ref || 'no git ref'}`
+    )
+  }
+
+  if (!options.modules) {
+    if (tag.moduleName && tag.moduleName !== options.moduleName) {
+      throw new Error(
+        `Tag ${ref.slice('refs/tags/'.length)} releases module ${tag.moduleName}, not ${options.moduleName}`
+      )
+    }
+    return { ...options, moduleVersion: tag.version }
+  }
+
+  const modules = options.modules.filter(
+    (module) => !tag.moduleName || module.name === tag.moduleName
+  )
+  if (modules.length === 0) {
+    throw new Error(
+      `Tag ${ref.slice('refs/tags/'.length)} releases module ${tag.moduleName}, which is not listed in modules`
+    )
+  }
+  return {
+    ...options,
+    modules: modules.map((module) => ({ ...module, version: tag.version }))
+  }
+}
+
+/**
+ * Reads the authentication settings: a service account key, or a Workload Identity
+ * Provider with an optional service account to impersonate.
+ *
+ * @param getInput - Reads an input by name (e.g. core.getInput)
+ * @returns The authentication settings; none are set for Application Default Credentials
+ */
+export function readCredentialOptions(
+  getInput: InputReader
+): CredentialOptions {
+  return {
+    googleCredentialsJson: getInput('google-credentials'),
+    workloadIdentityProvider:
+      getInput('workload-identity-provider') || undefined,
+    serviceAccount: getInput('service-account') || undefined
+  }
+}
+
+/**
+ * Expands options describing several modules into one options object per module.
+ * Every module shares the bucket, authentication and publishing settings; only the
+ * name, version and path differ.
+ *
+ * @param options - Module options, possibly holding a list of modules
+ * @returns One options object per module to publish (just options itself without a list)
+ */
+export function expandModules(options: ModuleOptions): ModuleOptions[] {
+  if (!options.modules) {
+    return [options]
+  }
+  return options.modules.map((module) => ({
+    ...options,
+    moduleName: module.name,
+    moduleVersion: module.version,
+    modulePath: module.path,
+    modules: undefined
+  }))
+}
+
+/**
+ * Validates the input parameters to the GitHub Action.
+ * This function performs comprehensive validation on all input parameters including
+ * format validation, existence checks, and semantic version validation.
+ *
+ * @param options - Module options object containing all parameters to validate
+ * @throws {Error} When the bucket name doesn't conform to GCS naming rules
+ * @throws {Error} When the module name contains invalid characters
+ * @throws {Error} When the module path doesn't exist on the filesystem
+ * @throws {Error} When the module version isn't a valid semantic version format
+ * @throws {Error} When the keepVersions parameter is not a positive integer
+ * @throws {Error} When the keepPrereleases parameter is not a non-negative integer
+ * @throws {Error} When the onExisting policy is not one of the supported values
+ * @throws {Error} When the access mode is not recognized
+ * @throws {Error} When both a credentials key and a Workload Identity Provider are given
+ * @throws {Error} When a service account is given without a Workload Identity Provider
+ * @throws {Error} When the Workload Identity Provider or service account is malformed
+ * @throws {Error} When the maxParallel parameter is not a positive integer
+ * @throws {Error} When the registry namespace or provider is malformed
+ * @throws {Error} When the cleanup mode is not recognized
+ * @throws {Error} When a restore is combined with a dry run
+ * @throws {Error} When a yank has no reason, an invalid replacement version, or is
+ *    combined with a restore or a dry run
+ * @throws {Error} When verify is combined with a restore, a yank or a dry run
+ * @throws {Error} When a signing key is given without sign, or a signing key or
+ *    public key cannot be read
+ * @throws {Error} When the module validation level is not recognized
+ * @throws {Error} When the breaking-changes policy is not one of the supported values
+ * @throws {Error} When the version source is not recognized, or conventional-commits
+ *    is combined with a restore, a yank or verify
+ * @throws {Error} When a maintenance line is malformed or given without
+ *    monotonic-versions
+ */
+export function validateInputs(options: ModuleOptions): void {
+  // Validate bucket name format
+  validateBucketName(options.bucketName)
+
+  // Validate module name format
+  validateModuleName(options.moduleName)
+
+  // Validate module path exists
+  if (!fs.existsSync(options.modulePath)) {
+    throw new Error(`Module path ${options.modulePath} does not exist`)
+  }
+
+  // Validate where the version comes from; a version derived from commits is only
+  // known when publishing
+  const derivesVersion = options.versionSource === 'conventional-commits'
+  if (
+    options.versionSource !== undefined &&
+    !VERSION_SOURCES.includes(options.versionSource)
+  ) {
+    throw new Error(
+      `Invalid version-source value: ${options.versionSource}. Must be one of: ${VERSION_SOURCES.join(', ')}.`
+    )
+  }
+  if (derivesVersion && (options.restore || options.yank || options.verify)) {
+    throw new Error(
+      'version-source conventional-commits cannot be combined with restore, yank or verify'
+    )
+  }
+
+  // Validate module version is a valid semver (without a 'v' prefix); verify mode
+  // checks every published version when none is given
+  if (
+    (options.moduleVersion || !(options.verify || derivesVersion)) &&
+    !isSemver(options.moduleVersion)
+  ) {
+    throw new Error(
+      `Invalid module version: ${options.moduleVersion}. Must be a valid semantic version.`
+    )
+  }
+
+  // Validate keep-versions is a positive integer
+  if (options.keepVersions <= 0) {
+    throw new Error(
+      `Invalid keep-versions value: ${options.keepVersions}. Must be a positive integer.`
+    )
+  }
+
+  // Validate keep-prereleases is a non-negative integer
+  if (
+    options.keepPrereleases !== undefined &&
+    !(Number.isInteger(options.keepPrereleases) && options.keepPrereleases >= 0)
+  ) {
+    throw new Error(
+      `Invalid keep-prereleases value: ${options.keepPrereleases}. Must be a non-negative integer.`
+    )
+  }
+
+  // Validate the policy for already published versions
+  if (
+    options.onExisting !== undefined &&
+    !ON_EXISTING_POLICIES.includes(options.onExisting)
+  ) {
+    throw new Error(
+      `Invalid on-existing value: ${options.onExisting}. Must be one of: ${ON_EXISTING_POLICIES.join(', ')}.`
+    )
+  }
+
+  // Validate the access mode for published objects
+  if (options.access !== undefined) {
+    validateAccess(options.access)
+  }
+
+  // Validate the authentication settings
+  if (options.googleCredentialsJson && options.workloadIdentityProvider) {
+    throw new Error(
+      'Only one of google-credentials and workload-identity-provider can be set'
+    )
+  }
+  if (options.workloadIdentityProvider) {
+    validateWorkloadIdentityProvider(options.workloadIdentityProvider)
+  }
+  if (options.serviceAccount) {
+    if (!options.workloadIdentityProvider) {
+      throw new Error(
+        'service-account requires workload-identity-provider to be set'
+      )
+    }
+    validateServiceAccount(options.serviceAccount)
+  }
+
+  // Validate max-parallel is a positive integer
+  if (
+    options.maxParallel !== undefined &&
+    !(Number.isInteger(options.maxParallel) && options.maxParallel > 0)
+  ) {
+    throw new Error(
+      `Invalid max-parallel value: ${options.maxParallel}. Must be a positive integer.`
+    )
+  }
+
+  // Validate the Module Registry address
+  if (options.registryNamespace) {
+    validateRegistryNamespace(options.registryNamespace)
+  }
+  if (options.registryProvider !== undefined) {
+    validateRegistryProvider(options.registryProvider)
+  }
+
+  // Validate what cleanup does with removed versions
+  if (options.cleanupMode !== undefined) {
+    validateCleanupMode(options.cleanupMode)
+  }
+  if (options.restore && options.dryRun) {
+    throw new Error('restore cannot be combined with dry-run')
+  }
+
+  // Validate the yank settings
+  if (options.yank) {
+    if (options.restore || options.dryRun) {
+      throw new Error('yank cannot be combined with restore or dry-run')
+    }
+    if (!options.yankReason) {
+      throw new Error('yank requires yank-reason to be set')
+    }
+  }
+  if (options.verify && (options.restore || options.yank || options.dryRun)) {
+    throw new Error('verify cannot be combined with restore, yank or dry-run')
+  }
+
+  if (options.yankReplacement && !isSemver(options.yankReplacement)) {
+    throw new Error(
+      `Invalid yank-replacement value: ${options.yankReplacement}. Must be a valid semantic version.`
+    )
+  }
+
+  // Validate the signing settings
+  if (options.signingKey) {
+    if (!options.sign) {
+      throw new Error('signing-key requires sign to be set')
+    }
+    validateSigningKey(options.signingKey, 'private')
+  }
+  if (options.signingPublicKey) {
+    validateSigningKey(options.signingPublicKey, 'public')
+  }
+
+  // Validate the policy for releases breaking compatibility
+  if (
+    options.breakingChanges !== undefined &&
+    !BREAKING_CHANGE_POLICIES.includes(options.breakingChanges)
+  ) {
+    throw new Error(
+      `Invalid breaking-changes value: ${options.breakingChanges}. Must be one of: ${BREAKING_CHANGE_POLICIES.join(', ')}.`
+    )
+  }
+
+  // Validate the lines older versions may still be published in
+  for (const line of options.maintenanceLines || []) {
+    validateMaintenanceLine(line)
+  }
+  if (options.maintenanceLines?.length && !options.monotonicVersions) {
+    throw new Error('maintenance-lines requires monotonic-versions to be set')
+  }
+
+  // Validate the module validation level; the files are checked once packaged
+  if (options.validateModule !== undefined) {
+    validateModuleValidation(options.validateModule)
+  }
+}
+
+/**
+ * Builds the retention policy applied when cleaning up old versions.
+ *
+ * The retention-policy expression takes precedence over the keep-versions,
+ * keep-prereleases and drop-released-prereleases inputs.
+ *
+ * @param options - Module options holding the retention settings
+ * @returns The retention policy (pre-releases default to the keepVersions limit)
+ */
+export function getRetentionPolicy(options: ModuleOptions): RetentionPolicy {
+  if (options.retentionPolicy) {
+    return options.retentionPolicy
+  }
+  return {
+    keepStable: options.keepVersions,
+    keepPrereleases: options.keepPrereleases ?? options.keepVersions,
+    dropReleasedPrereleases: options.dropReleasedPrereleases || false
+  }
+}
+
+/**
+ * Creates a temporary file for Google credentials.
+ * This function validates the JSON format of the credentials and writes them to a
+ * temporary file that can be used by the Google Cloud Storage client library.
+ *
+ * @param credentialsJson - Google credentials JSON string containing service account information
+ * @returns Path to the created temporary credentials file
+ * @throws {Error} When the credentials JSON is invalid or cannot be parsed
+ * @throws {Error} When the temporary file cannot be created due to file system errors
+ */
+export function createTempCredentialsFile(credentialsJson: string): string {
+  // Create a temporary credentials file
+  const tempDir = process.env.RUNNER_TEMP || '/tmp'
+  const credentialsPath = path.join(tempDir, 'google-credentials.json')
+
+  try {
+    // Validate JSON format
+    JSON.parse(credentialsJson)
+
+    // Write credentials to file
+    fs.writeFileSync(credentialsPath, credentialsJson, { encoding: 'utf8' })
+    core.info(`Created temporary credentials file at ${credentialsPath}`)
+
+    return credentialsPath
+  } catch (error) {
+    throw new Error(
+      `Invalid Google credentials JSON: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Prepares the credentials used to access Google Cloud Storage.
+ * A service account key is written to a temporary file; with a Workload Identity
+ * Provider, the GitHub OIDC token and an external_account configuration are written
+ * instead. When neither is configured, Application Default Credentials are used.
+ *
+ * @param options - Module options holding the authentication settings
+ * @returns Path to the credentials file (undefined for Application Default
+ *    Credentials) and every temporary file to delete once the action finishes
+ * @throws {Error} When the credentials JSON is invalid or cannot be written
+ * @throws {Error} When the GitHub OIDC token cannot be obtained
+ */
+export async function prepareCredentials(
+  options: CredentialOptions
+): Promise<{ credentialsPath?: string; tempFiles: string[] }> {
+  if (options.googleCredentialsJson) {
+    const credentialsPath = createTempCredentialsFile(
+      options.googleCredentialsJson
+    )
+    return { credentialsPath, tempFiles: [credentialsPath] }
+  }
+
+  if (options.workloadIdentityProvider) {
+    const { credentialsPath, tokenPath } =
+      await createWorkloadIdentityCredentialsFile(
+        options.workloadIdentityProvider,
+        options.serviceAccount,
+        process.env.RUNNER_TEMP || '/tmp'
+      )
+    return { credentialsPath, tempFiles: [credentialsPath, tokenPath] }
+  }
+
+  core.info(
+    'No google-credentials or workload-identity-provider given, using Application Default Credentials'
+  )
+  return { tempFiles: [] }
+}
+
+/**
+ * Processes the module upload and related operations.
+ * This function calculates the file hash, performs the upload operation, publishes
+ * the archive's signature, provenance statement and descriptor (when the module was
+ * described, its summary is also recorded in the archive's metadata), points the
+ * module's aliases at releases if requested, handles cleanup of old versions
+ * if requested in the options, and keeps the module's versions.json index, its
+ * SHA256SUMS manifest and, when a namespace is set, its Module Registry files up to
+ * date.
+ *
+ * @param options - Module options containing bucket name, module name, and version information
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param zipFilePath - Path to the local zip file to be uploaded
+ * @param descriptor - Descriptor of the packaged module, if it could be described
+ * @returns Module source URL of the uploaded archive (an https:// URL for public
+ *    objects, or a gcs:: address for private ones), the URLs of its provenance and
+ *    descriptor, and the newest release listed in the versions.json index
+ * @throws {Error} When file hash calculation fails due to file system errors
+ * @throws {Error} When the upload to GCS fails due to authentication or network issues
+ * @throws {Error} When the version already exists and the onExisting policy forbids replacing it
+ * @throws {Error} When the signature, the provenance statement or the descriptor cannot
+ *    be published
+ * @throws {Error} When cleanup of old versions fails (if deleteOldVersions is true)
+ * @throws {Error} When the versions.json index, SHA256SUMS, the registry files or the
+ *    aliases cannot be updated
+ */
+export async function processModuleUpload(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  zipFilePath: string,
+  descriptor?: ModuleDescriptor
+): Promise<UploadedModule> {
+  // Calculate file hash for integrity verification
+  const fileHash = await calculateFileHash(zipFilePath)
+  core.info(`File integrity hash (SHA-256): ${fileHash}`)
+
+  // Determine module folder structure
+  const moduleFolder = `modules/${options.moduleName}`
+  const zipFileName = `${options.moduleName}-${options.moduleVersion}.zip`
+
+  // Upload versioned file with hash metadata
+  const { uploaded } = await gcsService.uploadToGCS(
+    options.bucketName,
+    zipFilePath,
+    `${moduleFolder}/${zipFileName}`,
+    fileHash,
+    {
+      onExisting: options.onExisting,
+      access: options.access,
+      gitCommit: process.env.GITHUB_SHA,
+      metadata: descriptor && summarizeModuleDescriptor(descriptor)
+    }
+  )
+
+  // Publish the signature, provenance and descriptor before the version is listed
+  // anywhere. When identical content was already published they describe the run
+  // that built it and are left as they are, so re-runs change nothing.
+  let provenanceUrl: string | undefined
+  let descriptorUrl: string | undefined
+  if (uploaded) {
+    if (options.sign) {
+      await signArchive(options, gcsService, zipFilePath)
+    }
+    provenanceUrl = await publishProvenance(options, gcsService, fileHash)
+    descriptorUrl =
+      descriptor &&
+      (await publishDescriptor(options, gcsService, descriptor, fileHash))
+  } else {
+    core.info(
+      `Keeping the published signature, provenance and descriptor of ${zipFileName}`
+    )
+  }
+
+  const moduleUrl = getModuleSourceUrl(
+    options.bucketName,
+    `${moduleFolder}/${zipFileName}`,
+    options.access || 'public'
+  )
+
+  // Record the new version in the module's versions.json index and SHA256SUMS
+  const index = await gcsService.updateVersionIndex(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.access
+  )
+  await updateChecksumManifest(options, gcsService)
+
+  // Make the version available through the Module Registry Protocol
+  if (options.registryNamespace) {
+    await publishToRegistry(options, gcsService, moduleUrl)
+  }
+
+  // Move the aliases before cleaning up, so cleanup sees the versions they point at
+  await updateAliases(options, gcsService)
+
+  // Clean up old versions if requested
+  if (options.deleteOldVersions) {
+    await cleanupModule(options, gcsService)
+  }
+
+  // Cleanup never removes the newest release
+  const latestVersion = findLatestRelease(getUnyankedVersions(index.versions))
+
+  return { moduleUrl, provenanceUrl, descriptorUrl, latestVersion }
+}
+
+/**
+ * Points the aliases of a module at the release just published: <name>-latest.zip
+ * and <name>-<major>.x.zip (see getAliasPaths). Each alias only moves forward, so
+ * publishing a patch of an older major line moves its <major>.x alias but leaves
+ * latest alone.
+ *
+ * @param options - Module options naming the module, its version and the access to grant
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @throws {Error} When an alias cannot be updated
+ */
+export async function updateAliases(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<void> {
+  for (const aliasPath of getAliasPaths(options)) {
+    await gcsService.updateAlias(
+      options.bucketName,
+      `modules/${options.moduleName}/${options.moduleName}-${options.moduleVersion}.zip`,
+      aliasPath,
+      options.moduleVersion,
+      options.access
+    )
+  }
+}
+
+/**
+ * Lists the aliases publishing a version points at it: none for pre-releases or
+ * without update-aliases, else <name>-latest.zip and <name>-<major>.x.zip.
+ *
+ * @param options - Module options naming the module and its version
+ * @returns The object paths of the aliases
+ */
+function getAliasPaths(options: ModuleOptions): string[] {
+  if (!options.updateAliases || isPrerelease(options.moduleVersion)) {
+    return []
+  }
+  const moduleFolder = `modules/${options.moduleName}`
+  return ['latest', `${semver.major(options.moduleVersion)}.x`].map(
+    (alias) => `${moduleFolder}/${options.moduleName}-${alias}.zip`
+  )
+}
+
+/**
+ * Signs an archive and publishes the signature and the certificate (or public key) it
+ * verifies with next to it, as <archive>.sig and <archive>.pem. Without a signing key
+ * the archive is signed keylessly, through the job's GitHub OIDC token and Fulcio.
+ *
+ * @param options - Module options holding the signing key and the access to grant
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param zipFilePath - Path to the archive that was uploaded
+ * @throws {Error} When the archive cannot be signed
+ * @throws {Error} When the signature or the certificate cannot be uploaded
+ */
+export async function signArchive(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  zipFilePath: string
+): Promise<void> {
+  await publishSignature(
+    options,
+    gcsService,
+    zipFilePath,
+    `modules/${options.moduleName}/${options.moduleName}-${options.moduleVersion}.zip`
+  )
+}
+
+/**
+ * Signs a local copy of an object and publishes the signature and the certificate
+ * (or public key) next to the object, as <object>.sig and <object>.pem.
+ *
+ * @param options - Module options holding the signing key and the access to grant
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param filePath - Path to the local copy of the object
+ * @param objectPath - Path of the object within the bucket
+ * @throws {Error} When the file cannot be signed
+ * @throws {Error} When the signature or the certificate cannot be uploaded
+ */
+async function publishSignature(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  filePath: string,
+  objectPath: string
+): Promise<void> {
+  const { signature, certificate } = await signFile(
+    filePath,
+    options.signingKey
+  )
+
+  await gcsService.saveObject(
+    options.bucketName,
+    `${objectPath}.sig`,
+    signature,
+    'text/plain',
+    options.access
+  )
+  await gcsService.saveObject(
+    options.bucketName,
+    `${objectPath}.pem`,
+    certificate,
+    'application/x-pem-file',
+    options.access
+  )
+  core.info(
+    `Signed ${objectPath} ${options.signingKey ? 'with the signing key' : 'keylessly through Fulcio'}`
+  )
+}
+
+/**
+ * Rewrites the SHA256SUMS manifest of a module and, when signing is enabled, signs
+ * it. The signature is made of the manifest this run wrote: when publishers race,
+ * the last one to sign leaves a signature matching the manifest it wrote, which the
+ * next publication or cleanup of the module rewrites and signs again.
+ *
+ * @param options - Module options naming the module and the access to grant
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @throws {Error} When the manifest cannot be written or signed
+ */
+export async function updateChecksumManifest(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<void> {
+  const moduleFolder = `modules/${options.moduleName}`
+  const manifest = await gcsService.updateChecksumManifest(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.access
+  )
+
+  if (options.sign) {
+    const manifestPath = path.join(
+      process.env.RUNNER_TEMP || '/tmp',
+      `${options.moduleName}-${CHECKSUM_MANIFEST_NAME}`
+    )
+    fs.writeFileSync(manifestPath, manifest)
+    try {
+      await publishSignature(
+        options,
+        gcsService,
+        manifestPath,
+        `${moduleFolder}/${CHECKSUM_MANIFEST_NAME}`
+      )
+    } finally {
+      fs.rmSync(manifestPath, { force: true })
+    }
+  }
+}
+
+/**
+ * Lists the inputs a module is published with, as recorded in its provenance.
+ * Credentials and signing keys are left out.
+ *
+ * @param options - Module options of the published module
+ * @returns The inputs by name; unset ones are left out
+ */
+function getProvenanceInputs(options: ModuleOptions): Record<string, unknown> {
+  return {
+    'gcs-bucket': options.bucketName,
+    'module-name': options.moduleName,
+    'module-version': options.moduleVersion,
+    'module-path': options.modulePath,
+    include: options.includePatterns,
+    exclude: options.excludePatterns,
+    'on-existing': options.onExisting,
+    access: options.access,
+    namespace: options.registryNamespace,
+    provider: options.registryProvider,
+    sign: options.sign
+  }
+}
+
+/**
+ * Publishes the SLSA provenance of an archive next to it, as
+ * <name>-<version>.intoto.jsonl: an in-toto statement with the archive's SHA-256
+ * digest as its subject, recording the GitHub Actions run that published it.
+ *
+ * @param options - Module options of the published module
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param fileHash - Hex SHA-256 hash of the archive
+ * @returns The URL of the provenance statement
+ * @throws {Error} When the statement cannot be uploaded
+ */
+export async function publishProvenance(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  fileHash: string
+): Promise<string> {
+  const archiveName = `${options.moduleName}-${options.moduleVersion}.zip`
+  const objectPath = `modules/${options.moduleName}/${options.moduleName}-${options.moduleVersion}${PROVENANCE_EXTENSION}`
+  const statement = buildProvenanceStatement(
+    archiveName,
+    fileHash,
+    getProvenanceInputs(options)
+  )
+
+  // JSON Lines: one statement per line
+  await gcsService.saveObject(
+    options.bucketName,
+    objectPath,
+    `${JSON.stringify(statement)}\n`,
+    PROVENANCE_CONTENT_TYPE,
+    options.access
+  )
+  core.info(`Published the provenance of ${archiveName} to ${objectPath}`)
+  return getObjectUrl(options.bucketName, objectPath)
+}
+
+/**
+ * Publishes the descriptor of a module next to its archive, as <name>-<version>.json,
+ * with the archive's SHA-256 hash.
+ *
+ * @param options - Module options of the published module
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param descriptor - Descriptor of the packaged module
+ * @param fileHash - Hex SHA-256 hash of the archive
+ * @returns The URL of the descriptor
+ * @throws {Error} When the descriptor cannot be uploaded
+ */
+export async function publishDescriptor(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  descriptor: ModuleDescriptor,
+  fileHash: string
+): Promise<string> {
+  const objectPath = `modules/${options.moduleName}/${options.moduleName}-${options.moduleVersion}${DESCRIPTOR_EXTENSION}`
+
+  await gcsService.saveObject(
+    options.bucketName,
+    objectPath,
+    `${JSON.stringify({ ...descriptor, sha256: fileHash }, null, 2)}\n`,
+    'application/json',
+    options.access
+  )
+  core.info(
+    `Published the descriptor of ${options.moduleName} to ${objectPath}`
+  )
+  return getObjectUrl(options.bucketName, objectPath)
+}
+
+/**
+ * Describes a packaged module for its descriptor. A module that cannot be described
+ * is still published, without a descriptor; validate-module turns this into an error
+ * before anything is packaged.
+ *
+ * @param options - Module options of the module to publish
+ * @param packagedFiles - Module-relative paths of the packaged files
+ * @returns The descriptor, or undefined when the module cannot be described
+ */
+function describeModule(
+  options: ModuleOptions,
+  packagedFiles: string[]
+): ModuleDescriptor | undefined {
+  try {
+    return buildModuleDescriptor(
+      options.modulePath,
+      options.moduleName,
+      options.moduleVersion,
+      packagedFiles
+    )
+  } catch (error) {
+    core.warning(
+      `Unable to describe module ${options.moduleName}, publishing it without a descriptor: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return undefined
+  }
+}
+
+/**
+ * Cleans up old versions of a module according to its retention policy, then drops
+ * them from the module's versions.json index, its SHA256SUMS manifest and, when a
+ * namespace is set, from the Module Registry.
+ *
+ * @param options - Module options holding the retention settings; moduleVersion is
+ *    always kept
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The versions that were deleted or retired
+ * @throws {Error} When cleanup of old versions fails
+ * @throws {Error} When the versions.json index, SHA256SUMS or the registry files cannot
+ *    be updated
+ */
+export async function cleanupModule(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<string[]> {
+  const moduleFolder = `modules/${options.moduleName}`
+
+  const deletedVersions = await gcsService.cleanupOldVersions(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.moduleVersion,
+    getRetentionPolicy(options),
+    options.cleanupMode
+  )
+  await gcsService.updateVersionIndex(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.access
+  )
+  await updateChecksumManifest(options, gcsService)
+  if (options.registryNamespace) {
+    await updateRegistryVersions(options, gcsService, deletedVersions)
+  }
+
+  return deletedVersions
+}
+
+/**
+ * Writes the Module Registry Protocol v1 files for the published version: its download
+ * object, the module's versions list and the host's service discovery document.
+ * The download object is written first, so a version is never listed before it can be
+ * downloaded.
+ *
+ * @param options - Module options holding the registry namespace and provider
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param moduleUrl - Module source address of the uploaded archive
+ * @throws {Error} When one of the registry files cannot be written
+ */
+export async function publishToRegistry(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  moduleUrl: string
+): Promise<void> {
+  const registryPath = getRegistryModulePath(
+    options.registryNamespace as string,
+    options.moduleName,
+    options.registryProvider || 'google'
+  )
+
+  await gcsService.updateJsonObject(
+    options.bucketName,
+    `${registryPath}/${options.moduleVersion}/download`,
+    () => buildDownloadDocument(moduleUrl),
+    {
+      access: options.access,
+      metadata: { [TERRAFORM_GET_METADATA_KEY]: moduleUrl }
+    }
+  )
+  await updateRegistryVersions(options, gcsService)
+  await gcsService.updateJsonObject(
+    options.bucketName,
+    REGISTRY_DISCOVERY_PATH,
+    buildDiscoveryDocument,
+    { access: options.access }
+  )
+
+  core.info(
+    `Published ${options.moduleVersion} to the registry at ${registryPath}`
+  )
+}
+
+/**
+ * Rewrites the registry versions list of a module from the archives in the bucket,
+ * after deleting the download objects of removed versions.
+ *
+ * @param options - Module options holding the registry namespace and provider
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param removedVersions - Versions whose archives were deleted
+ * @throws {Error} When the registry files cannot be updated
+ */
+export async function updateRegistryVersions(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  removedVersions: string[] = []
+): Promise<void> {
+  const registryPath = getRegistryModulePath(
+    options.registryNamespace as string,
+    options.moduleName,
+    options.registryProvider || 'google'
+  )
+
+  for (const version of removedVersions) {
+    await gcsService.deleteObject(
+      options.bucketName,
+      `${registryPath}/${version}/download`
+    )
+  }
+
+  await gcsService.updateJsonObject(
+    options.bucketName,
+    `${registryPath}/versions`,
+    async () =>
+      buildVersionsDocument(
+        await gcsService.listModuleVersions(
+          options.bucketName,
+          `modules/${options.moduleName}`,
+          options.moduleName
+        )
+      ),
+    { access: options.access }
+  )
+}
+
+/**
+ * Works out what processModuleUpload would do, without writing to the bucket.
+ * The archive is hashed and compared with the published object, and the versions
+ * that cleaning up old versions would delete are listed, with the aliases moved as
+ * updateAliases would move them first.
+ *
+ * @param options - Module options containing bucket name, module name, and version information
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param zipFilePath - Path to the local zip file that would be uploaded
+ * @returns The dry-run report of the module
+ * @throws {Error} When file hash calculation fails due to file system errors
+ * @throws {Error} When the bucket cannot be read due to authentication or network issues
+ */
+export async function planModuleUpload(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  zipFilePath: string
+): Promise<DryRunPlan> {
+  const fileHash = await calculateFileHash(zipFilePath)
+  core.info(`File integrity hash (SHA-256): ${fileHash}`)
+
+  const moduleFolder = `modules/${options.moduleName}`
+  const destination = `${moduleFolder}/${options.moduleName}-${options.moduleVersion}.zip`
+
+  const existing = await gcsService.inspectObject(
+    options.bucketName,
+    destination
+  )
+  let action: UploadAction = 'create'
+  if (existing.exists) {
+    const onExisting = options.onExisting || 'fail'
+    if (onExisting === 'overwrite') {
+      action = 'overwrite'
+    } else if (
+      onExisting === 'skip-if-identical' &&
+      existing.sha256Hash === fileHash
+    ) {
+      action = 'skip'
+    } else {
+      action = 'fail'
+    }
+  }
+
+  const deletions = options.deleteOldVersions
+    ? await gcsService.listVersionsToDelete(
+        options.bucketName,
+        moduleFolder,
+        options.moduleName,
+        options.moduleVersion,
+        getRetentionPolicy(options),
+        // The real run moves the aliases before cleaning up
+        getAliasPaths(options)
+      )
+    : []
+
+  return { destination, sha256: fileHash, action, deletions }
+}
+
+/**
+ * Lists the versions of a module that are not yanked.
+ *
+ * @param versions - Versions of the module with their yank details
+ * @returns The versions that are not yanked
+ */
+function getUnyankedVersions(
+  versions: Pick<VersionIndexEntry, 'version' | 'yanked'>[]
+): string[] {
+  return versions.filter((entry) => !entry.yanked).map((entry) => entry.version)
+}
+
+/**
+ * Checks that publishing a version does not go back from the versions already in the
+ * bucket. Yanked versions count, as their numbers stay taken; a version in one of the
+ * maintenance lines only has to be the newest of its line. Publishing an already
+ * published version again is left to the on-existing policy.
+ *
+ * @param options - Module options for the module to publish
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The newest published release that is not yanked, and why the version is
+ *    refused when a newer version is already published
+ * @throws {Error} When the published versions cannot be listed
+ */
+export async function checkVersionOrder(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<{ latestVersion?: string; error?: string }> {
+  const published = await gcsService.listModuleVersions(
+    options.bucketName,
+    `modules/${options.moduleName}`,
+    options.moduleName
+  )
+  const latestVersion = findLatestRelease(getUnyankedVersions(published))
+  const newer = findNewerVersion(
+    options.moduleVersion,
+    published.map((entry) => entry.version),
+    options.maintenanceLines
+  )
+  return {
+    latestVersion,
+    error:
+      newer &&
+      `${options.moduleName} ${options.moduleVersion} is older than the published ${newer}, and versions must not go backwards; to patch an older line, add it to maintenance-lines (e.g. ${semver.major(options.moduleVersion)}.x)`
+  }
+}
+
+/**
+ * Derives the version to publish from conventional commits: the newest published
+ * release (yanked or not) is bumped according to the commits touching the module path
+ * since the commit it was published from. A module without releases starts at 1.0.0.
+ *
+ * @param options - Module options for the module to publish
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The next version of the module
+ * @throws {Error} When the published versions cannot be listed, or the newest release
+ *    has no recorded git commit
+ * @throws {Error} When git cannot list the commits since the newest release
+ * @throws {Error} When no commit since the newest release calls for a release
+ */
+export async function getNextVersion(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<string> {
+  const latest = (
+    await gcsService.listModuleVersions(
+      options.bucketName,
+      `modules/${options.moduleName}`,
+      options.moduleName
+    )
+  ).find((entry) => !isPrerelease(entry.version))
+  if (!latest) {
+    core.info(
+      `No published release of ${options.moduleName}; publishing it as ${INITIAL_VERSION}`
+    )
+    return INITIAL_VERSION
+  }
+  if (!latest.gitCommit) {
+    throw new Error(
+      `${options.moduleName} ${latest.version} has no recorded git commit, so the commits since it are unknown; publish the next version with version-source input`
+    )
+  }
+
+  const messages = await readCommitMessages(
+    options.modulePath,
+    latest.gitCommit
+  )
+  const releaseType = getReleaseType(messages, latest.version)
+  if (!releaseType) {
+    throw new Error(
+      `None of the ${messages.length} commit(s) touching ${options.modulePath} since ${options.moduleName} ${latest.version} is a feat, fix, perf or breaking change; there is nothing to release`
+    )
+  }
+  const version = semver.inc(latest.version, releaseType) || latest.version
+  core.info(
+    `Next version of ${options.moduleName}: ${version} (${releaseType} release after ${latest.version}, from ${messages.length} commit(s))`
+  )
+  return version
+}
+
+/**
+ * Packages and publishes a single module.
+ * The archive is written to the runner's temp directory and uploaded with
+ * processModuleUpload, including cleanup of old versions when requested. In dry-run
+ * mode the upload is only planned with planModuleUpload. With validate-module set, the
+ * packaged Terraform files are parsed before anything is uploaded, and with
+ * 'terraform', terraform fmt -check and terraform validate run too. The interface of
+ * the packaged module is compared with the release before it (see checkCompatibility);
+ * unless breaking-changes is 'warn', a version breaking it is not published and its
+ * result carries the error. With version-source set to 'conventional-commits', the
+ * version is derived first with getNextVersion; with monotonic-versions set, it is
+ * then checked with checkVersionOrder, and a version going backwards is not published
+ * and its result carries the error and the newest published release.
+ *
+ * @param moduleOptions - Module options for the module to publish
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The outcome of the publication
+ * @throws {Error} When the version cannot be derived from conventional commits
+ * @throws {Error} When validate-module is set and the packaged Terraform files are
+ *    missing or have syntax errors, or the module fails terraform fmt -check or
+ *    terraform validate
+ * @throws {Error} When the published versions cannot be listed
+ * @throws {Error} When packaging or uploading the module fails
+ */
+export async function publishModule(
+  moduleOptions: ModuleOptions,
+  gcsService: GCSService
+): Promise<PublishResult> {
+  const options =
+    moduleOptions.versionSource === 'conventional-commits'
+      ? {
+          ...moduleOptions,
+          moduleVersion: await getNextVersion(moduleOptions, gcsService)
+        }
+      : moduleOptions
+
+  if (options.monotonicVersions) {
+    const { latestVersion, error } = await checkVersionOrder(
+      options,
+      gcsService
+    )
+    if (error) {
+      return {
+        moduleName: options.moduleName,
+        moduleVersion: options.moduleVersion,
+        packagedFiles: [],
+        error,
+        latestVersion
+      }
+    }
+  }
+
+  // Prepare zip file
+  const zipFileName = `${options.moduleName}-${options.moduleVersion}.zip`
+  const zipFilePath = path.join(process.env.RUNNER_TEMP || '/tmp', zipFileName)
+
+  // Create zip file
+  core.info(
+    `Creating zip file for module ${options.moduleName} v${options.moduleVersion}...`
+  )
+  const packagedFiles = await createZipArchive(
+    options.modulePath,
+    zipFilePath,
+    {
+      include: options.includePatterns,
+      exclude: options.excludePatterns
+    }
+  )
+
+  // Validate the Terraform files that were packaged
+  if (options.validateModule && options.validateModule !== 'none') {
+    const info = inspectTerraformModule(options.modulePath, packagedFiles)
+    core.info(
+      `Validated ${options.moduleName}: ${info.files.length} Terraform file(s), ${info.variables.length} variable(s), ${info.outputs.length} output(s), ${info.requiredProviders.length} required provider(s)${info.requiredVersion ? `, Terraform ${info.requiredVersion}` : ''}`
+    )
+  }
+  if (options.validateModule === 'terraform') {
+    await runTerraformChecks(options.modulePath)
+  }
+
+  const descriptor = describeModule(options, packagedFiles)
+  const compatibility = await checkCompatibility(
+    options,
+    gcsService,
+    descriptor
+  )
+  const compatibilityError = getCompatibilityError(options, compatibility)
+
+  if (options.dryRun) {
+    const plan = await planModuleUpload(options, gcsService, zipFilePath)
+    const published = await gcsService.listModuleVersions(
+      options.bucketName,
+      `modules/${options.moduleName}`,
+      options.moduleName
+    )
+    return {
+      moduleName: options.moduleName,
+      moduleVersion: options.moduleVersion,
+      moduleUrl: getModuleSourceUrl(
+        options.bucketName,
+        plan.destination,
+        options.access || 'public'
+      ),
+      packagedFiles,
+      plan,
+      compatibility,
+      // The newest release once the version is published
+      latestVersion: findLatestRelease([
+        ...getUnyankedVersions(published),
+        options.moduleVersion
+      ]),
+      error:
+        compatibilityError ||
+        (plan.action === 'fail'
+          ? `${plan.destination} already exists in bucket ${options.bucketName}; publishing would fail with on-existing '${options.onExisting || 'fail'}'`
+          : undefined)
+    }
+  }
+  if (compatibilityError) {
+    return {
+      moduleName: options.moduleName,
+      moduleVersion: options.moduleVersion,
+      packagedFiles,
+      compatibility,
+      error: compatibilityError
+    }
+  }
+
+  // Upload to GCS and process related operations
+  core.info(`Uploading ${zipFileName} to GCS bucket ${options.bucketName}...`)
+  const { moduleUrl, provenanceUrl, descriptorUrl, latestVersion } =
+    await processModuleUpload(options, gcsService, zipFilePath, descriptor)
+
+  core.info(`✅ Successfully published module to ${moduleUrl}`)
+
+  return {
+    moduleName: options.moduleName,
+    moduleVersion: options.moduleVersion,
+    moduleUrl,
+    provenanceUrl,
+    descriptorUrl,
+    packagedFiles,
+    compatibility,
+    latestVersion
+  }
+}
+
+/**
+ * Compares the interface of a module with the release before it in the same major
+ * line (see findPreviousRelease), skipping yanked releases. The interface of that
+ * release is read from its descriptor or, when it was published without one, from
+ * its archive.
+ *
+ * @param options - Module options of the module to publish
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param descriptor - Descriptor of the packaged module, if it could be described
+ * @returns The comparison, or undefined when breaking-changes is 'ignore', the module
+ *    could not be described, no release precedes it in its line, or the interface of
+ *    that release cannot be read
+ * @throws {Error} When the published versions cannot be listed
+ */
+export async function checkCompatibility(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  descriptor?: ModuleDescriptor
+): Promise<CompatibilityReport | undefined> {
+  if (options.breakingChanges === 'ignore' || !descriptor) {
+    return undefined
+  }
+
+  const moduleFolder = `modules/${options.moduleName}`
+  const versions = await gcsService.listModuleVersions(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName
+  )
+  const baselineVersion = findPreviousRelease(
+    options.moduleVersion,
+    versions.filter((entry) => !entry.yanked).map((entry) => entry.version)
+  )
+  if (!baselineVersion) {
+    core.info(
+      `No earlier release in the line of ${options.moduleName} ${options.moduleVersion}; skipping the compatibility check`
+    )
+    return undefined
+  }
+
+  let previous: ModuleDescriptor
+  try {
+    previous = await readPublishedInterface(
+      options,
+      gcsService,
+      baselineVersion
+    )
+  } catch (error) {
+    core.warning(
+      `Unable to read the interface of ${options.moduleName} ${baselineVersion}, skipping the compatibility check: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return undefined
+  }
+
+  const changes = compareModuleInterfaces(previous, descriptor)
+  if (changes.length === 0) {
+    core.info(
+      `${options.moduleName} ${options.moduleVersion} is compatible with ${baselineVersion}`
+    )
+  }
+  return { baselineVersion, changes }
+}
+
+/**
+ * Reads the interface of a published release from its descriptor or, when it was
+ * published without one, by describing its downloaded archive.
+ *
+ * @param options - Module options of the module
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param version - The published release
+ * @returns The descriptor of the release
+ * @throws {Error} When neither the descriptor nor the archive can be read
+ */
+async function readPublishedInterface(
+  options: ModuleOptions,
+  gcsService: GCSService,
+  version: string
+): Promise<ModuleDescriptor> {
+  const moduleFolder = `modules/${options.moduleName}`
+  const published = await gcsService.readObject(
+    options.bucketName,
+    `${moduleFolder}/${options.moduleName}-${version}${DESCRIPTOR_EXTENSION}`
+  )
+  if (published) {
+    return JSON.parse(published) as ModuleDescriptor
+  }
+
+  const archiveName = `${options.moduleName}-${version}.zip`
+  const tempDir = fs.mkdtempSync(
+    path.join(process.env.RUNNER_TEMP || '/tmp', `baseline-${archiveName}-`)
+  )
+  try {
+    const archivePath = path.join(tempDir, archiveName)
+    await gcsService.downloadObject(
+      options.bucketName,
+      `${moduleFolder}/${archiveName}`,
+      archivePath
+    )
+    const extractedPath = path.join(tempDir, 'module')
+    const files = await extractZipArchive(archivePath, extractedPath)
+    return buildModuleDescriptor(
+      extractedPath,
+      options.moduleName,
+      version,
+      files
+    )
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Applies the breaking-changes policy to the comparison with the previous release:
+ * with 'warn', each breaking change is logged as a warning.
+ *
+ * @param options - Module options of the module to publish
+ * @param compatibility - The comparison, if one was made
+ * @returns Why the version must not be published, or undefined when it may be
+ */
+function getCompatibilityError(
+  options: ModuleOptions,
+  compatibility?: CompatibilityReport
+): string | undefined {
+  if (!compatibility || compatibility.changes.length === 0) {
+    return undefined
+  }
+  const changes = compatibility.changes.map(formatBreakingChange)
+  if (options.breakingChanges === 'warn') {
+    for (const change of changes) {
+      core.warning(
+        `${options.moduleName} ${options.moduleVersion} breaks compatibility with ${compatibility.baselineVersion}: ${change}`
+      )
+    }
+    return undefined
+  }
+
+  const [major, minor] = compatibility.baselineVersion.split('.').map(Number)
+  const nextLine = major > 0 ? `${major + 1}.0.0` : `0.${minor + 1}.0`
+  return `${options.moduleName} ${options.moduleVersion} breaks compatibility with ${compatibility.baselineVersion}: ${changes.join('; ')}. Publish it as ${nextLine} or later, or set breaking-changes to 'warn'.`
+}
+
+/**
+ * Restores a version retired by an archive or storage-class cleanup, then lists it
+ * again in the module's versions.json index, its SHA256SUMS manifest and, when a
+ * namespace is set, in the Module Registry.
+ *
+ * @param options - Module options naming the module and the version to restore
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The outcome of the restore
+ * @throws {Error} When the version is not retired or cannot be restored
+ * @throws {Error} When the versions.json index, SHA256SUMS or the registry files cannot
+ *    be updated
+ */
+export async function restoreModule(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<PublishResult> {
+  const moduleFolder = `modules/${options.moduleName}`
+  core.info(
+    `Restoring module ${options.moduleName} v${options.moduleVersion} in GCS bucket ${options.bucketName}...`
+  )
+
+  const objectPath = await gcsService.restoreVersion(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.moduleVersion,
+    options.access
+  )
+  const moduleUrl = getModuleSourceUrl(
+    options.bucketName,
+    objectPath,
+    options.access || 'public'
+  )
+
+  await gcsService.updateVersionIndex(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.access
+  )
+  await updateChecksumManifest(options, gcsService)
+  if (options.registryNamespace) {
+    await publishToRegistry(options, gcsService, moduleUrl)
+  }
+
+  core.info(`✅ Successfully restored module to ${moduleUrl}`)
+
+  return {
+    moduleName: options.moduleName,
+    moduleVersion: options.moduleVersion,
+    moduleUrl,
+    packagedFiles: []
+  }
+}
+
+/**
+ * Yanks a published version, recording who yanked it, why and what to use instead,
+ * then rewrites the module's versions.json index and, when a namespace is set, its
+ * registry versions list so that both flag the version.
+ *
+ * @param options - Module options naming the module, the version to yank and the reason
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The outcome of the yank
+ * @throws {Error} When the version has not been published
+ * @throws {Error} When the versions.json index or the registry files cannot be updated
+ */
+export async function yankModule(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<PublishResult> {
+  const moduleFolder = `modules/${options.moduleName}`
+
+  const objectPath = await gcsService.yankVersion(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.moduleVersion,
+    {
+      reason: options.yankReason as string,
+      replacement: options.yankReplacement,
+      yankedBy: process.env.GITHUB_ACTOR,
+      yankedAt: new Date().toISOString()
+    }
+  )
+
+  await gcsService.updateVersionIndex(
+    options.bucketName,
+    moduleFolder,
+    options.moduleName,
+    options.access
+  )
+  if (options.registryNamespace) {
+    await updateRegistryVersions(options, gcsService)
+  }
+
+  core.info(`✅ Yanked module ${options.moduleName} v${options.moduleVersion}`)
+
+  return {
+    moduleName: options.moduleName,
+    moduleVersion: options.moduleVersion,
+    moduleUrl: getModuleSourceUrl(
+      options.bucketName,
+      objectPath,
+      options.access || 'public'
+    ),
+    packagedFiles: []
+  }
+}
+
+/** Issue reported for an archive without signature when signatures are expected */
+const UNSIGNED_ISSUE = 'archive is not signed'
+
+/**
+ * Checks the signature published next to an archive. Archives that were never signed
+ * pass, unless a trusted public key makes signatures mandatory.
+ *
+ * @param bucketName - Name of the GCS bucket containing module versions
+ * @param object - Object path of the archive
+ * @param localPath - Path of the downloaded archive
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param trust - The public key the signature must verify with
+ * @returns The checks that failed, empty when the signature is valid or not required
+ * @throws {Error} When the signature objects cannot be read
+ */
+async function checkArchiveSignature(
+  bucketName: string,
+  object: string,
+  localPath: string,
+  gcsService: GCSService,
+  trust: SignatureTrust
+): Promise<string[]> {
+  const signature = await gcsService.readObject(bucketName, `${object}.sig`)
+  const certificate = await gcsService.readObject(bucketName, `${object}.pem`)
+
+  if (signature === undefined && certificate === undefined) {
+    return trust.publicKey ? [UNSIGNED_ISSUE] : []
+  }
+  if (signature === undefined || certificate === undefined) {
+    return [`${object}${signature === undefined ? '.sig' : '.pem'} is missing`]
+  }
+  return verifyFileSignature(
+    localPath,
+    { signature: signature.trim(), certificate },
+    trust
+  )
+}
+
+/**
+ * Verifies the published archives of a module. Each archive is downloaded and its
+ * SHA-256 hash compared with the sha256Hash recorded in its metadata at upload, and
+ * its size, MD5 hash and CRC32C checksum with what GCS reports for the object.
+ * An archive that is shorter than reported or no longer ends with a complete zip
+ * trailer is reported as truncated, any other difference as tampered.
+ * When the archive was signed, its signature is checked too; once a trusted public
+ * key is given, every archive must carry a signature made with it.
+ *
+ * @param bucketName - Name of the GCS bucket containing module versions
+ * @param moduleName - Name of the module
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @param moduleVersion - The version to verify (every published version when omitted)
+ * @param trust - The public key signatures must verify with
+ * @returns One result per verified version, newest first
+ * @throws {Error} When the given version has not been published
+ * @throws {Error} When an archive cannot be downloaded
+ */
+export async function verifyModule(
+  bucketName: string,
+  moduleName: string,
+  gcsService: GCSService,
+  moduleVersion?: string,
+  trust: SignatureTrust = {}
+): Promise<VerificationResult[]> {
+  const moduleFolder = `modules/${moduleName}`
+  const versions = (
+    await gcsService.listModuleVersions(bucketName, moduleFolder, moduleName)
+  ).filter((entry) => !moduleVersion || entry.version === moduleVersion)
+  if (moduleVersion && versions.length === 0) {
+    throw new Error(
+      `Version ${moduleVersion} of module ${moduleName} is not published in bucket ${bucketName}`
+    )
+  }
+
+  const results: VerificationResult[] = []
+  for (const entry of versions) {
+    const archiveName = `${moduleName}-${entry.version}.zip`
+    const object = `${moduleFolder}/${archiveName}`
+    const localPath = path.join(
+      process.env.RUNNER_TEMP || '/tmp',
+      `verify-${archiveName}`
+    )
+
+    try {
+      const stored = await gcsService.downloadObject(
+        bucketName,
+        object,
+        localPath
+      )
+      const actualSha256 = await calculateFileHash(localPath)
+      const checksums = await calculateFileChecksums(localPath)
+      const actualSize = fs.statSync(localPath).size
+
+      const issues: string[] = []
+      if (actualSize < stored.size) {
+        issues.push(`downloaded ${actualSize} of ${stored.size} bytes`)
+      }
+      if (stored.md5Hash && stored.md5Hash !== checksums.md5Hash) {
+        issues.push('MD5 hash does not match the one reported by GCS')
+      }
+      if (stored.crc32c && stored.crc32c !== checksums.crc32c) {
+        issues.push('CRC32C checksum does not match the one reported by GCS')
+      }
+      if (entry.sha256 && entry.sha256 !== actualSha256) {
+        issues.push('SHA-256 hash does not match the sha256Hash metadata')
+      }
+
+      const signatureIssues = await checkArchiveSignature(
+        bucketName,
+        object,
+        localPath,
+        gcsService,
+        trust
+      )
+
+      let status: VerificationStatus = 'ok'
+      if (
+        actualSize < stored.size ||
+        (issues.length > 0 && !(await isCompleteZipArchive(localPath)))
+      ) {
+        status = 'truncated'
+      } else if (issues.length > 0) {
+        status = 'tampered'
+      } else if (signatureIssues.length > 0) {
+        status = signatureIssues.includes(UNSIGNED_ISSUE)
+          ? 'unsigned'
+          : 'invalid-signature'
+      } else if (!entry.sha256) {
+        status = 'missing-metadata'
+        issues.push('no sha256Hash metadata was recorded at upload')
+      }
+      issues.push(...signatureIssues)
+      core.info(
+        `${status === 'ok' ? '✅' : '❌'} ${object}: ${[status, ...issues].join(', ')}`
+      )
+
+      results.push({
+        name: moduleName,
+        version: entry.version,
+        object,
+        status,
+        issues,
+        expectedSha256: entry.sha256,
+        actualSha256,
+        expectedSize: stored.size,
+        actualSize
+      })
+    } finally {
+      fs.rmSync(localPath, { force: true })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Verifies the published archives of a module in verify mode: its module-version, or
+ * every published version when no version is given.
+ *
+ * @param options - Module options with the bucket, module and optional version
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The outcome, with the verification of each archive and an error when
+ *    any archive failed verification
+ * @throws {Error} When the given version has not been published
+ * @throws {Error} When an archive cannot be downloaded
+ */
+export async function verifyPublishedModule(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<PublishResult> {
+  const verification = await verifyModule(
+    options.bucketName,
+    options.moduleName,
+    gcsService,
+    options.moduleVersion || undefined,
+    { publicKey: options.signingPublicKey }
+  )
+  const failed = verification.filter((result) => result.status !== 'ok')
+
+  return {
+    moduleName: options.moduleName,
+    moduleVersion: options.moduleVersion,
+    packagedFiles: [],
+    verification,
+    ...(failed.length > 0 && {
+      error: `${failed.length} of ${verification.length} archive(s) failed verification: ${failed.map((result) => `${result.version} (${result.status})`).join(', ')}`
+    })
+  }
+}
+
+/**
+ * Publishes every module of the options, up to maxParallel at a time. In restore,
+ * yank and verify mode the versions are restored, yanked or verified instead.
+ * A failing module does not stop the others; its error is recorded in its result.
+ *
+ * @param options - Module options, possibly holding a list of modules
+ * @param gcsService - GCS service instance for interacting with Google Cloud Storage
+ * @returns The outcome of each module, in manifest order
+ */
+export async function publishModules(
+  options: ModuleOptions,
+  gcsService: GCSService
+): Promise<PublishResult[]> {
+  const operation = options.restore
+    ? restoreModule
+    : options.yank
+      ? yankModule
+      : options.verify
+        ? verifyPublishedModule
+        : publishModule
+
+  return mapWithConcurrency(
+    expandModules(options),
+    options.maxParallel || 4,
+    (moduleOptions) =>
+      operation(moduleOptions, gcsService).catch(
+        (error): PublishResult => ({
+          moduleName: moduleOptions.moduleName,
+          moduleVersion: moduleOptions.moduleVersion,
+          packagedFiles: [],
+          error: error instanceof Error ? error.message : String(error)
+        })
+      )
+  )
+}
+
+/**
+ * Builds the machine-readable report of a dry run: for every module, what would be
+ * published, where, and which old versions would be deleted.
+ *
+ * @param results - Outcome of each module, in manifest order
+ * @returns One report entry per module
+ */
+export function buildDryRunReport(
+  results: PublishResult[]
+): DryRunReportEntry[] {
+  return results.map((result) => ({
+    name: result.moduleName,
+    version: result.moduleVersion,
+    url: result.moduleUrl,
+    packagedFiles: result.packagedFiles,
+    latestVersion: result.latestVersion,
+    ...result.plan,
+    ...(result.error && { error: result.error })
+  }))
+}
@@ -12,7 +12,153 @@
 import { Storage, File } from '@google-cloud/storage'
 import * as core from '@actions/core'
 import * as semver from 'semver'
-import { GCSBucketOptions } from '../interfaces'
+import {
+  CleanupMode,
+  DownloadedObject,
+  GCSBucketOptions,
+  JsonObjectOptions,
+  ModuleAccess,
+  PredefinedAcl,
+  RetentionDecision,
+  RetentionPolicy,
+  UploadOptions,
+  VersionIndex,
+  VersionIndexEntry,
+  YankDetails
+} from '../interfaces'
+import { applyRetentionPolicy } from '../utils/retention-utils'
+import {
+  compareVersionsDescending,
+  parseArchiveVersion
+} from '../utils/version-utils'
+
+/** Attempts made at a read-modify-write update before giving up */
+const MAX_UPDATE_ATTEMPTS = 5
+
+/** Base delay between read-modify-write attempts, multiplied by the attempt number */
+const UPDATE_RETRY_DELAY_MS = 200
+
+/** Prefix below which the archive cleanup mode moves retired versions */
+export const ARCHIVE_PREFIX = 'archive'
+
+/** Suffixes of the signature objects published next to an archive (<archive>.sig) */
+export const SIGNATURE_SUFFIXES = ['.sig', '.pem']
+
+/** Name of the checksum manifest of each module folder, in `sha256sum` format */
+export const CHECKSUM_MANIFEST_NAME = 'SHA256SUMS'
+
+/** Extension of the provenance statement published next to an archive */
+export const PROVENANCE_EXTENSION = '.intoto.jsonl'
+
+/** Extension of the module descriptor published next to an archive */
+export const DESCRIPTOR_EXTENSION = '.json'
+
+/** Cache control of alias objects, which move to each new release of their line */
+export const ALIAS_CACHE_CONTROL = 'public, max-age=60'
+
+/** Storage class restored versions are rewritten to when they were retired in place */
+const RESTORED_STORAGE_CLASS = 'STANDARD'
+
+/**
+ * Lists the objects published next to an archive that share its lifecycle: its
+ * signature and certificate, its provenance statement and its descriptor.
+ *
+ * @param archivePath - Object path of the archive (<name>-<version>.zip)
+ * @returns The object paths of the archive's companions
+ */
+export function getCompanionPaths(archivePath: string): string[] {
+  return [
+    ...SIGNATURE_SUFFIXES.map((suffix) => `${archivePath}${suffix}`),
+    archivePath.replace(/\.zip$/, PROVENANCE_EXTENSION),
+    archivePath.replace(/\.zip$/, DESCRIPTOR_EXTENSION)
+  ]
+}
+
+/**
+ * Checks whether an error returned by the GCS client is a failed request precondition.
+ *
+ * @param error - The error thrown by the client
+ * @returns True for HTTP 412 Precondition Failed errors
+ */
+function isPreconditionFailed(error: unknown): boolean {
+  return (error as { code?: number }).code === 412
+}
+
+/**
+ * Checks whether an error returned by the GCS client is a missing object.
+ *
+ * @param error - The error thrown by the client
+ * @returns True for HTTP 404 Not Found errors
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: number }).code === 404
+}
+
+/**
+ * Extracts the predefined ACL named by an access mode.
+ *
+ * @param access - The access mode
+ * @returns The predefined ACL, or undefined for 'public' and 'private'
+ */
+function getPredefinedAcl(access: ModuleAccess): PredefinedAcl | undefined {
+  return access.startsWith('predefined-acl:')
+    ? (access.slice('predefined-acl:'.length) as PredefinedAcl)
+    : undefined
+}
+
+/**
+ * Checks whether an archive was retired in place by a storage-class cleanup.
+ *
+ * @param file - The archive object
+ * @returns True when the object carries the retiredAt metadata field
+ */
+function isRetired(file: File): boolean {
+  return Boolean(file.metadata.metadata?.retiredAt)
+}
+
+/**
+ * Checks whether updateAlias would move an alias holding a version to a newer one.
+ *
+ * @param version - Version the alias would be pointed at
+ * @param aliasVersion - Version the alias holds
+ * @returns True when the alias holds no valid version or an older one
+ */
+function movesAlias(version: string, aliasVersion: string): boolean {
+  return (
+    !semver.valid(aliasVersion) ||
+    compareVersionsDescending(version, aliasVersion) < 0
+  )
+}
+
+/**
+ * Describes a published archive from the metadata returned by an object listing.
+ *
+ * @param file - The archive object
+ * @param version - The version parsed from its name
+ * @returns The version details, falling back to the object creation time when the
+ *    uploadTimestamp metadata is missing, with the deprecation of yanked versions
+ */
+function toVersionEntry(file: File, version: string): VersionIndexEntry {
+  const customMetadata = file.metadata.metadata || {}
+  const stringField = (value: unknown): string | undefined =>
+    typeof value === 'string' ? value : undefined
+  return {
+    version,
+    sha256: stringField(customMetadata.sha256Hash),
+    size: Number(file.metadata.size || 0),
+    uploadTimestamp:
+      stringField(customMetadata.uploadTimestamp) || file.metadata.timeCreated,
+    gitCommit: stringField(customMetadata.gitCommit),
+    yanked: customMetadata.yankedAt
+      ? {
+          reason: stringField(customMetadata.yankReason) || '',
+          replacement: stringField(customMetadata.yankReplacement),
+          yankedBy: stringField(customMetadata.yankedBy),
+          yankedAt: String(customMetadata.yankedAt)
+        }
+      : undefined
+  }
+}
 
 /**
  * Handles interactions with Google Cloud Storage
@@ -23,36 +169,67 @@ export class GCSService {
   /**
    * Creates a new GCS service instance
    *
-   * @param credentialsFilePath - Path to the GCP credentials JSON file
+   * @param credentialsFilePath - Path to the GCP credentials JSON file (a service account
+   *    key or an external_account configuration); Application Default Credentials are
+   *    used when omitted
    */
-  constructor(credentialsFilePath: string) {
-    this.storage = new Storage({
-      keyFilename: credentialsFilePath
-    })
+  constructor(credentialsFilePath?: string) {
+    this.storage = new Storage(
+      credentialsFilePath ? { keyFilename: credentialsFilePath } : {}
+    )
   }
 
   /**
    * Uploads a file to Google Cloud Storage with appropriate metadata.
    * This method handles the entire upload process including setting metadata,
-   * making the file publicly accessible, and verifying the upload success.
+   * granting the requested access (public, private or a predefined ACL), and
+   * verifying the upload success.
+   * Unless the onExisting policy is 'overwrite', the upload is conditional
+   * (ifGenerationMatch=0), so an object that already exists is never replaced.
    *
    * @param bucketName - Name of the GCS bucket where the file will be uploaded
    * @param filePath - Absolute local path to the file to upload
    * @param destination - Destination path within the bucket (e.g., 'modules/my-module/my-module-1.0.0.zip')
    * @param fileHash - SHA-256 hash of the file for integrity verification
-   * @returns The public URL of the uploaded file (https://storage.googleapis.com/{bucket}/{path})
+   * @param uploadOptions - Behavior when the destination already exists, access to grant
+   *    and additional metadata
+   * @returns The HTTPS URL of the file (https://storage.googleapis.com/{bucket}/{path}),
+   *    and whether it was uploaded (false when identical content was already published)
    * @throws {Error} When the bucket doesn't exist or authentication fails
    * @throws {Error} When the file at filePath cannot be read
    * @throws {Error} When the upload fails due to network issues
+   * @throws {Error} When the destination already exists and the policy does not allow replacing it
    * @throws {Error} When verification fails (uploaded file not found in bucket)
    */
   async uploadToGCS(
     bucketName: string,
     filePath: string,
     destination: string,
-    fileHash: string
-  ): Promise<string> {
+    fileHash: string,
+    uploadOptions: UploadOptions = {}
+  ): Promise<{ url: string; uploaded: boolean }> {
     const bucket = this.storage.bucket(bucketName)
+    const publicUrl = `https://storage.googleapis.com/${bucketName}/${destination}`
+    const onExisting = uploadOptions.onExisting || 'fail'
+    const access = uploadOptions.access || 'public'
+
+    if (onExisting === 'skip-if-identical') {
+      const { exists, sha256Hash: existingHash } = await this.inspectObject(
+        bucketName,
+        destination
+      )
+      if (exists) {
+        if (existingHash !== fileHash) {
+          throw new Error(
+            `${destination} already exists in bucket ${bucketName} with different content (sha256 ${existingHash || 'unknown'}, new ${fileHash})`
+          )
+        }
+        core.info(
+          `${destination} is already published with identical content, skipping upload`
+        )
+        return { url: publicUrl, uploaded: false }
+      }
+    }
 
     const options: GCSBucketOptions = {
       destination,
@@ -60,20 +237,42 @@ export class GCSService {
         contentType: 'application/zip',
         cacheControl: 'public, max-age=31536000',
         metadata: {
+          ...uploadOptions.metadata,
           sha256Hash: fileHash,
           uploadedBy: 'terraform-module-gcs-publisher-action',
-          uploadTimestamp: new Date().toISOString()
+          uploadTimestamp: new Date().toISOString(),
+          ...(uploadOptions.gitCommit && { gitCommit: uploadOptions.gitCommit })
         }
       },
       validation: 'crc32c',
       resumable: false
     }
 
+    if (onExisting !== 'overwrite') {
+      options.preconditionOpts = { ifGenerationMatch: 0 }
+    }
+
+    const predefinedAcl = getPredefinedAcl(access)
+    if (predefinedAcl) {
+      options.predefinedAcl = predefinedAcl
+    }
+
     core.info(`Uploading to: ${destination}`)
-    await bucket.upload(filePath, options)
+    try {
+      await bucket.upload(filePath, options)
+    } catch (error) {
+      if (isPreconditionFailed(error)) {
+        throw new Error(
+          `${destination} already exists in bucket ${bucketName}. Published versions are immutable; set on-existing to 'skip-if-identical' or 'overwrite' to change this.`
+        )
+      }
+      throw error
+    }
 
-    // Make the file publicly accessible
-    await bucket.file(destination).makePublic()
+    // Make the file publicly accessible; private objects rely on bucket IAM instead
+    if (access === 'public') {
+      await bucket.file(destination).makePublic()
+    }
 
     // Verify the upload was successful
     const [exists] = await bucket.file(destination).exists()
@@ -83,21 +282,88 @@ export class GCSService {
       )
     }
 
-    return `https://storage.googleapis.com/${bucketName}/${destination}`
+    return { url: publicUrl, uploaded: true }
+  }
+
+  /**
+   * Checks whether an object exists and reads the SHA-256 hash recorded in its metadata.
+   *
+   * @param bucketName - Name of the GCS bucket holding the object
+   * @param objectPath - Path of the object within the bucket
+   * @returns Whether the object exists, and its sha256Hash metadata when present
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   */
+  async inspectObject(
+    bucketName: string,
+    objectPath: string
+  ): Promise<{ exists: boolean; sha256Hash?: string }> {
+    const file = this.storage.bucket(bucketName).file(objectPath)
+    const [exists] = await file.exists()
+    if (!exists) {
+      return { exists }
+    }
+    const [metadata] = await file.getMetadata()
+    const sha256Hash = metadata.metadata?.sha256Hash
+    return {
+      exists,
+      sha256Hash: typeof sha256Hash === 'string' ? sha256Hash : undefined
+    }
+  }
+
+  /**
+   * Lists the archives that cleaning up old versions would delete, without deleting them.
+   * The aliases a run would point at the current version before cleaning up are taken
+   * as moved, just as updateAlias would move them, so they no longer keep the version
+   * they hold now.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
+   * @param moduleName - Name of the module used to identify version files
+   * @param currentVersion - The current version being uploaded (always kept)
+   * @param retention - Rules deciding which old versions are kept
+   * @param movedAliases - Object paths of the aliases that would be pointed at the
+   *    current version first
+   * @returns The object paths that would be deleted, newest first
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   */
+  async listVersionsToDelete(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string,
+    currentVersion: string,
+    retention: RetentionPolicy,
+    movedAliases: string[] = []
+  ): Promise<string[]> {
+    const { versionsToDelete } = await this.selectVersionsToDelete(
+      bucketName,
+      moduleFolder,
+      moduleName,
+      currentVersion,
+      retention,
+      movedAliases
+    )
+    return versionsToDelete.map((versionFile) => versionFile.file.name)
   }
 
   /**
-   * Cleans up old versions of the module while keeping the specified number of recent versions.
-   * This method retrieves all versions of a module, sorts them semantically,
-   * and deletes older versions exceeding the keepVersions limit.
+   * Cleans up old versions of the module according to a retention policy.
+   * This method retrieves all versions of a module, including pre-releases and versions
+   * with build metadata, and retires the ones the policy does not keep (see
+   * applyRetentionPolicy); versions an alias object points at are always kept. The
+   * rule that kept or removed each version is logged. Depending on the cleanup mode,
+   * retired versions are deleted, moved below the archive/ prefix, or rewritten in
+   * place to a colder storage class; archived and rewritten versions are tagged with
+   * a retiredAt metadata field.
    *
    * @param bucketName - Name of the GCS bucket containing module versions
    * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
    * @param moduleName - Name of the module used to identify version files
    * @param currentVersion - The current version being uploaded (will always be kept, not deleted)
-   * @param keepVersions - Number of recent versions to keep (including current version)
+   * @param retention - Rules deciding which old versions are kept
+   * @param mode - What to do with the removed versions (deleted by default)
+   * @returns The versions that were deleted or retired
    * @throws {Error} When the bucket doesn't exist or authentication fails
-   * @throws {Error} When file listing or deletion operations fail
+   * @throws {Error} When file listing, deletion, move or rewrite operations fail
    * @throws {Error} When there are problems parsing version numbers
    */
   async cleanupOldVersions(
@@ -105,61 +371,765 @@ export class GCSService {
     moduleFolder: string,
     moduleName: string,
     currentVersion: string,
-    keepVersions: number
+    retention: RetentionPolicy,
+    mode: CleanupMode = 'delete'
+  ): Promise<string[]> {
+    const { versionFiles, decisions, versionsToDelete } =
+      await this.selectVersionsToDelete(
+        bucketName,
+        moduleFolder,
+        moduleName,
+        currentVersion,
+        retention
+      )
+
+    // Explain which rule kept or removed each version
+    for (const decision of decisions) {
+      core.info(
+        `${decision.keep ? 'Keeping' : 'Removing'} ${decision.version}: ${decision.reason}`
+      )
+    }
+
+    // If the policy keeps every version, don't delete any
+    if (versionsToDelete.length === 0) {
+      core.info(
+        `No old versions to clean up (the retention policy keeps all ${versionFiles.length})`
+      )
+      return []
+    }
+
+    core.info(`Cleaning up ${versionsToDelete.length} old version(s)...`)
+
+    for (const versionFile of versionsToDelete) {
+      await this.retireVersion(bucketName, versionFile.file, mode)
+    }
+
+    core.info(
+      `Successfully cleaned up old versions, keeping ${versionFiles.length - versionsToDelete.length} older version(s).`
+    )
+
+    return versionsToDelete.map((versionFile) => versionFile.version)
+  }
+
+  /**
+   * Deletes an object from the bucket; objects that do not exist are ignored.
+   *
+   * @param bucketName - Name of the GCS bucket holding the object
+   * @param objectPath - Path of the object within the bucket
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   */
+  async deleteObject(bucketName: string, objectPath: string): Promise<void> {
+    await this.storage
+      .bucket(bucketName)
+      .file(objectPath)
+      .delete({ ignoreNotFound: true })
+  }
+
+  /**
+   * Writes a small text object, such as the signature published next to an archive.
+   *
+   * @param bucketName - Name of the GCS bucket
+   * @param destination - Path of the object within the bucket
+   * @param contents - Contents of the object
+   * @param contentType - MIME type of the contents
+   * @param access - Access to grant on the object (defaults to 'public')
+   * @throws {Error} When the object cannot be written
+   */
+  async saveObject(
+    bucketName: string,
+    destination: string,
+    contents: string,
+    contentType: string,
+    access: ModuleAccess = 'public'
   ): Promise<void> {
+    const file = this.storage.bucket(bucketName).file(destination)
+    await file.save(contents, {
+      contentType,
+      metadata: { cacheControl: 'no-cache, max-age=0' },
+      predefinedAcl: getPredefinedAcl(access),
+      resumable: false
+    })
+    if (access === 'public') {
+      await file.makePublic()
+    }
+  }
+
+  /**
+   * Reads a small object, such as the signature published next to an archive.
+   *
+   * @param bucketName - Name of the GCS bucket
+   * @param objectPath - Path of the object within the bucket
+   * @returns The contents of the object, or undefined when it does not exist
+   * @throws {Error} When the object exists but cannot be read
+   */
+  async readObject(
+    bucketName: string,
+    objectPath: string
+  ): Promise<string | undefined> {
+    try {
+      const [contents] = await this.storage
+        .bucket(bucketName)
+        .file(objectPath)
+        .download()
+      return contents.toString('utf8')
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Downloads an object to a local file, along with the size and checksums GCS reports
+   * for it. The download is pinned to the generation the metadata was read from, and
+   * the client's own checksum validation is turned off: a corrupted object is
+   * downloaded as is, so it can be examined instead of failing the download.
+   *
+   * @param bucketName - Name of the GCS bucket holding the object
+   * @param objectPath - Path of the object within the bucket
+   * @param destinationPath - Local path the object is written to
+   * @returns The size, MD5 hash and CRC32C checksum GCS reports for the object
+   * @throws {Error} When the object doesn't exist or cannot be downloaded
+   */
+  async downloadObject(
+    bucketName: string,
+    objectPath: string,
+    destinationPath: string
+  ): Promise<DownloadedObject> {
     const bucket = this.storage.bucket(bucketName)
+    const [metadata] = await bucket.file(objectPath).getMetadata()
+    await bucket
+      .file(objectPath, { generation: metadata.generation })
+      .download({ destination: destinationPath, validation: false })
 
-    // Get all versions
-    const [files] = await bucket.getFiles({
-      prefix: moduleFolder
+    return {
+      size: Number(metadata.size || 0),
+      md5Hash: metadata.md5Hash,
+      crc32c: metadata.crc32c
+    }
+  }
+
+  /**
+   * Yanks a published version: its archive stays in place, so configurations pinned
+   * to it keep working, but deprecation metadata (reason, replacement, who and when)
+   * is recorded on it for the versions index and the registry to flag it.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
+   * @param moduleName - Name of the module
+   * @param version - The version to yank
+   * @param details - Why the version is yanked and what to use instead
+   * @returns The object path of the yanked archive
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   * @throws {Error} When the version has not been published
+   */
+  async yankVersion(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string,
+    version: string,
+    details: YankDetails
+  ): Promise<string> {
+    const objectPath = `${moduleFolder}/${moduleName}-${version}.zip`
+    const file = this.storage.bucket(bucketName).file(objectPath)
+
+    const [exists] = await file.exists()
+    if (!exists) {
+      throw new Error(
+        `Version ${version} of module ${moduleName} is not published in bucket ${bucketName}`
+      )
+    }
+
+    core.info(`Yanking ${objectPath}: ${details.reason}`)
+    await file.setMetadata({
+      metadata: {
+        yankedAt: details.yankedAt,
+        yankReason: details.reason,
+        yankReplacement: details.replacement ?? null,
+        yankedBy: details.yankedBy ?? null
+      }
     })
 
-    // Filter to just the version files for this module and parse their versions
-    const versionFiles: Array<{ file: File; version: string }> = []
+    return objectPath
+  }
+
+  /**
+   * Brings a retired version back below its module folder.
+   * An archived version is moved back from the archive/ prefix (without replacing a
+   * version published since); a version retired in place is rewritten to the STANDARD
+   * storage class. The retiredAt metadata field is removed in both cases. An archived
+   * version's signature, provenance and descriptor are moved back with it and, like
+   * the archive, made public again with public access.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
+   * @param moduleName - Name of the module
+   * @param version - The version to restore
+   * @param access - Access to grant on the restored archive (defaults to 'public')
+   * @returns The object path of the restored archive
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   * @throws {Error} When the version is neither archived nor retired in place
+   * @throws {Error} When the version was published again since it was archived
+   */
+  async restoreVersion(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string,
+    version: string,
+    access: ModuleAccess = 'public'
+  ): Promise<string> {
+    const bucket = this.storage.bucket(bucketName)
+    const objectPath = `${moduleFolder}/${moduleName}-${version}.zip`
+    const archivePath = `${ARCHIVE_PREFIX}/${objectPath}`
+    const archived = bucket.file(archivePath)
+    const file = bucket.file(objectPath)
 
-    const moduleFileRegex = new RegExp(
-      `^${moduleFolder}/${moduleName}-(\\d+\\.\\d+\\.\\d+)\\.zip$`
+    const [archivedExists] = await archived.exists()
+    if (archivedExists) {
+      core.info(`Restoring ${archived.name} to ${objectPath}`)
+      try {
+        await archived.move(objectPath, {
+          preconditionOpts: { ifGenerationMatch: 0 }
+        })
+      } catch (error) {
+        if (isPreconditionFailed(error)) {
+          throw new Error(
+            `${objectPath} already exists in bucket ${bucketName}; the archived version cannot be restored over it`
+          )
+        }
+        throw error
+      }
+      await this.moveCompanions(bucketName, archivePath, objectPath, access)
+    } else {
+      const [exists] = await file.exists()
+      if (!exists) {
+        throw new Error(
+          `Version ${version} of module ${moduleName} was not found in bucket ${bucketName}, neither archived nor in place`
+        )
+      }
+      const [metadata] = await file.getMetadata()
+      if (!metadata.metadata?.retiredAt) {
+        throw new Error(
+          `Version ${version} of module ${moduleName} is not retired; there is nothing to restore`
+        )
+      }
+      core.info(
+        `Restoring ${objectPath} to the ${RESTORED_STORAGE_CLASS} storage class`
+      )
+      await file.setStorageClass(RESTORED_STORAGE_CLASS)
+    }
+
+    await file.setMetadata({ metadata: { retiredAt: null } })
+    if (access === 'public') {
+      await file.makePublic()
+    }
+
+    return objectPath
+  }
+
+  /**
+   * Updates a text document in the bucket without losing concurrent changes.
+   * The document is read together with its generation and written back with an
+   * ifGenerationMatch precondition (0 when it does not exist yet). When another writer
+   * changed it in between, the precondition fails and the whole read-modify-write
+   * cycle is retried, so concurrent publishers never overwrite each other's updates.
+   *
+   * @param bucketName - Name of the GCS bucket holding the document
+   * @param destination - Path of the document within the bucket
+   * @param update - Computes the new contents from the current ones (undefined when
+   *    the document does not exist yet); called again on every retry
+   * @param contentType - Content type of the document
+   * @param objectOptions - Access and cache control of the written document
+   * @returns The contents that were written
+   * @throws {Error} When the document keeps changing for MAX_UPDATE_ATTEMPTS attempts
+   * @throws {Error} When reading or writing the document fails otherwise
+   */
+  async updateTextObject(
+    bucketName: string,
+    destination: string,
+    update: (current: string | undefined) => string | Promise<string>,
+    contentType: string,
+    objectOptions: JsonObjectOptions = {}
+  ): Promise<string> {
+    const bucket = this.storage.bucket(bucketName)
+    const access = objectOptions.access || 'public'
+
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      let current: string | undefined
+      let generation = 0
+      try {
+        const [metadata] = await bucket.file(destination).getMetadata()
+        generation = Number(metadata.generation)
+        const [contents] = await bucket
+          .file(destination, { generation })
+          .download()
+        current = contents.toString('utf8')
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error
+        }
+        // The document was deleted or replaced while being read: start over
+        if (generation !== 0) {
+          continue
+        }
+      }
+
+      const contents = await update(current)
+      try {
+        await bucket.file(destination).save(contents, {
+          contentType,
+          metadata: {
+            cacheControl: objectOptions.cacheControl || 'no-cache, max-age=0',
+            metadata: objectOptions.metadata
+          },
+          predefinedAcl: getPredefinedAcl(access),
+          preconditionOpts: { ifGenerationMatch: generation },
+          resumable: false
+        })
+      } catch (error) {
+        if (!isPreconditionFailed(error)) {
+          throw error
+        }
+        core.info(
+          `${destination} was changed by another writer, retrying (attempt ${attempt} of ${MAX_UPDATE_ATTEMPTS})`
+        )
+        await new Promise((resolve) =>
+          setTimeout(resolve, UPDATE_RETRY_DELAY_MS * attempt)
+        )
+        continue
+      }
+
+      if (access === 'public') {
+        await bucket.file(destination).makePublic()
+      }
+      return contents
+    }
+
+    throw new Error(
+      `Unable to update ${destination} in bucket ${bucketName}: it kept changing after ${MAX_UPDATE_ATTEMPTS} attempts`
+    )
+  }
+
+  /**
+   * Updates a JSON document in the bucket without losing concurrent changes, with
+   * the read-modify-write cycle of updateTextObject.
+   *
+   * @param bucketName - Name of the GCS bucket holding the document
+   * @param destination - Path of the document within the bucket
+   * @param update - Computes the new document from the current one (undefined when
+   *    the document does not exist yet); called again on every retry
+   * @param jsonOptions - Access and cache control of the written document
+   * @returns The document that was written
+   * @throws {Error} When the document exists but is not valid JSON
+   * @throws {Error} When the document keeps changing for MAX_UPDATE_ATTEMPTS attempts
+   * @throws {Error} When reading or writing the document fails otherwise
+   */
+  async updateJsonObject<T>(
+    bucketName: string,
+    destination: string,
+    update: (current: T | undefined) => T | Promise<T>,
+    jsonOptions: JsonObjectOptions = {}
+  ): Promise<T> {
+    let document: T | undefined
+    await this.updateTextObject(
+      bucketName,
+      destination,
+      async (contents) => {
+        let current: T | undefined
+        if (contents !== undefined) {
+          try {
+            current = JSON.parse(contents) as T
+          } catch (error) {
+            throw new Error(
+              `Unable to update ${destination}: it does not contain valid JSON (${error instanceof Error ? error.message : String(error)})`
+            )
+          }
+        }
+        document = await update(current)
+        return JSON.stringify(document, null, 2)
+      },
+      'application/json',
+      jsonOptions
     )
+    return document as T
+  }
 
+  /**
+   * Lists the published versions of a module with the details recorded in their metadata.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
+   * @param moduleName - Name of the module used to identify version files
+   * @returns The published versions, newest first (versions retired in place are left out)
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   */
+  async listModuleVersions(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string
+  ): Promise<VersionIndexEntry[]> {
+    const [files] = await this.storage
+      .bucket(bucketName)
+      .getFiles({ prefix: `${moduleFolder}/${moduleName}-` })
+
+    const entries: VersionIndexEntry[] = []
     for (const file of files) {
-      const match = file.name.match(moduleFileRegex)
-      if (match && match[1]) {
-        const version = match[1]
-        // Skip the current version being uploaded
-        if (version !== currentVersion) {
-          versionFiles.push({
-            file,
-            version
-          })
+      const version = parseArchiveVersion(file.name, moduleFolder, moduleName)
+      if (!version || isRetired(file)) {
+        continue
+      }
+      entries.push(toVersionEntry(file, version))
+    }
+
+    return entries.sort((a, b) =>
+      compareVersionsDescending(a.version, b.version)
+    )
+  }
+
+  /**
+   * Rewrites the versions.json index of a module from the archives in the bucket.
+   * The index lists every published version with its sha256, size, upload timestamp
+   * and git commit, so tooling can discover versions without listing the bucket.
+   * It is rebuilt from a fresh listing on every attempt of the read-modify-write
+   * cycle, so versions published or deleted concurrently are never lost.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
+   * @param moduleName - Name of the module used to identify version files
+   * @param access - Access granted on the index, normally the same as on the archives
+   * @returns The index that was written
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   * @throws {Error} When the index cannot be written
+   */
+  async updateVersionIndex(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string,
+    access: ModuleAccess = 'public'
+  ): Promise<VersionIndex> {
+    const destination = `${moduleFolder}/versions.json`
+    const index = await this.updateJsonObject<VersionIndex>(
+      bucketName,
+      destination,
+      async () => ({
+        module: moduleName,
+        updated: new Date().toISOString(),
+        versions: await this.listModuleVersions(
+          bucketName,
+          moduleFolder,
+          moduleName
+        )
+      }),
+      { access }
+    )
+    core.info(`Updated ${destination} with ${index.versions.length} version(s)`)
+    return index
+  }
+
+  /**
+   * Rewrites the SHA256SUMS manifest of a module from the archives in the bucket, in
+   * the format of `sha256sum`, so downloads over plain HTTPS (which cannot see the
+   * sha256Hash metadata) can be checked with `sha256sum -c`. Like the versions.json
+   * index, it is rebuilt from a fresh listing on every attempt of the read-modify-write
+   * cycle. Versions uploaded without a recorded hash are left out.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions (e.g., 'modules/my-module')
+   * @param moduleName - Name of the module used to identify version files
+   * @param access - Access granted on the manifest, normally the same as on the archives
+   * @returns The manifest that was written
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   * @throws {Error} When the manifest cannot be written
+   */
+  async updateChecksumManifest(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string,
+    access: ModuleAccess = 'public'
+  ): Promise<string> {
+    const destination = `${moduleFolder}/${CHECKSUM_MANIFEST_NAME}`
+    let count = 0
+    const manifest = await this.updateTextObject(
+      bucketName,
+      destination,
+      async () => {
+        const versions = (
+          await this.listModuleVersions(bucketName, moduleFolder, moduleName)
+        ).filter((entry) => entry.sha256)
+        count = versions.length
+        return versions
+          .map(
+            (entry) => `${entry.sha256}  ${moduleName}-${entry.version}.zip\n`
+          )
+          .join('')
+      },
+      'text/plain; charset=utf-8',
+      { access }
+    )
+    core.info(`Updated ${destination} with ${count} version(s)`)
+    return manifest
+  }
+
+  /**
+   * Points an alias object (e.g. modules/vpc/vpc-latest.zip or vpc-1.x.zip) at a
+   * published archive by copying the archive over it inside the bucket. The alias
+   * records the version it holds in its aliasVersion metadata field and only moves
+   * forward in semver order: it is left alone when it already holds a newer version,
+   * or the same version with the same contents. The copy is made with an
+   * ifGenerationMatch precondition on the alias read, and retried when another
+   * publisher moved the alias in between. Aliases are served with a short cache
+   * control, as their contents change.
+   *
+   * @param bucketName - Name of the GCS bucket
+   * @param archivePath - Object path of the published archive
+   * @param aliasPath - Object path of the alias
+   * @param version - Version of the published archive
+   * @param access - Access to grant on the alias (defaults to 'public')
+   * @returns True when the alias was moved to the version
+   * @throws {Error} When the alias keeps changing for MAX_UPDATE_ATTEMPTS attempts
+   * @throws {Error} When the archive cannot be read or the alias cannot be written
+   */
+  async updateAlias(
+    bucketName: string,
+    archivePath: string,
+    aliasPath: string,
+    version: string,
+    access: ModuleAccess = 'public'
+  ): Promise<boolean> {
+    const bucket = this.storage.bucket(bucketName)
+    const [archiveMetadata] = await bucket.file(archivePath).getMetadata()
+    const sha256Hash = archiveMetadata.metadata?.sha256Hash
+
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      let generation = 0
+      try {
+        const [metadata] = await bucket.file(aliasPath).getMetadata()
+        generation = Number(metadata.generation)
+        const aliasVersion = metadata.metadata?.aliasVersion
+        if (typeof aliasVersion === 'string' && semver.valid(aliasVersion)) {
+          const order = compareVersionsDescending(version, aliasVersion)
+          if (
+            order > 0 ||
+            (order === 0 && metadata.metadata?.sha256Hash === sha256Hash)
+          ) {
+            core.info(`${aliasPath} already points at ${aliasVersion}`)
+            return false
+          }
+        }
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error
         }
       }
+
+      try {
+        await bucket.file(archivePath).copy(bucket.file(aliasPath), {
+          contentType: 'application/zip',
+          cacheControl: ALIAS_CACHE_CONTROL,
+          metadata: { ...archiveMetadata.metadata, aliasVersion: version },
+          predefinedAcl: getPredefinedAcl(access),
+          preconditionOpts: { ifGenerationMatch: generation }
+        })
+      } catch (error) {
+        if (!isPreconditionFailed(error)) {
+          throw error
+        }
+        core.info(
+          `${aliasPath} was changed by another writer, retrying (attempt ${attempt} of ${MAX_UPDATE_ATTEMPTS})`
+        )
+        await new Promise((resolve) =>
+          setTimeout(resolve, UPDATE_RETRY_DELAY_MS * attempt)
+        )
+        continue
+      }
+
+      if (access === 'public') {
+        await bucket.file(aliasPath).makePublic()
+      }
+      core.info(`Pointed ${aliasPath} at ${version}`)
+      return true
     }
 
-    // If we don't have more versions than we want to keep, don't delete any
-    if (versionFiles.length <= keepVersions) {
-      core.info(
-        `No old versions to clean up (keeping ${keepVersions}, found ${versionFiles.length})`
-      )
+    throw new Error(
+      `Unable to update ${aliasPath} in bucket ${bucketName}: it kept changing after ${MAX_UPDATE_ATTEMPTS} attempts`
+    )
+  }
+
+  /**
+   * Moves the signature and provenance objects of an archive along with it; archives
+   * published before they were generated have none. A companion never replaces an
+   * object already at its destination: it is left where it is, with a warning. A move
+   * rewrites the object without its ACLs, so public companions are made public again.
+   *
+   * @param bucketName - Name of the GCS bucket
+   * @param from - Previous object path of the archive
+   * @param to - New object path of the archive
+   * @param access - Access to grant on the moved companions; none is granted when
+   *    undefined
+   * @throws {Error} When a companion object exists but cannot be moved
+   */
+  private async moveCompanions(
+    bucketName: string,
+    from: string,
+    to: string,
+    access?: ModuleAccess
+  ): Promise<void> {
+    const bucket = this.storage.bucket(bucketName)
+    const destinations = getCompanionPaths(to)
+    for (const [index, companion] of getCompanionPaths(from).entries()) {
+      try {
+        await bucket.file(companion).move(destinations[index], {
+          preconditionOpts: { ifGenerationMatch: 0 }
+        })
+      } catch (error) {
+        if (isPreconditionFailed(error)) {
+          core.warning(
+            `${destinations[index]} already exists in bucket ${bucketName}; leaving ${companion} in place`
+          )
+          continue
+        }
+        if (!isNotFound(error)) {
+          throw error
+        }
+        continue
+      }
+      if (access === 'public') {
+        await bucket.file(destinations[index]).makePublic()
+      }
+    }
+  }
+
+  /**
+   * Retires one version removed by the retention policy, together with its signature
+   * and provenance statement.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param file - The archive object of the version
+   * @param mode - Whether to delete, archive or rewrite the object to a colder storage class
+   * @throws {Error} When the deletion, move or rewrite fails
+   */
+  private async retireVersion(
+    bucketName: string,
+    file: File,
+    mode: CleanupMode
+  ): Promise<void> {
+    const bucket = this.storage.bucket(bucketName)
+    if (mode === 'delete') {
+      core.info(`Deleting old version: ${file.name}`)
+      await file.delete()
+      for (const companion of getCompanionPaths(file.name)) {
+        await bucket.file(companion).delete({ ignoreNotFound: true })
+      }
       return
     }
 
-    // Sort by semver (newest first)
-    versionFiles.sort((a, b) => {
-      return semver.compare(b.version, a.version)
-    })
+    const retiredAt = new Date().toISOString()
+    if (mode === 'archive') {
+      const archivePath = `${ARCHIVE_PREFIX}/${file.name}`
+      core.info(`Archiving old version: ${file.name} to ${archivePath}`)
+      await file.move(archivePath)
+      await bucket.file(archivePath).setMetadata({ metadata: { retiredAt } })
+      await this.moveCompanions(bucketName, file.name, archivePath)
+      return
+    }
 
-    // Keep the newest N versions, delete the rest
-    const versionsToDelete = versionFiles.slice(keepVersions)
+    const storageClass = mode.slice('storage-class:'.length)
+    core.info(
+      `Moving old version: ${file.name} to storage class ${storageClass}`
+    )
+    await file.setStorageClass(storageClass)
+    await file.setMetadata({ metadata: { retiredAt } })
+  }
 
-    core.info(`Cleaning up ${versionsToDelete.length} old version(s)...`)
+  /**
+   * Selects the old versions of a module that the retention policy does not keep.
+   * Versions an alias object points at are always kept.
+   *
+   * @param bucketName - Name of the GCS bucket containing module versions
+   * @param moduleFolder - Folder path in the bucket containing the module versions
+   * @param moduleName - Name of the module used to identify version files
+   * @param currentVersion - The current version being uploaded (never selected)
+   * @param retention - Rules deciding which old versions are kept
+   * @param movedAliases - Object paths of the aliases that are yet to be pointed at the
+   *    current version; those updateAlias would move keep it instead of their version
+   * @returns Every old version found, the decision about each of them and the ones to
+   *    delete, newest first
+   * @throws {Error} When the bucket doesn't exist or authentication fails
+   */
+  private async selectVersionsToDelete(
+    bucketName: string,
+    moduleFolder: string,
+    moduleName: string,
+    currentVersion: string,
+    retention: RetentionPolicy,
+    movedAliases: string[] = []
+  ): Promise<{
+    versionFiles: Array<{ file: File; version: string }>
+    decisions: RetentionDecision[]
+    versionsToDelete: Array<{ file: File; version: string }>
+  }> {
+    const bucket = this.storage.bucket(bucketName)
 
-    for (const versionFile of versionsToDelete) {
-      core.info(`Deleting old version: ${versionFile.file.name}`)
-      await versionFile.file.delete()
+    // Get all versions
+    const [files] = await bucket.getFiles({
+      prefix: moduleFolder
+    })
+
+    // Filter to just the version files for this module and parse their versions,
+    // noting the versions aliases point at
+    const versionFiles: Array<{ file: File; version: string }> = []
+    const aliasTargets = new Map<string, string[]>()
+    for (const file of files) {
+      const version = parseArchiveVersion(file.name, moduleFolder, moduleName)
+      const aliasVersion = file.metadata.metadata?.aliasVersion
+      if (
+        !version &&
+        typeof aliasVersion === 'string' &&
+        file.name.startsWith(`${moduleFolder}/${moduleName}-`) &&
+        !(
+          movedAliases.includes(file.name) &&
+          movesAlias(currentVersion, aliasVersion)
+        )
+      ) {
+        aliasTargets.set(aliasVersion, [
+          ...(aliasTargets.get(aliasVersion) || []),
+          file.name.slice(moduleFolder.length + 1)
+        ])
+      }
+      // Skip the current version being uploaded and versions already retired
+      if (version && version !== currentVersion && !isRetired(file)) {
+        versionFiles.push({ file, version })
+      }
     }
 
-    core.info(
-      `Successfully cleaned up old versions, keeping the ${keepVersions} most recent.`
+    const filesByVersion = new Map(
+      versionFiles.map((versionFile) => [versionFile.version, versionFile.file])
     )
+    const decisions = applyRetentionPolicy(
+      versionFiles.map((versionFile) =>
+        toVersionEntry(versionFile.file, versionFile.version)
+      ),
+      retention,
+      currentVersion
+    ).map((decision): RetentionDecision => {
+      // The target of an alias is never removed, whatever the policy says
+      const aliases = aliasTargets.get(decision.version)
+      return !decision.keep && aliases
+        ? {
+            version: decision.version,
+            keep: true,
+            reason: `target of ${aliases.join(', ')}`
+          }
+        : decision
+    })
+    const versionsToDelete = decisions
+      .filter((decision) => !decision.keep)
+      .map((decision) => ({
+        file: filesByVersion.get(decision.version) as File,
+        version: decision.version
+      }))
+
+    return { versionFiles, decisions, versionsToDelete }
   }
 }
@@ -0,0 +1,580 @@
+/**
+ * @fileoverview Archive utilities for the terraform-module-gcs-publisher.
+ * This module builds zip archives of Terraform modules in pure Node.js, without relying
+ * on a system `zip` binary. Files are streamed through a deflate stream straight into the
+ * output file, so memory usage stays flat regardless of module size.
+ *
+ * Archives are reproducible: entries are sorted, timestamps are fixed and permissions are
+ * normalized, so identical module content always produces byte-identical zips and
+ * therefore the same SHA-256 hash.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { Transform, TransformCallback } from 'stream'
+import { pipeline } from 'stream/promises'
+import { ArchiveOptions } from '../interfaces'
+import {
+  GlobRule,
+  compileGlob,
+  isIgnored,
+  matchesAny,
+  parseIgnoreFile
+} from './glob-utils'
+
+/** Zip record signatures (see PKWARE APPNOTE section 4.3) */
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+/** Version 2.0 is required for deflate; the high byte marks the archive as made on Unix */
+const VERSION_NEEDED = 20
+const VERSION_MADE_BY = (3 << 8) | VERSION_NEEDED
+
+/** General purpose flag bit 11: file names are encoded as UTF-8 */
+const UTF8_FLAG = 0x0800
+const DEFLATE_METHOD = 8
+
+/** Every entry is stamped 1980-01-01 00:00:00, the earliest date a zip header can hold */
+const FIXED_DOS_TIME = 0
+const FIXED_DOS_DATE = (1 << 5) | 1
+
+/** Normalized regular-file modes: rw-r--r-- or, if any execute bit is set, rwxr-xr-x */
+const FILE_MODE = 0o100644
+const EXECUTABLE_FILE_MODE = 0o100755
+
+/** Limits of the classic (non-Zip64) format */
+const MAX_ENTRIES = 0xffff
+const MAX_SIZE = 0xffffffff
+
+/**
+ * A regular file that will be written to the archive.
+ */
+interface ArchiveSource {
+  /** Path of the entry inside the archive, always using forward slashes */
+  name: string
+  /** Absolute path of the file contents on disk (symlinks already resolved) */
+  absolutePath: string
+  /** Permission bits of the file, used to decide whether it is executable */
+  mode: number
+}
+
+/**
+ * Central directory record for an entry that has already been written.
+ */
+interface WrittenEntry {
+  name: Buffer
+  crc: number
+  compressedSize: number
+  size: number
+  externalAttributes: number
+  offset: number
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * Updates a running CRC-32 checksum with a chunk of data.
+ *
+ * @param crc - The checksum of the previous chunks (0 for the first chunk)
+ * @param chunk - Data to add to the checksum
+ * @returns The updated checksum
+ */
+function updateCrc32(crc: number, chunk: Buffer): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC32_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8)
+  }
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Pass-through stream that records the CRC-32 and length of the data flowing through it.
+ */
+class ChecksumStream extends Transform {
+  crc = 0
+  size = 0
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.crc = updateCrc32(this.crc, chunk)
+    this.size += chunk.length
+    callback(null, chunk)
+  }
+}
+
+/**
+ * Patterns that are never packaged: git metadata (the .git directory, .github
+ * workflows, .gitignore and friends), macOS .DS_Store files and Terraform's local
+ * .terraform working directory. A .terraformignore file can re-include paths with `!`.
+ */
+const DEFAULT_EXCLUDES = ['.git*', '.DS_Store', '.terraform/']
+
+/** Name of the ignore file honored in the module root, as in Terraform Cloud */
+const TERRAFORM_IGNORE_FILE = '.terraformignore'
+
+/**
+ * Compiled packaging rules for a module.
+ */
+interface PathFilter {
+  /** Ignore rules, evaluated gitignore-style (last match wins) */
+  ignore: GlobRule[]
+  /** Allowlist of file patterns; when empty every file not ignored is packaged */
+  include: GlobRule[]
+}
+
+/**
+ * Builds the packaging rules for a module from the built-in defaults, the module's
+ * .terraformignore file and the user-supplied include/exclude patterns, in that order.
+ *
+ * @param rootPath - Real path of the module root
+ * @param options - User-supplied include/exclude patterns
+ * @returns The compiled filter
+ * @throws {Error} When the .terraformignore file exists but cannot be read
+ * @throws {Error} When a pattern is invalid
+ */
+async function loadPathFilter(
+  rootPath: string,
+  options: ArchiveOptions
+): Promise<PathFilter> {
+  const ignore = DEFAULT_EXCLUDES.map(compileGlob)
+
+  try {
+    const content = await fs.promises.readFile(
+      path.join(rootPath, TERRAFORM_IGNORE_FILE),
+      'utf8'
+    )
+    ignore.push(...parseIgnoreFile(content))
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ENOENT') {
+      throw new Error(
+        `Unable to read ${TERRAFORM_IGNORE_FILE}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  ignore.push(...(options.exclude || []).map(compileGlob))
+
+  return {
+    ignore,
+    include: (options.include || []).map(compileGlob)
+  }
+}
+
+/**
+ * Checks whether a resolved path is located inside a root directory.
+ *
+ * @param rootPath - Real path of the module root
+ * @param targetPath - Real path to check
+ * @returns True when targetPath is rootPath itself or one of its descendants
+ */
+function isInside(rootPath: string, targetPath: string): boolean {
+  const relative = path.relative(rootPath, targetPath)
+  return (
+    relative === '' ||
+    (!relative.startsWith('..') && !path.isAbsolute(relative))
+  )
+}
+
+/**
+ * Recursively collects the files to archive from a module directory.
+ * Symlinks are followed as long as they resolve to a location inside the module;
+ * links that escape the module are rejected so an archive can never pick up
+ * unrelated files from the runner.
+ *
+ * @param rootPath - Real path of the module root
+ * @param directoryPath - Directory currently being walked
+ * @param prefix - Archive path of the current directory ('' for the root)
+ * @param ancestors - Real paths of the directories being walked, to break symlink cycles
+ * @param filter - Rules deciding which paths are packaged
+ * @returns The files found below directoryPath
+ * @throws {Error} When a directory cannot be read
+ * @throws {Error} When a symlink is broken or points outside the module
+ */
+async function collectFiles(
+  rootPath: string,
+  directoryPath: string,
+  prefix: string,
+  ancestors: Set<string>,
+  filter: PathFilter
+): Promise<ArchiveSource[]> {
+  let dirents: fs.Dirent[]
+  try {
+    dirents = await fs.promises.readdir(directoryPath, { withFileTypes: true })
+  } catch (error) {
+    throw new Error(
+      `Unable to read directory ${directoryPath}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const sources: ArchiveSource[] = []
+
+  for (const dirent of dirents) {
+    const name = prefix ? `${prefix}/${dirent.name}` : dirent.name
+    let absolutePath = path.join(directoryPath, dirent.name)
+
+    // Evaluate the rules before resolving symlinks, so an excluded link is never followed
+    const isDirectory = dirent.isSymbolicLink()
+      ? await fs.promises.stat(absolutePath).then(
+          (stats) => stats.isDirectory(),
+          () => false
+        )
+      : dirent.isDirectory()
+    if (isIgnored(filter.ignore, name, isDirectory)) {
+      continue
+    }
+
+    if (dirent.isSymbolicLink()) {
+      let target: string
+      try {
+        target = await fs.promises.realpath(absolutePath)
+      } catch (error) {
+        throw new Error(
+          `Unable to resolve symlink ${name}: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+      if (!isInside(rootPath, target)) {
+        throw new Error(
+          `Symlink ${name} points outside the module directory (${target})`
+        )
+      }
+      absolutePath = target
+    }
+
+    const stats = await fs.promises.stat(absolutePath)
+
+    if (stats.isDirectory()) {
+      const realPath = await fs.promises.realpath(absolutePath)
+      if (ancestors.has(realPath)) {
+        continue
+      }
+      sources.push(
+        ...(await collectFiles(
+          rootPath,
+          absolutePath,
+          name,
+          new Set([...ancestors, realPath]),
+          filter
+        ))
+      )
+    } else if (
+      stats.isFile() &&
+      (filter.include.length === 0 || matchesAny(filter.include, name))
+    ) {
+      sources.push({ name, absolutePath, mode: stats.mode })
+    }
+  }
+
+  return sources
+}
+
+/**
+ * Streams a single file into the archive.
+ * The local header is written first with empty checksum and size fields, the file is
+ * piped through a checksum and a deflate stream, and the header is patched afterwards.
+ *
+ * @param handle - Open handle of the archive being written
+ * @param offset - Position in the archive where the entry starts
+ * @param source - The file to add
+ * @returns The central directory record for the entry
+ * @throws {Error} When the file cannot be read
+ */
+async function writeEntry(
+  handle: fs.promises.FileHandle,
+  offset: number,
+  source: ArchiveSource
+): Promise<WrittenEntry> {
+  const name = Buffer.from(source.name, 'utf8')
+
+  const header = Buffer.alloc(30 + name.length)
+  header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+  header.writeUInt16LE(VERSION_NEEDED, 4)
+  header.writeUInt16LE(UTF8_FLAG, 6)
+  header.writeUInt16LE(DEFLATE_METHOD, 8)
+  header.writeUInt16LE(FIXED_DOS_TIME, 10)
+  header.writeUInt16LE(FIXED_DOS_DATE, 12)
+  // CRC-32 and sizes (offsets 14-25) are patched once the data is written
+  header.writeUInt16LE(name.length, 26)
+  header.writeUInt16LE(0, 28)
+  name.copy(header, 30)
+  await handle.write(header, 0, header.length, offset)
+
+  const checksum = new ChecksumStream()
+  const dataOffset = offset + header.length
+  let compressedSize = 0
+
+  try {
+    await pipeline(
+      fs.createReadStream(source.absolutePath),
+      checksum,
+      // A pinned compression level keeps the output stable across zlib defaults
+      zlib.createDeflateRaw({ level: zlib.constants.Z_BEST_COMPRESSION }),
+      async (compressed: AsyncIterable<Buffer>) => {
+        for await (const chunk of compressed) {
+          await handle.write(
+            chunk,
+            0,
+            chunk.length,
+            dataOffset + compressedSize
+          )
+          compressedSize += chunk.length
+        }
+      }
+    )
+  } catch (error) {
+    throw new Error(
+      `Unable to read file ${source.name}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  if (compressedSize > MAX_SIZE || checksum.size > MAX_SIZE) {
+    throw new Error(`File ${source.name} is too large to be archived`)
+  }
+
+  const sizes = Buffer.alloc(12)
+  sizes.writeUInt32LE(checksum.crc, 0)
+  sizes.writeUInt32LE(compressedSize, 4)
+  sizes.writeUInt32LE(checksum.size, 8)
+  await handle.write(sizes, 0, sizes.length, offset + 14)
+
+  return {
+    name,
+    crc: checksum.crc,
+    compressedSize,
+    size: checksum.size,
+    externalAttributes:
+      ((source.mode & 0o111 ? EXECUTABLE_FILE_MODE : FILE_MODE) << 16) >>> 0,
+    offset
+  }
+}
+
+/**
+ * Writes the central directory and the end of central directory record.
+ *
+ * @param handle - Open handle of the archive being written
+ * @param offset - Position in the archive where the central directory starts
+ * @param entries - Records of all entries written to the archive
+ */
+async function writeCentralDirectory(
+  handle: fs.promises.FileHandle,
+  offset: number,
+  entries: WrittenEntry[]
+): Promise<void> {
+  const records = entries.map((entry) => {
+    const record = Buffer.alloc(46 + entry.name.length)
+    record.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+    record.writeUInt16LE(VERSION_MADE_BY, 4)
+    record.writeUInt16LE(VERSION_NEEDED, 6)
+    record.writeUInt16LE(UTF8_FLAG, 8)
+    record.writeUInt16LE(DEFLATE_METHOD, 10)
+    record.writeUInt16LE(FIXED_DOS_TIME, 12)
+    record.writeUInt16LE(FIXED_DOS_DATE, 14)
+    record.writeUInt32LE(entry.crc, 16)
+    record.writeUInt32LE(entry.compressedSize, 20)
+    record.writeUInt32LE(entry.size, 24)
+    record.writeUInt16LE(entry.name.length, 28)
+    // Extra field, comment, disk number and internal attributes are all zero
+    record.writeUInt32LE(entry.externalAttributes, 38)
+    record.writeUInt32LE(entry.offset, 42)
+    entry.name.copy(record, 46)
+    return record
+  })
+  const centralDirectory = Buffer.concat(records)
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  const trailer = Buffer.concat([centralDirectory, end])
+  await handle.write(trailer, 0, trailer.length, offset)
+}
+
+/**
+ * Builds a zip archive from a module directory without using any external binary.
+ * Git metadata, .DS_Store files and .terraform directories are skipped, as are paths
+ * matched by the module's .terraformignore or the exclude patterns; when include
+ * patterns are given, only matching files are packaged. Symlinks inside the module
+ * are followed, and every file is deflate-compressed. Entries are written in byte order
+ * of their paths with a fixed timestamp and normalized permissions, so the archive
+ * depends only on file names and contents.
+ *
+ * @param sourcePath - Path to the module directory to be archived
+ * @param outputPath - Path where the zip archive will be created (overwritten if present)
+ * @param options - Include/exclude patterns applied on top of .terraformignore
+ * @returns The archive paths of the files that were packaged
+ * @throws {Error} When the source path is not a directory
+ * @throws {Error} When a file or directory in the module cannot be read
+ * @throws {Error} When an include/exclude or .terraformignore pattern is invalid
+ * @throws {Error} When a symlink is broken or points outside the module directory
+ * @throws {Error} When the module exceeds the limits of the zip format
+ */
+export async function buildZipArchive(
+  sourcePath: string,
+  outputPath: string,
+  options: ArchiveOptions = {}
+): Promise<string[]> {
+  const rootPath = await fs.promises.realpath(sourcePath)
+  if (!(await fs.promises.stat(rootPath)).isDirectory()) {
+    throw new Error(`Source path ${sourcePath} is not a directory`)
+  }
+
+  const filter = await loadPathFilter(rootPath, options)
+
+  // Never package a previous archive written inside the module directory
+  const archivePath = path.resolve(outputPath)
+  const sources = (
+    await collectFiles(rootPath, rootPath, '', new Set([rootPath]), filter)
+  )
+    .filter((source) => source.absolutePath !== archivePath)
+    .sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)))
+  if (sources.length > MAX_ENTRIES) {
+    throw new Error(
+      `Module contains ${sources.length} files, more than the ${MAX_ENTRIES} a zip archive supports`
+    )
+  }
+
+  const handle = await fs.promises.open(outputPath, 'w')
+  try {
+    const entries: WrittenEntry[] = []
+    let offset = 0
+
+    for (const source of sources) {
+      const entry = await writeEntry(handle, offset, source)
+      entries.push(entry)
+      offset += 30 + entry.name.length + entry.compressedSize
+      if (offset > MAX_SIZE) {
+        throw new Error('Module archive exceeds the 4 GiB zip size limit')
+      }
+    }
+
+    await writeCentralDirectory(handle, offset, entries)
+  } catch (error) {
+    await handle.close()
+    await fs.promises.rm(outputPath, { force: true })
+    throw error
+  }
+  await handle.close()
+
+  return sources.map((source) => source.name)
+}
+
+/**
+ * Checks whether a zip archive ends with its central directory and end of central
+ * directory record, as the archives built by buildZipArchive do. An archive cut short
+ * loses them, so this tells a truncated archive apart from one whose bytes changed.
+ *
+ * @param zipPath - Path of the zip archive
+ * @returns True when the end of central directory record closes the archive and the
+ *    central directory it describes ends right before it
+ * @throws {Error} When the archive cannot be read
+ */
+export async function isCompleteZipArchive(zipPath: string): Promise<boolean> {
+  const handle = await fs.promises.open(zipPath, 'r')
+  try {
+    const { size } = await handle.stat()
+    if (size < 22) {
+      return false
+    }
+    const end = Buffer.alloc(22)
+    await handle.read(end, 0, 22, size - 22)
+    return (
+      end.readUInt32LE(0) === END_OF_CENTRAL_DIRECTORY_SIGNATURE &&
+      end.readUInt32LE(16) + end.readUInt32LE(12) === size - 22
+    )
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Extracts a zip archive into a directory. The archive is read into memory, which
+ * suits module archives; stored and deflated entries are supported, as written by
+ * buildZipArchive and common zip tools.
+ *
+ * @param zipPath - Path of the zip archive
+ * @param destination - Directory the entries are written to (created when missing)
+ * @returns The names of the extracted files, in archive order
+ * @throws {Error} When the archive cannot be read or is not a zip archive
+ * @throws {Error} When an entry uses another compression method or would be written
+ *    outside the destination
+ */
+export async function extractZipArchive(
+  zipPath: string,
+  destination: string
+): Promise<string[]> {
+  const data = await fs.promises.readFile(zipPath)
+  // The end of central directory record is followed by a comment of up to 64 KiB
+  let end = data.length - 22
+  while (
+    end >= Math.max(0, data.length - 22 - 0xffff) &&
+    data.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE
+  ) {
+    end--
+  }
+  if (
+    end < 0 ||
+    data.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE
+  ) {
+    throw new Error(`${zipPath} is not a zip archive`)
+  }
+
+  const root = path.resolve(destination)
+  const names: string[] = []
+  let offset = data.readUInt32LE(end + 16)
+  for (let index = 0; index < data.readUInt16LE(end + 10); index++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`${zipPath} has a corrupted central directory`)
+    }
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localOffset = data.readUInt32LE(offset + 42)
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    const target = path.resolve(root, name)
+    if (!target.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`${zipPath} has an entry outside the archive: ${name}`)
+    }
+    if (name.endsWith('/')) {
+      continue
+    }
+    if (method !== DEFLATE_METHOD && method !== 0) {
+      throw new Error(
+        `${zipPath} has an entry with an unsupported compression method: ${name}`
+      )
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      data.readUInt16LE(localOffset + 26) +
+      data.readUInt16LE(localOffset + 28)
+    const compressed = data.subarray(dataStart, dataStart + compressedSize)
+    await fs.promises.mkdir(path.dirname(target), { recursive: true })
+    await fs.promises.writeFile(
+      target,
+      method === DEFLATE_METHOD ? zlib.inflateRawSync(compressed) : compressed
+    )
+    names.push(name)
+  }
+  return names
+}
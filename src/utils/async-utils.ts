@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Async utilities for the terraform-module-gcs-publisher.
+ * This module provides helpers for running asynchronous work with bounded
+ * parallelism, used when publishing many modules in a single run.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+/**
+ * Maps items through an async function, running at most `limit` calls at a time.
+ * Results are returned in the order of the input items, regardless of completion order.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async function applied to each item
+ * @returns The results in input order
+ * @throws {Error} When fn rejects; remaining in-flight calls are still awaited
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker
+  )
+  const outcomes = await Promise.allSettled(workers)
+  const failure = outcomes.find(
+    (outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'
+  )
+  if (failure) {
+    throw failure.reason
+  }
+
+  return results
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Authentication utilities for the terraform-module-gcs-publisher.
+ * This module implements keyless authentication through Workload Identity Federation:
+ * the GitHub OIDC token of the running job is written to disk and referenced from an
+ * `external_account` credentials file, which the Google client libraries exchange for
+ * short-lived GCP credentials at the Security Token Service (STS).
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+import { ExternalAccountConfig, TokenEndpoints } from '../interfaces'
+
+/** Google Security Token Service endpoint used to exchange the OIDC token */
+export const DEFAULT_STS_TOKEN_URL = 'https://sts.googleapis.com/v1/token'
+
+/** IAM Credentials API endpoint used to impersonate a service account */
+export const DEFAULT_IAM_CREDENTIALS_URL =
+  'https://iamcredentials.googleapis.com/v1'
+
+/**
+ * Builds an external account credentials configuration for Workload Identity Federation.
+ *
+ * @param workloadIdentityProvider - Full Workload Identity Provider resource name
+ * @param serviceAccount - Service account to impersonate, or undefined to use the
+ *    federated identity directly
+ * @param subjectTokenPath - Path of the file holding the GitHub OIDC token
+ * @param endpoints - STS and IAM Credentials endpoints (Google's by default)
+ * @returns The credentials configuration
+ */
+export function buildExternalAccountConfig(
+  workloadIdentityProvider: string,
+  serviceAccount: string | undefined,
+  subjectTokenPath: string,
+  endpoints: TokenEndpoints = {}
+): ExternalAccountConfig {
+  const config: ExternalAccountConfig = {
+    type: 'external_account',
+    audience: `//iam.googleapis.com/${workloadIdentityProvider}`,
+    subject_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+    token_url: endpoints.stsTokenUrl || DEFAULT_STS_TOKEN_URL,
+    credential_source: {
+      file: subjectTokenPath
+    }
+  }
+
+  if (serviceAccount) {
+    config.service_account_impersonation_url = `${endpoints.iamCredentialsUrl || DEFAULT_IAM_CREDENTIALS_URL}/projects/-/serviceAccounts/${serviceAccount}:generateAccessToken`
+  }
+
+  return config
+}
+
+/**
+ * Requests a GitHub OIDC token and writes the external account credentials for it.
+ * The job needs the `id-token: write` permission for the token request to succeed.
+ *
+ * @param workloadIdentityProvider - Full Workload Identity Provider resource name
+ * @param serviceAccount - Service account to impersonate (optional)
+ * @param tempDir - Directory where the token and credentials files are written
+ * @param endpoints - STS and IAM Credentials endpoints (Google's by default)
+ * @returns Paths of the credentials file and of the OIDC token file it references
+ * @throws {Error} When the OIDC token cannot be obtained from GitHub
+ * @throws {Error} When the files cannot be written
+ */
+export async function createWorkloadIdentityCredentialsFile(
+  workloadIdentityProvider: string,
+  serviceAccount: string | undefined,
+  tempDir: string,
+  endpoints: TokenEndpoints = {}
+): Promise<{ credentialsPath: string; tokenPath: string }> {
+  let token: string
+  try {
+    token = await core.getIDToken(
+      `https://iam.googleapis.com/${workloadIdentityProvider}`
+    )
+  } catch (error) {
+    throw new Error(
+      `Unable to obtain a GitHub OIDC token (does the job have the 'id-token: write' permission?): ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const tokenPath = path.join(tempDir, 'github-oidc-token.jwt')
+  const credentialsPath = path.join(tempDir, 'google-credentials.json')
+  const config = buildExternalAccountConfig(
+    workloadIdentityProvider,
+    serviceAccount,
+    tokenPath,
+    endpoints
+  )
+
+  fs.writeFileSync(tokenPath, token, { encoding: 'utf8', mode: 0o600 })
+  fs.writeFileSync(credentialsPath, JSON.stringify(config), {
+    encoding: 'utf8',
+    mode: 0o600
+  })
+  core.info(
+    `Created Workload Identity Federation credentials at ${credentialsPath}`
+  )
+
+  return { credentialsPath, tokenPath }
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Commit utilities for the terraform-module-gcs-publisher.
+ * This module derives the next version of a module from the conventional commits
+ * (https://www.conventionalcommits.org) touching it since its latest release: a
+ * breaking change calls for a major release, a feat for a minor release, and a fix or
+ * perf for a patch release.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as exec from '@actions/exec'
+import * as semver from 'semver'
+
+/** Header of a conventional commit: type, optional scope and breaking marker */
+const COMMIT_HEADER_REGEX = /^(\w+)(?:\([^)]*\))?(!)?:\s/
+
+/** Footer announcing a breaking change */
+const BREAKING_CHANGE_FOOTER_REGEX = /^BREAKING[ -]CHANGE:\s/m
+
+/** Commit types calling for a patch release */
+const PATCH_TYPES = ['fix', 'perf']
+
+/**
+ * Lists the messages of the commits touching a directory since a commit.
+ *
+ * @param directory - Directory of the module within a git checkout
+ * @param sinceCommit - The commit to start after (the commit of the latest release)
+ * @returns The full commit messages, newest first
+ * @throws {Error} When git fails, for instance because the checkout does not hold the
+ *    history back to sinceCommit
+ */
+export async function readCommitMessages(
+  directory: string,
+  sinceCommit: string
+): Promise<string[]> {
+  const result = await exec.getExecOutput(
+    'git',
+    ['log', '--format=%B%x00', `${sinceCommit}..HEAD`, '--', '.'],
+    { cwd: directory, ignoreReturnCode: true, silent: true }
+  )
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `git log failed in ${directory}: ${result.stderr.trim()}. The checkout needs the history since ${sinceCommit} (fetch-depth: 0 with actions/checkout)`
+    )
+  }
+  return result.stdout
+    .split('\0')
+    .map((message) => message.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Picks the release a set of conventional commits calls for. Before 1.0.0 breaking
+ * changes call for a minor release, as anything may change between 0.y releases.
+ *
+ * @param messages - The commit messages
+ * @param version - The version the commits follow
+ * @returns The release type, or undefined when no commit is a feat, fix, perf or
+ *    breaking change
+ */
+export function getReleaseType(
+  messages: string[],
+  version: string
+): 'major' | 'minor' | 'patch' | undefined {
+  let releaseType: 'major' | 'minor' | 'patch' | undefined
+  for (const message of messages) {
+    const header = COMMIT_HEADER_REGEX.exec(message)
+    if (!header) {
+      continue
+    }
+    const type = header[1].toLowerCase()
+    if (header[2] || BREAKING_CHANGE_FOOTER_REGEX.test(message)) {
+      return semver.major(version) > 0 ? 'major' : 'minor'
+    }
+    if (type === 'feat') {
+      releaseType = 'minor'
+    } else if (PATCH_TYPES.includes(type) && !releaseType) {
+      releaseType = 'patch'
+    }
+  }
+  return releaseType
+}
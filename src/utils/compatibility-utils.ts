@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Compatibility utilities for the terraform-module-gcs-publisher.
+ * This module compares the interface of a new version of a module with the release
+ * before it and lists the changes that break its consumers: removed variables, newly
+ * required variables, removed outputs and submodules, and tightened provider or
+ * Terraform version constraints.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as semver from 'semver'
+import {
+  BreakingChange,
+  ModuleDescriptor,
+  SubmoduleDescriptor
+} from '../interfaces'
+
+/** A version constraint operator followed by a (possibly partial) version */
+const CONSTRAINT_REGEX =
+  /^(=|!=|>=|<=|>|<|~>)?\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(-[0-9A-Za-z.-]+)?$/
+
+/**
+ * Translates a Terraform version constraint (e.g. '>= 5.0, < 7.0' or '~> 3.1') into
+ * an equivalent semver range.
+ *
+ * @param constraint - The Terraform version constraint
+ * @returns The semver range, or undefined when the constraint cannot be read
+ */
+export function toSemverRange(constraint: string): string | undefined {
+  // Each clause narrows the range; '!=' splits it into two alternatives
+  let alternatives: string[][] = [[]]
+  for (const clause of constraint.split(',').map((part) => part.trim())) {
+    const match = CONSTRAINT_REGEX.exec(clause)
+    if (!match) {
+      return undefined
+    }
+    const [, operator = '=', major, minor, patch, prerelease = ''] = match
+    const version = `${major}.${minor || 0}.${patch || 0}${prerelease}`
+    let ranges: string[]
+    if (operator === '~>') {
+      // The rightmost segment given may increase: ~> 3.1 is < 4.0.0, ~> 3.1.2 is < 3.2.0
+      const upper =
+        patch === undefined
+          ? `${Number(major) + 1}.0.0`
+          : `${major}.${Number(minor) + 1}.0`
+      ranges = [`>=${version} <${upper}`]
+    } else if (operator === '!=') {
+      ranges = [`<${version}`, `>${version}`]
+    } else {
+      ranges = [`${operator}${version}`]
+    }
+    alternatives = alternatives.flatMap((alternative) =>
+      ranges.map((range) => [...alternative, range])
+    )
+  }
+  const range = alternatives
+    .map((alternative) => alternative.join(' '))
+    .join(' || ')
+  return semver.validRange(range) ? range : undefined
+}
+
+/**
+ * Checks whether a version constraint rejects versions its previous form accepted.
+ * Constraints that cannot be read are never reported as tightened.
+ *
+ * @param previous - The previous constraint (unset when any version was accepted)
+ * @param next - The new constraint (unset when any version is accepted)
+ * @returns True when some version accepted before is now rejected
+ */
+export function isConstraintTightened(
+  previous: string | undefined,
+  next: string | undefined
+): boolean {
+  if (!next) {
+    return false
+  }
+  const nextRange = toSemverRange(next)
+  if (!nextRange) {
+    return false
+  }
+  if (!previous) {
+    return true
+  }
+  const previousRange = toSemverRange(previous)
+  return previousRange !== undefined && !semver.subset(previousRange, nextRange)
+}
+
+/**
+ * Lists the breaking changes between two versions of the interface of a module or
+ * submodule.
+ *
+ * @param previous - Interface of the previous release
+ * @param next - Interface of the new version
+ * @param submodule - Path of the submodule compared (unset for the module root)
+ * @returns The breaking changes
+ */
+function compareInterfaces(
+  previous: Omit<SubmoduleDescriptor, 'path'>,
+  next: Omit<SubmoduleDescriptor, 'path'>,
+  submodule?: string
+): BreakingChange[] {
+  const changes: Omit<BreakingChange, 'submodule'>[] = []
+  const nextInputs = new Map(next.inputs.map((input) => [input.name, input]))
+  const previousInputs = new Map(
+    previous.inputs.map((input) => [input.name, input])
+  )
+
+  for (const input of previous.inputs) {
+    if (!nextInputs.has(input.name)) {
+      changes.push({
+        kind: 'removed-variable',
+        description: `variable "${input.name}" was removed`
+      })
+    }
+  }
+  for (const input of next.inputs.filter((entry) => entry.required)) {
+    const before = previousInputs.get(input.name)
+    if (!before) {
+      changes.push({
+        kind: 'required-variable',
+        description: `new variable "${input.name}" has no default`
+      })
+    } else if (!before.required) {
+      changes.push({
+        kind: 'required-variable',
+        description: `variable "${input.name}" no longer has a default`
+      })
+    }
+  }
+
+  const nextOutputs = new Set(next.outputs.map((output) => output.name))
+  for (const output of previous.outputs) {
+    if (!nextOutputs.has(output.name)) {
+      changes.push({
+        kind: 'removed-output',
+        description: `output "${output.name}" was removed`
+      })
+    }
+  }
+
+  for (const provider of next.providers) {
+    const before = previous.providers.find(
+      (entry) => entry.name === provider.name
+    )
+    if (before && isConstraintTightened(before.version, provider.version)) {
+      changes.push({
+        kind: 'tightened-provider',
+        description: `provider "${provider.name}" constraint tightened from "${before.version || 'any'}" to "${provider.version}"`
+      })
+    }
+  }
+  if (isConstraintTightened(previous.requiredVersion, next.requiredVersion)) {
+    changes.push({
+      kind: 'tightened-terraform-version',
+      description: `required_version tightened from "${previous.requiredVersion || 'any'}" to "${next.requiredVersion}"`
+    })
+  }
+
+  return changes.map((change) =>
+    submodule ? { ...change, submodule } : change
+  )
+}
+
+/**
+ * Lists the changes in a new version of a module that break consumers of the
+ * previous release, in its root and in its submodules.
+ *
+ * @param previous - Descriptor of the previous release
+ * @param next - Descriptor of the new version
+ * @returns The breaking changes, root first (empty when the versions are compatible)
+ */
+export function compareModuleInterfaces(
+  previous: ModuleDescriptor,
+  next: ModuleDescriptor
+): BreakingChange[] {
+  const changes = compareInterfaces(previous, next)
+  for (const submodule of previous.submodules) {
+    const nextSubmodule = next.submodules.find(
+      (entry) => entry.path === submodule.path
+    )
+    if (!nextSubmodule) {
+      changes.push({
+        kind: 'removed-submodule',
+        description: `submodule "${submodule.path}" was removed`
+      })
+    } else {
+      changes.push(
+        ...compareInterfaces(submodule, nextSubmodule, submodule.path)
+      )
+    }
+  }
+  return changes
+}
+
+/**
+ * Formats a breaking change for logs and reports.
+ *
+ * @param change - The breaking change
+ * @returns The description, prefixed with the submodule path when in a submodule
+ */
+export function formatBreakingChange(change: BreakingChange): string {
+  return change.submodule
+    ? `${change.submodule}: ${change.description}`
+    : change.description
+}
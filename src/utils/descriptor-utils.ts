@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Descriptor utilities for the terraform-module-gcs-publisher.
+ * This module describes a packaged module: the inputs, outputs, providers and Terraform
+ * version of its root and of each submodule below modules/, and its README. The
+ * descriptor is published next to the archive, and a summary of it is recorded in the
+ * archive's custom metadata.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  ModuleDescriptor,
+  SubmoduleDescriptor,
+  TerraformModuleInfo,
+  TerraformProviderRequirement
+} from '../interfaces'
+import { inspectTerraformModule } from './terraform-utils'
+
+/** Longest value recorded in the custom metadata; GCS caps all of it at 8 KiB */
+const MAX_METADATA_VALUE_LENGTH = 1024
+
+/**
+ * Converts the interface read from a module's files to its descriptor form. Defaults
+ * of sensitive variables are left out.
+ *
+ * @param info - Interface of the module
+ * @returns The inputs, outputs, providers and Terraform version of the module
+ */
+function describeInterface(
+  info: TerraformModuleInfo
+): Omit<SubmoduleDescriptor, 'path'> {
+  return {
+    requiredVersion: info.requiredVersion,
+    providers: info.requiredProviders,
+    inputs: info.variables.map((variable) =>
+      variable.sensitive ? { ...variable, default: undefined } : variable
+    ),
+    outputs: info.outputs
+  }
+}
+
+/**
+ * Describes a packaged module from its packaged files only: files left out of the
+ * archive are neither read nor checked.
+ *
+ * @param modulePath - Path to the module
+ * @param name - Name of the module
+ * @param version - Version of the module
+ * @param packagedFiles - Module-relative paths of the packaged files
+ * @returns The descriptor of the module
+ * @throws {Error} When the module or a submodule holds no Terraform files or has
+ *    Terraform syntax errors
+ */
+export function buildModuleDescriptor(
+  modulePath: string,
+  name: string,
+  version: string,
+  packagedFiles: string[]
+): ModuleDescriptor {
+  const submodulePaths = [
+    ...new Set(
+      packagedFiles
+        .map((file) => /^(modules\/[^/]+)\/[^/]+\.tf(\.json)?$/.exec(file))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map((match) => match[1])
+    )
+  ].sort()
+  const readme = packagedFiles.find((file) => /^readme\.md$/i.test(file))
+
+  return {
+    name,
+    version,
+    ...describeInterface(inspectTerraformModule(modulePath, packagedFiles)),
+    submodules: submodulePaths.map((submodulePath) => ({
+      path: submodulePath,
+      ...describeInterface(
+        inspectTerraformModule(
+          path.join(modulePath, submodulePath),
+          packagedFiles
+            .filter((file) => file.startsWith(`${submodulePath}/`))
+            .map((file) => file.slice(submodulePath.length + 1))
+        )
+      )
+    })),
+    readme: readme
+      ? fs.readFileSync(path.join(modulePath, readme), 'utf8')
+      : undefined
+  }
+}
+
+/**
+ * Formats a required provider (e.g. 'google (hashicorp/google >= 5.0)').
+ *
+ * @param provider - The required provider
+ * @returns The provider's name, followed by its source and version when known
+ */
+function formatProvider(provider: TerraformProviderRequirement): string {
+  const constraint = [provider.source, provider.version]
+    .filter(Boolean)
+    .join(' ')
+  return constraint ? `${provider.name} (${constraint})` : provider.name
+}
+
+/**
+ * Joins a list into a metadata value, cut short when it would be too long.
+ *
+ * @param items - The items to list
+ * @returns The comma-separated items, ending with '...' when some were left out
+ */
+function formatList(items: string[]): string {
+  const value = items.join(', ')
+  if (value.length <= MAX_METADATA_VALUE_LENGTH) {
+    return value
+  }
+  const cut = value.lastIndexOf(', ', MAX_METADATA_VALUE_LENGTH - 5)
+  return cut > 0
+    ? `${value.slice(0, cut)}, ...`
+    : `${value.slice(0, MAX_METADATA_VALUE_LENGTH - 3)}...`
+}
+
+/**
+ * Summarizes a descriptor as custom metadata of the archive. Lists that are empty and
+ * a missing Terraform version are left out.
+ *
+ * @param descriptor - Descriptor of the module
+ * @returns The custom metadata entries
+ */
+export function summarizeModuleDescriptor(
+  descriptor: ModuleDescriptor
+): Record<string, string> {
+  const summary: Record<string, string> = {
+    terraformInputs: formatList(descriptor.inputs.map((input) => input.name)),
+    terraformRequiredInputs: formatList(
+      descriptor.inputs
+        .filter((input) => input.required)
+        .map((input) => input.name)
+    ),
+    terraformOutputs: formatList(
+      descriptor.outputs.map((output) => output.name)
+    ),
+    terraformProviders: formatList(descriptor.providers.map(formatProvider)),
+    terraformSubmodules: formatList(
+      descriptor.submodules.map((submodule) => submodule.path)
+    ),
+    terraformRequiredVersion: descriptor.requiredVersion || ''
+  }
+  return Object.fromEntries(
+    Object.entries(summary).filter(([, value]) => value !== '')
+  )
+}
@@ -1,7 +1,8 @@
 /**
  * @fileoverview File utilities for the terraform-module-gcs-publisher.
  * This module provides file-related utility functions including calculating file hashes
- * for integrity verification when uploading Terraform modules to Google Cloud Storage.
+ * for integrity verification when uploading Terraform modules to Google Cloud Storage,
+ * and when verifying them once published.
  *
  * @author Infraspec
  * @license MIT
@@ -9,6 +10,8 @@
 
 import { createHash } from 'crypto'
 import { createReadStream } from 'fs'
+import { CRC32C } from '@google-cloud/storage'
+import { ObjectChecksums } from '../interfaces'
 
 /**
  * Calculates SHA-256 hash of a file for integrity verification.
@@ -30,3 +33,31 @@ export function calculateFileHash(filePath: string): Promise<string> {
     stream.on('end', () => resolve(hash.digest('hex')))
   })
 }
+
+/**
+ * Calculates the MD5 hash and CRC32C checksum of a file in the base64 encoding GCS
+ * uses for the md5Hash and crc32c object metadata, so a downloaded object can be
+ * compared with what GCS reports for it.
+ *
+ * @param filePath - Path to the file to be checked
+ * @returns A promise that resolves to the base64 MD5 hash and CRC32C checksum
+ * @throws {Error} When the file cannot be read
+ */
+export function calculateFileChecksums(
+  filePath: string
+): Promise<Required<ObjectChecksums>> {
+  return new Promise((resolve, reject) => {
+    const md5 = createHash('md5')
+    const crc32c = new CRC32C()
+    const stream = createReadStream(filePath)
+
+    stream.on('error', (err) => reject(err))
+    stream.on('data', (chunk) => {
+      md5.update(chunk)
+      crc32c.update(chunk as Buffer)
+    })
+    stream.on('end', () =>
+      resolve({ md5Hash: md5.digest('base64'), crc32c: crc32c.toString() })
+    )
+  })
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Glob matching utilities for the terraform-module-gcs-publisher.
+ * This module implements the small subset of gitignore-style pattern matching needed to
+ * decide which files of a Terraform module are packaged: `*`, `**`, `?`, character
+ * classes, negation with `!`, directory-only patterns with a trailing `/`, and anchoring
+ * with a leading or embedded `/`. The same rules are used for the `include`/`exclude`
+ * inputs and for `.terraformignore` files.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+/**
+ * A compiled glob pattern.
+ */
+export interface GlobRule {
+  /** The pattern as written by the user */
+  pattern: string
+  /** Whether the pattern re-includes paths (it started with `!`) */
+  negated: boolean
+  /** Whether the pattern only matches directories (it ended with `/`) */
+  directoryOnly: boolean
+  /** Regular expression matched against the full relative path */
+  regex: RegExp
+}
+
+/**
+ * Translates a glob expression into a regular expression source.
+ *
+ * @param glob - The glob expression, without negation or trailing slash
+ * @returns The regular expression source (without anchors)
+ */
+function globToRegExpSource(glob: string): string {
+  let source = ''
+  let i = 0
+
+  while (i < glob.length) {
+    const char = glob[i]
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 3
+        } else {
+          source += '.*'
+          i += 2
+        }
+      } else {
+        source += '[^/]*'
+        i++
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+      i++
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2)
+      if (end === -1) {
+        source += '\\['
+        i++
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\')
+        source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`
+        i = end + 1
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&')
+      i++
+    }
+  }
+
+  return source
+}
+
+/**
+ * Compiles a gitignore-style pattern.
+ * Patterns without a slash (other than a trailing one) match at any depth;
+ * patterns containing a slash are anchored to the module root.
+ *
+ * @param pattern - The pattern to compile (e.g. '*.tfstate', '!keep.tfstate', 'examples/')
+ * @returns The compiled rule
+ * @throws {Error} When the pattern is empty
+ */
+export function compileGlob(pattern: string): GlobRule {
+  let body = pattern.trim()
+  const negated = body.startsWith('!')
+  if (negated) {
+    body = body.slice(1)
+  }
+  const directoryOnly = body.endsWith('/')
+  body = body.replace(/\/+$/, '')
+
+  if (!body) {
+    throw new Error(`Invalid glob pattern: '${pattern}'`)
+  }
+
+  const anchored = body.includes('/')
+  body = body.replace(/^\//, '')
+  const prefix = anchored ? '' : '(?:.*/)?'
+
+  return {
+    pattern,
+    negated,
+    directoryOnly,
+    regex: new RegExp(`^${prefix}${globToRegExpSource(body)}$`)
+  }
+}
+
+/**
+ * Parses the contents of a `.terraformignore` (or `.gitignore`) style file.
+ * Blank lines and lines starting with `#` are skipped.
+ *
+ * @param content - The file contents
+ * @returns The compiled rules in file order
+ */
+export function parseIgnoreFile(content: string): GlobRule[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map(compileGlob)
+}
+
+/**
+ * Checks whether a single path matches a rule.
+ *
+ * @param rule - The compiled rule
+ * @param relativePath - Path relative to the module root, using forward slashes
+ * @param isDirectory - Whether the path is a directory
+ * @returns True when the rule applies to the path
+ */
+function matchesRule(
+  rule: GlobRule,
+  relativePath: string,
+  isDirectory: boolean
+): boolean {
+  return (!rule.directoryOnly || isDirectory) && rule.regex.test(relativePath)
+}
+
+/**
+ * Evaluates ignore rules against a path. As with gitignore, the last matching
+ * rule wins, so a later `!pattern` can re-include a path ignored earlier.
+ *
+ * @param rules - The rules to evaluate, in order
+ * @param relativePath - Path relative to the module root, using forward slashes
+ * @param isDirectory - Whether the path is a directory
+ * @returns True when the path is ignored
+ */
+export function isIgnored(
+  rules: GlobRule[],
+  relativePath: string,
+  isDirectory: boolean
+): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (matchesRule(rule, relativePath, isDirectory)) {
+      ignored = !rule.negated
+    }
+  }
+  return ignored
+}
+
+/**
+ * Checks whether a file matches any of a set of patterns, either directly or
+ * through one of its parent directories (so 'modules/' matches every file below it).
+ *
+ * @param rules - The rules to test
+ * @param relativePath - File path relative to the module root, using forward slashes
+ * @returns True when at least one non-negated rule matches
+ */
+export function matchesAny(rules: GlobRule[], relativePath: string): boolean {
+  const segments = relativePath.split('/')
+  return segments.some((_, index) => {
+    const isDirectory = index < segments.length - 1
+    const candidate = segments.slice(0, index + 1).join('/')
+    return isIgnored(rules, candidate, isDirectory)
+  })
+}
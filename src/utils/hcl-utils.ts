@@ -0,0 +1,953 @@
+/**
+ * @fileoverview HCL utilities for the terraform-module-gcs-publisher.
+ * This module parses the native syntax of HashiCorp Configuration Language files into
+ * their structure: the attributes and nested blocks of each body. Expressions are not
+ * evaluated; an attribute keeps the source text of its expression, and its value when
+ * it is a literal (a string without interpolation, a number, a bool, null, or a tuple or
+ * object of literals). Expressions are still parsed, so a missing operand or a stray
+ * token is a syntax error; only the template sequences of strings and heredocs are
+ * left unparsed. Syntax errors are reported with the file, line and column.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import { HclAttribute, HclBlock, HclBody } from '../interfaces'
+
+/** Kinds of the tokens of the native syntax */
+type TokenKind =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'heredoc'
+  | 'punctuation'
+  | 'newline'
+  | 'end'
+
+/** A token, with the position of its first character */
+interface Token {
+  kind: TokenKind
+  /** Source text of the token */
+  text: string
+  /** Decoded contents of a string or heredoc */
+  value?: string
+  /** Whether a string or heredoc holds ${...} or %{...} template sequences */
+  template?: boolean
+  start: number
+  end: number
+  line: number
+  column: number
+}
+
+/** Brackets opening a nested expression, with the bracket closing it */
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+
+/** Operators and delimiters, longest first so they are matched greedily */
+const PUNCTUATION = [
+  '...',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '=>',
+  ...'{}[]()=,.:?!+-*/%<>'.split('')
+]
+
+/** Binary operators, by precedence level from the loosest to the tightest */
+const BINARY_OPERATORS = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+]
+
+/** Operators preceding their operand */
+const UNARY_OPERATORS = ['-', '!']
+
+/** Marks expressions that are not literals */
+const NON_LITERAL = Symbol('non-literal')
+
+/** Escape sequences of quoted strings */
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\'
+}
+
+/**
+ * Splits HCL source into tokens. Comments are dropped; newlines are kept because they
+ * end attributes.
+ *
+ * @param source - Contents of the file
+ * @param fileName - Name of the file, for error messages
+ * @returns The tokens, ending with an 'end' token
+ * @throws {Error} When a string, heredoc or comment is not terminated, or a character
+ *    is not valid
+ */
+function tokenize(source: string, fileName: string): Token[] {
+  const tokens: Token[] = []
+  let offset = 0
+  let line = 1
+  let lineStart = 0
+
+  const fail = (message: string, at: number = offset): never => {
+    const errorLine = source.slice(0, at).split('\n').length
+    const column = at - source.lastIndexOf('\n', at - 1)
+    throw new Error(`${fileName}:${errorLine}:${column}: ${message}`)
+  }
+  const push = (kind: TokenKind, end: number, extra: Partial<Token> = {}) => {
+    tokens.push({
+      kind,
+      text: source.slice(offset, end),
+      start: offset,
+      end,
+      line,
+      column: offset - lineStart + 1,
+      ...extra
+    })
+    offset = end
+  }
+
+  while (offset < source.length) {
+    const char = source[offset]
+    const rest = source.slice(offset)
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      offset++
+    } else if (char === '\n') {
+      push('newline', offset + 1)
+      line++
+      lineStart = offset
+    } else if (char === '#' || rest.startsWith('//')) {
+      const end = source.indexOf('\n', offset)
+      offset = end === -1 ? source.length : end
+    } else if (rest.startsWith('/*')) {
+      const end = source.indexOf('*/', offset + 2)
+      if (end === -1) {
+        fail('Unterminated comment')
+      }
+      for (let index = offset; index < end; index++) {
+        if (source[index] === '\n') {
+          line++
+          lineStart = index + 1
+        }
+      }
+      offset = end + 2
+    } else if (/[A-Za-z_]/.test(char)) {
+      push('identifier', offset + /^[A-Za-z_][\w-]*/.exec(rest)![0].length)
+    } else if (/[0-9]/.test(char)) {
+      push(
+        'number',
+        offset + /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(rest)![0].length
+      )
+    } else if (char === '"') {
+      const { end, value, template } = scanString(source, offset, fail)
+      push('string', end, { value, template })
+    } else if (/^<<-?[A-Za-z_][\w-]*\r?\n/.test(rest)) {
+      const marker = /^<<(-?)([A-Za-z_][\w-]*)\r?\n/.exec(rest)!
+      const bodyStart = offset + marker[0].length
+      const lines: string[] = []
+      let cursor = bodyStart
+      let end = -1
+      while (cursor <= source.length) {
+        const lineEnd = source.indexOf('\n', cursor)
+        const text = source.slice(
+          cursor,
+          lineEnd === -1 ? source.length : lineEnd
+        )
+        if (text.trim() === marker[2]) {
+          end = cursor + text.length
+          break
+        }
+        lines.push(text.replace(/\r$/, ''))
+        if (lineEnd === -1) {
+          break
+        }
+        cursor = lineEnd + 1
+      }
+      if (end === -1) {
+        fail(`Unterminated heredoc: no closing ${marker[2]} marker`)
+      }
+      const indent = marker[1]
+        ? Math.min(
+            ...lines
+              .filter((text) => text.trim())
+              .map((text) => /^[ \t]*/.exec(text)![0].length)
+          )
+        : 0
+      const value = lines
+        .map((text) => `${text.slice(Math.min(indent, text.length))}\n`)
+        .join('')
+      push('heredoc', end, {
+        value,
+        template: /(^|[^$])\$\{|(^|[^%])%\{/.test(value)
+      })
+      line += lines.length + 1
+      lineStart = source.lastIndexOf('\n', end - 1) + 1
+    } else {
+      const punctuation = PUNCTUATION.find((candidate) =>
+        rest.startsWith(candidate)
+      )
+      if (!punctuation) {
+        fail(`Invalid character ${JSON.stringify(char)}`)
+      }
+      push('punctuation', offset + (punctuation as string).length)
+    }
+  }
+
+  tokens.push({
+    kind: 'end',
+    text: '',
+    start: source.length,
+    end: source.length,
+    line,
+    column: source.length - lineStart + 1
+  })
+  return tokens
+}
+
+/**
+ * Scans a quoted string, including the template sequences it holds, which may contain
+ * strings and braces of their own.
+ *
+ * @param source - Contents of the file
+ * @param start - Offset of the opening quote
+ * @param fail - Reports a syntax error at an offset
+ * @returns The offset after the closing quote, the decoded contents and whether the
+ *    string holds template sequences
+ * @throws {Error} When the string or one of its template sequences is not terminated
+ */
+function scanString(
+  source: string,
+  start: number,
+  fail: (message: string, at?: number) => never
+): { end: number; value: string; template: boolean } {
+  let value = ''
+  let template = false
+  let offset = start + 1
+
+  while (offset < source.length) {
+    const char = source[offset]
+    if (char === '"') {
+      return { end: offset + 1, value, template }
+    }
+    if (char === '\n') {
+      break
+    }
+    if (char === '\\') {
+      const escape = source[offset + 1]
+      if (escape in ESCAPES) {
+        value += ESCAPES[escape]
+        offset += 2
+        continue
+      }
+      const unicode = /^(?:u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8}))/.exec(
+        source.slice(offset + 1)
+      )
+      if (!unicode) {
+        return fail(`Invalid escape sequence \\${escape}`, offset)
+      }
+      value += String.fromCodePoint(parseInt(unicode[1] || unicode[2], 16))
+      offset += 1 + unicode[0].length
+      continue
+    }
+    const next = source.slice(offset, offset + 3)
+    if (next === '$${' || next === '%%{') {
+      value += next.slice(1)
+      offset += 3
+      continue
+    }
+    if (next.startsWith('${') || next.startsWith('%{')) {
+      template = true
+      const sequenceStart = offset
+      let depth = 0
+      offset += 1
+      do {
+        if (offset >= source.length) {
+          fail('Unterminated template sequence', sequenceStart)
+        }
+        if (source[offset] === '"') {
+          offset = scanString(source, offset, fail).end
+          continue
+        }
+        if (source[offset] === '{') {
+          depth++
+        } else if (source[offset] === '}') {
+          depth--
+        }
+        offset++
+      } while (depth > 0)
+      value += source.slice(sequenceStart, offset)
+      continue
+    }
+    value += char
+    offset++
+  }
+
+  return fail('Unterminated string', start)
+}
+
+/**
+ * Parser of a body and its nested blocks, over the tokens of one file.
+ */
+class HclParser {
+  private position = 0
+
+  /** Whether newlines are ignored, for each bracket the parser is in */
+  private readonly skipsNewlines: boolean[] = []
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+    private readonly fileName: string
+  ) {}
+
+  /**
+   * Parses the whole file.
+   *
+   * @returns The body of the file
+   * @throws {Error} When the file is not valid HCL
+   */
+  parseFile(): HclBody {
+    const body = this.parseBody()
+    const token = this.peek()
+    if (token.kind !== 'end') {
+      this.fail(`Unexpected ${this.describe(token)}`, token)
+    }
+    return body
+  }
+
+  /**
+   * Parses attributes and blocks until the closing brace of the enclosing block or
+   * the end of the file.
+   */
+  private parseBody(): HclBody {
+    const body: HclBody = { attributes: {}, blocks: [] }
+
+    for (;;) {
+      this.skipNewlines()
+      const token = this.peek()
+      if (token.kind === 'end' || token.text === '}') {
+        return body
+      }
+      if (token.kind !== 'identifier') {
+        this.fail(
+          `Expected an attribute or block name, found ${this.describe(token)}`,
+          token
+        )
+      }
+      this.position++
+
+      if (this.peek().text === '=') {
+        this.position++
+        if (token.text in body.attributes) {
+          this.fail(`Attribute ${token.text} is defined more than once`, token)
+        }
+        body.attributes[token.text] = this.parseAttribute(token)
+      } else {
+        body.blocks.push(this.parseBlock(token))
+      }
+    }
+  }
+
+  /**
+   * Parses the expression of an attribute, which ends with its line.
+   *
+   * @param name - The token of the attribute name
+   */
+  private parseAttribute(name: Token): HclAttribute {
+    const start = this.position
+    const first = this.peek()
+    if (
+      first.kind === 'newline' ||
+      first.kind === 'end' ||
+      first.text === '}'
+    ) {
+      this.fail(
+        `Expected an expression for ${name.text}, found ${this.describe(first)}`,
+        first
+      )
+    }
+    this.parseExpression()
+    const end = this.position
+    this.expectLineEnd()
+
+    const attribute: HclAttribute = {
+      expression: this.source.slice(
+        this.tokens[start].start,
+        this.tokens[end - 1].end
+      ),
+      line: name.line
+    }
+    const value = this.evaluate(start, end)
+    if (value !== NON_LITERAL) {
+      attribute.value = value
+    }
+    return attribute
+  }
+
+  /**
+   * Parses the labels and the body of a block.
+   *
+   * @param type - The token of the block type
+   */
+  private parseBlock(type: Token): HclBlock {
+    const labels: string[] = []
+    for (;;) {
+      const token = this.peek()
+      if (token.kind === 'string' && !token.template) {
+        labels.push(token.value as string)
+      } else if (token.kind === 'identifier') {
+        labels.push(token.text)
+      } else {
+        break
+      }
+      this.position++
+    }
+
+    const open = this.peek()
+    if (open.text !== '{') {
+      this.fail(
+        `Expected '=' or '{' after ${type.text}, found ${this.describe(open)}`,
+        open
+      )
+    }
+    this.position++
+    const body = this.parseBody()
+    const close = this.peek()
+    if (close.text !== '}') {
+      this.fail(`Unclosed ${type.text} block: missing '}'`, open)
+    }
+    this.position++
+    this.expectLineEnd()
+
+    return { type: type.text, labels, body, line: type.line }
+  }
+
+  /**
+   * Parses an expression: a conditional, an operation or a term. Newlines end it,
+   * unless it is nested in parentheses or square brackets.
+   *
+   * @throws {Error} When the expression is not valid
+   */
+  private parseExpression(): void {
+    this.parseOperation(0)
+    if (this.current().text === '?') {
+      this.position++
+      this.parseExpression()
+      this.expect(':')
+      this.parseExpression()
+    }
+  }
+
+  /**
+   * Parses the operations of a precedence level and the levels binding tighter.
+   *
+   * @param level - Index of the level in BINARY_OPERATORS
+   */
+  private parseOperation(level: number): void {
+    if (level === BINARY_OPERATORS.length) {
+      this.parseUnary()
+      return
+    }
+    this.parseOperation(level + 1)
+    while (BINARY_OPERATORS[level].includes(this.current().text)) {
+      this.position++
+      this.parseOperation(level + 1)
+    }
+  }
+
+  private parseUnary(): void {
+    const token = this.current()
+    if (token.kind === 'punctuation' && UNARY_OPERATORS.includes(token.text)) {
+      this.position++
+      this.parseUnary()
+      return
+    }
+    this.parseTerm()
+  }
+
+  /**
+   * Parses a term (a literal, a collection, a variable, a function call or a
+   * parenthesized expression), followed by its attribute accesses, indexes and splats.
+   */
+  private parseTerm(): void {
+    const token = this.current()
+    if (
+      token.kind === 'number' ||
+      token.kind === 'string' ||
+      token.kind === 'heredoc'
+    ) {
+      this.position++
+    } else if (token.kind === 'identifier') {
+      this.position++
+      if (
+        token.text === 'provider' &&
+        this.peek().text === ':' &&
+        this.tokens[this.position + 1].text === ':'
+      ) {
+        for (let part = 0; part < 2; part++) {
+          this.expect(':')
+          this.expect(':')
+          this.expectIdentifier('a provider function name')
+        }
+        if (this.peek().text !== '(') {
+          this.fail(
+            `Expected '(' after a provider function name, found ${this.describe(this.peek())}`,
+            this.peek()
+          )
+        }
+      }
+      if (this.peek().text === '(') {
+        this.parseItems(this.peek(), () => this.parseExpression(), true)
+      }
+    } else if (token.text === '(') {
+      this.nest(token, true, () => this.parseExpression())
+    } else if (token.text === '[') {
+      if (this.startsFor()) {
+        this.nest(token, true, () => this.parseFor(false))
+      } else {
+        this.parseItems(token, () => this.parseExpression())
+      }
+    } else if (token.text === '{') {
+      if (this.startsFor()) {
+        this.nest(token, true, () => this.parseFor(true))
+      } else {
+        this.parseObject(token)
+      }
+    } else {
+      this.fail(`Expected an expression, found ${this.describe(token)}`, token)
+    }
+
+    for (;;) {
+      const next = this.current()
+      if (next.text === '.') {
+        this.position++
+        const key = this.current()
+        if (
+          key.kind === 'identifier' ||
+          key.kind === 'number' ||
+          key.text === '*'
+        ) {
+          this.position++
+        } else {
+          this.fail(
+            `Expected an attribute name after '.', found ${this.describe(key)}`,
+            key
+          )
+        }
+      } else if (next.text === '[') {
+        this.nest(next, true, () => {
+          if (
+            this.current().text === '*' &&
+            this.tokens[this.position + 1].text === ']'
+          ) {
+            this.position++
+          } else {
+            this.parseExpression()
+          }
+        })
+      } else {
+        return
+      }
+    }
+  }
+
+  /**
+   * Parses the elements of an object, separated by commas or newlines.
+   *
+   * @param open - The token of the opening brace
+   */
+  private parseObject(open: Token): void {
+    this.nest(open, false, () => {
+      for (;;) {
+        this.skipNewlines()
+        const token = this.peek()
+        if (token.kind === 'end' || token.text === '}') {
+          return
+        }
+        this.parseExpression()
+        const separator = this.peek()
+        if (separator.text !== '=' && separator.text !== ':') {
+          this.fail(
+            `Expected '=' or ':' after an object key, found ${this.describe(separator)}`,
+            separator
+          )
+        }
+        this.position++
+        this.parseExpression()
+        const next = this.peek()
+        if (next.text === ',' || next.kind === 'newline') {
+          this.position++
+        } else if (next.text !== '}' && next.kind !== 'end') {
+          this.fail(
+            `Expected ',', a newline or '}' after an object element, found ${this.describe(next)}`,
+            next
+          )
+        }
+      }
+    })
+  }
+
+  /**
+   * Parses the comma-separated expressions of a tuple or of the arguments of a function
+   * call. A trailing comma is allowed, and so is '...' after the last argument.
+   *
+   * @param open - The token of the opening bracket
+   * @param parseItem - Parses one item
+   * @param expands - Whether the last item may be followed by '...'
+   */
+  private parseItems(
+    open: Token,
+    parseItem: () => void,
+    expands: boolean = false
+  ): void {
+    const closer = BRACKETS[open.text]
+    this.nest(open, true, () => {
+      for (;;) {
+        const token = this.current()
+        if (token.kind === 'end' || token.text === closer) {
+          return
+        }
+        parseItem()
+        if (expands && this.current().text === '...') {
+          this.position++
+          return
+        }
+        if (this.current().text !== ',') {
+          return
+        }
+        this.position++
+      }
+    })
+  }
+
+  /**
+   * Parses a for expression, after its opening bracket.
+   *
+   * @param object - Whether it builds an object ('{') rather than a tuple ('[')
+   */
+  private parseFor(object: boolean): void {
+    this.position++
+    this.expectIdentifier('a variable name after for')
+    if (this.current().text === ',') {
+      this.position++
+      this.expectIdentifier('a variable name after the comma')
+    }
+    if (this.current().text !== 'in') {
+      this.fail(
+        `Expected 'in', found ${this.describe(this.current())}`,
+        this.current()
+      )
+    }
+    this.position++
+    this.parseExpression()
+    this.expect(':')
+    this.parseExpression()
+    if (object) {
+      this.expect('=>')
+      this.parseExpression()
+      if (this.current().text === '...') {
+        this.position++
+      }
+    }
+    if (this.current().text === 'if') {
+      this.position++
+      this.parseExpression()
+    }
+  }
+
+  /**
+   * Whether the bracket at the current token opens a for expression.
+   */
+  private startsFor(): boolean {
+    let index = this.position + 1
+    while (this.tokens[index].kind === 'newline') {
+      index++
+    }
+    return (
+      this.tokens[index].text === 'for' &&
+      this.tokens[index + 1].kind === 'identifier'
+    )
+  }
+
+  /**
+   * Parses the contents of brackets and their closing bracket.
+   *
+   * @param open - The token of the opening bracket
+   * @param skipsNewlines - Whether newlines inside the brackets are ignored; they are
+   *    not in objects, where they separate elements
+   * @param parseContents - Parses what the brackets hold
+   * @throws {Error} When the closing bracket is missing
+   */
+  private nest(
+    open: Token,
+    skipsNewlines: boolean,
+    parseContents: () => void
+  ): void {
+    this.position++
+    this.skipsNewlines.push(skipsNewlines)
+    parseContents()
+    this.skipNewlines()
+    this.skipsNewlines.pop()
+
+    const closer = BRACKETS[open.text]
+    const token = this.peek()
+    if (token.kind === 'end') {
+      this.fail(`Unclosed '${open.text}': missing '${closer}'`, open)
+    }
+    if (token.text !== closer) {
+      this.fail(`Expected '${closer}', found ${this.describe(token)}`, token)
+    }
+    this.position++
+  }
+
+  /**
+   * Finds the end of an expression that has been parsed: the first newline, comma or
+   * closing brace outside brackets, or one of the given stop tokens.
+   *
+   * @param start - Index of the first token of the expression
+   * @param stops - Tokens ending the expression besides newlines
+   * @returns Index of the token after the expression
+   */
+  private scanExpression(start: number, stops: string[]): number {
+    let depth = 0
+    let index = start
+
+    for (;;) {
+      const token = this.tokens[index]
+      if (token.kind === 'end') {
+        return index
+      }
+      if (
+        depth === 0 &&
+        (token.kind === 'newline' ||
+          token.text === '}' ||
+          stops.includes(token.text))
+      ) {
+        return index
+      }
+      if (token.kind === 'punctuation') {
+        if (token.text in BRACKETS) {
+          depth++
+        } else if (Object.values(BRACKETS).includes(token.text)) {
+          depth--
+        }
+      }
+      index++
+    }
+  }
+
+  /**
+   * Evaluates an expression when it is a literal.
+   *
+   * @param start - Index of the first token of the expression
+   * @param end - Index of the token after the expression
+   * @returns The value, or NON_LITERAL
+   */
+  private evaluate(start: number, end: number): unknown {
+    const first = this.tokens[start]
+    const last = this.tokens[end - 1]
+
+    if (end - start === 1) {
+      if (first.kind === 'string' || first.kind === 'heredoc') {
+        return first.template ? NON_LITERAL : first.value
+      }
+      if (first.kind === 'number') {
+        return Number(first.text)
+      }
+      if (first.kind === 'identifier') {
+        return first.text === 'true'
+          ? true
+          : first.text === 'false'
+            ? false
+            : first.text === 'null'
+              ? null
+              : NON_LITERAL
+      }
+      return NON_LITERAL
+    }
+    if (end - start === 2 && first.text === '-' && last.kind === 'number') {
+      return -Number(last.text)
+    }
+    if (first.text === '[' && this.closes(start, end, ']')) {
+      const items: unknown[] = []
+      for (const [itemStart, itemEnd] of this.splitItems(start + 1, end - 1)) {
+        const item = this.evaluate(itemStart, itemEnd)
+        if (item === NON_LITERAL) {
+          return NON_LITERAL
+        }
+        items.push(item)
+      }
+      return items
+    }
+    if (first.text === '{' && this.closes(start, end, '}')) {
+      const object: Record<string, unknown> = {}
+      for (const [itemStart, itemEnd] of this.splitItems(start + 1, end - 1)) {
+        const key = this.tokens[itemStart]
+        const separator = this.tokens[itemStart + 1]
+        if (
+          !(
+            key.kind === 'identifier' ||
+            (key.kind === 'string' && !key.template)
+          ) ||
+          !(separator?.text === '=' || separator?.text === ':') ||
+          itemEnd <= itemStart + 2
+        ) {
+          return NON_LITERAL
+        }
+        const value = this.evaluate(itemStart + 2, itemEnd)
+        if (value === NON_LITERAL) {
+          return NON_LITERAL
+        }
+        object[key.kind === 'string' ? (key.value as string) : key.text] = value
+      }
+      return object
+    }
+    return NON_LITERAL
+  }
+
+  /**
+   * Checks whether the bracket opening an expression is closed by its last token.
+   */
+  private closes(start: number, end: number, closer: string): boolean {
+    return (
+      this.tokens[end - 1].text === closer &&
+      this.scanBracket(start) === end - 1
+    )
+  }
+
+  /**
+   * Finds the bracket closing the one at an index.
+   *
+   * @param start - Index of the opening bracket
+   * @returns Index of the closing bracket
+   */
+  private scanBracket(start: number): number {
+    let depth = 0
+    for (let index = start; ; index++) {
+      const token = this.tokens[index]
+      if (token.kind !== 'punctuation') {
+        continue
+      }
+      if (token.text in BRACKETS) {
+        depth++
+      } else if (Object.values(BRACKETS).includes(token.text)) {
+        depth--
+        if (depth === 0) {
+          return index
+        }
+      }
+    }
+  }
+
+  /**
+   * Splits the items of a tuple or object, separated by commas or newlines.
+   *
+   * @param start - Index of the first token after the opening bracket
+   * @param end - Index of the closing bracket
+   * @returns The start and end index of each item
+   */
+  private splitItems(start: number, end: number): Array<[number, number]> {
+    const items: Array<[number, number]> = []
+    let index = start
+    while (index < end) {
+      const token = this.tokens[index]
+      if (token.kind === 'newline' || token.text === ',') {
+        index++
+        continue
+      }
+      const itemEnd = Math.min(this.scanExpression(index, [',', ']']), end)
+      items.push([index, itemEnd])
+      index = itemEnd
+    }
+    return items
+  }
+
+  /** Requires the end of a line, a closing brace or the end of the file. */
+  private expectLineEnd(): void {
+    const token = this.peek()
+    if (
+      token.kind === 'newline' ||
+      token.kind === 'end' ||
+      token.text === '}'
+    ) {
+      return
+    }
+    this.fail(
+      `Expected a newline, found ${this.describe(token)} (attributes and blocks must each be on their own line)`,
+      token
+    )
+  }
+
+  /** Requires a token and moves past it. */
+  private expect(text: string): void {
+    const token = this.current()
+    if (token.text !== text) {
+      this.fail(`Expected '${text}', found ${this.describe(token)}`, token)
+    }
+    this.position++
+  }
+
+  /** Requires an identifier and moves past it. */
+  private expectIdentifier(expected: string): void {
+    const token = this.current()
+    if (token.kind !== 'identifier') {
+      this.fail(`Expected ${expected}, found ${this.describe(token)}`, token)
+    }
+    this.position++
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().kind === 'newline') {
+      this.position++
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position]
+  }
+
+  /** Returns the next token of an expression, past newlines where they are ignored. */
+  private current(): Token {
+    if (this.skipsNewlines[this.skipsNewlines.length - 1]) {
+      this.skipNewlines()
+    }
+    return this.peek()
+  }
+
+  private describe(token: Token): string {
+    if (token.kind === 'end') {
+      return 'the end of the file'
+    }
+    if (token.kind === 'newline') {
+      return 'a newline'
+    }
+    return `'${token.text.split('\n')[0]}'`
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new Error(
+      `${this.fileName}:${token.line}:${token.column}: ${message}`
+    )
+  }
+}
+
+/**
+ * Parses a file in HCL native syntax, such as a Terraform .tf file.
+ *
+ * @param source - Contents of the file
+ * @param fileName - Name of the file, for error messages
+ * @returns The attributes and blocks of the file
+ * @throws {Error} When the file is not valid HCL, with its file name, line and column
+ */
+export function parseHcl(source: string, fileName: string): HclBody {
+  const tokens = tokenize(source, fileName)
+  return new HclParser(tokens, source, fileName).parseFile()
+}
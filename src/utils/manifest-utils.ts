@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Module manifest utilities for the terraform-module-gcs-publisher.
+ * This module parses the `modules` input, which describes several modules of a
+ * monorepo to publish in one run. The input is either an inline YAML/JSON list or
+ * the path to a manifest file containing one.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as fs from 'fs'
+import * as yaml from 'js-yaml'
+import { ModuleDefinition } from '../interfaces'
+
+/**
+ * Reads the module list from an inline value or a manifest file.
+ * Values that span several lines or start like a YAML/JSON list are parsed inline;
+ * anything else is treated as a path to a YAML or JSON manifest file.
+ *
+ * @param value - The raw `modules` input
+ * @returns The parsed document
+ * @throws {Error} When the manifest file cannot be read or the YAML is invalid
+ */
+function loadManifestDocument(value: string): unknown {
+  const trimmed = value.trim()
+  const isInline =
+    trimmed.includes('\n') || trimmed.startsWith('[') || trimmed.startsWith('-')
+
+  let content = trimmed
+  if (!isInline) {
+    try {
+      content = fs.readFileSync(trimmed, 'utf8')
+    } catch (error) {
+      throw new Error(
+        `Unable to read modules manifest ${trimmed}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  try {
+    // JSON is a subset of YAML, so one parser handles both formats
+    return yaml.load(content)
+  } catch (error) {
+    throw new Error(
+      `Invalid modules manifest: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Parses the `modules` input into module definitions.
+ * The document must be a list (or an object with a `modules` list) of entries with
+ * `name`, `path` and `version` fields. Module names must be unique.
+ *
+ * @param value - Inline YAML/JSON list, or the path to a manifest file
+ * @param requireVersions - Whether entries need a version (not when versions come
+ *    from a tag or from commits)
+ * @returns The module definitions in manifest order
+ * @throws {Error} When the manifest cannot be read or parsed
+ * @throws {Error} When an entry is missing a field or a module name is duplicated
+ */
+export function parseModuleManifest(
+  value: string,
+  requireVersions = true
+): ModuleDefinition[] {
+  const document = loadManifestDocument(value)
+  const entries =
+    document && !Array.isArray(document) && typeof document === 'object'
+      ? (document as { modules?: unknown }).modules
+      : document
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(
+      'Invalid modules manifest: expected a non-empty list of modules'
+    )
+  }
+
+  const seen = new Set<string>()
+  return entries.map((entry, index) => {
+    const fields = (entry || {}) as Record<string, unknown>
+    const definition: ModuleDefinition = {
+      name: String(fields.name ?? ''),
+      path: String(fields.path ?? ''),
+      version: String(fields.version ?? '')
+    }
+
+    for (const [field, fieldValue] of Object.entries(definition)) {
+      if (!fieldValue && (field !== 'version' || requireVersions)) {
+        throw new Error(
+          `Invalid modules manifest: entry ${index + 1} is missing '${field}'`
+        )
+      }
+    }
+    if (seen.has(definition.name)) {
+      throw new Error(
+        `Invalid modules manifest: module ${definition.name} is listed more than once`
+      )
+    }
+    seen.add(definition.name)
+
+    return definition
+  })
+}
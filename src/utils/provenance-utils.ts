@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Provenance utilities for the terraform-module-gcs-publisher.
+ * This module builds the SLSA provenance of a published archive: an in-toto statement
+ * whose subject is the archive's SHA-256 digest, recording the repository, commit,
+ * workflow, runner and inputs of the GitHub Actions run that published it.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import { Context } from '@actions/github/lib/context'
+import { ProvenanceStatement } from '../interfaces'
+
+/** Schema of the parameters recorded in the provenance of published archives */
+export const PROVENANCE_BUILD_TYPE =
+  'https://github.com/infraspecdev/terraform-module-gcs-publisher/provenance/v1'
+
+/** Content type of the provenance statement objects */
+export const PROVENANCE_CONTENT_TYPE = 'application/vnd.in-toto+json'
+
+/**
+ * Reads the path of the running workflow file from GITHUB_WORKFLOW_REF
+ * (owner/repo/.github/workflows/publish.yml@refs/heads/main).
+ *
+ * @param repository - The repository, as owner/repo
+ * @returns The path of the workflow within the repository, or '' outside a workflow
+ */
+function getWorkflowPath(repository: string): string {
+  const workflowRef = process.env.GITHUB_WORKFLOW_REF || ''
+  return workflowRef.replace(`${repository}/`, '').replace(/@.*$/, '')
+}
+
+/**
+ * Builds the SLSA v1 provenance statement of an archive from the GitHub context of
+ * the running job. Outside GitHub Actions, the fields the context lacks are empty.
+ *
+ * @param archiveName - File name of the archive (e.g. 'vpc-1.2.0.zip')
+ * @param sha256 - Hex SHA-256 digest of the archive
+ * @param inputs - The inputs the archive was published with, without secrets
+ * @returns The in-toto statement
+ */
+export function buildProvenanceStatement(
+  archiveName: string,
+  sha256: string,
+  inputs: Record<string, unknown>
+): ProvenanceStatement {
+  // Read the context when the statement is built, not when this module is loaded
+  const context = new Context()
+  const repository = process.env.GITHUB_REPOSITORY || ''
+  const repositoryUrl = `${context.serverUrl}/${repository}`
+  const runnerEnvironment = process.env.RUNNER_ENVIRONMENT || 'self-hosted'
+
+  return {
+    _type: 'https://in-toto.io/Statement/v1',
+    subject: [{ name: archiveName, digest: { sha256 } }],
+    predicateType: 'https://slsa.dev/provenance/v1',
+    predicate: {
+      buildDefinition: {
+        buildType: PROVENANCE_BUILD_TYPE,
+        externalParameters: {
+          workflow: {
+            ref: context.ref,
+            repository: repositoryUrl,
+            path: getWorkflowPath(repository)
+          },
+          inputs
+        },
+        internalParameters: {
+          github: {
+            event_name: context.eventName,
+            repository_id: process.env.GITHUB_REPOSITORY_ID,
+            repository_owner_id: process.env.GITHUB_REPOSITORY_OWNER_ID,
+            actor: context.actor,
+            runner_environment: runnerEnvironment
+          },
+          runner: {
+            name: process.env.RUNNER_NAME,
+            os: process.env.RUNNER_OS,
+            arch: process.env.RUNNER_ARCH
+          }
+        },
+        resolvedDependencies: [
+          {
+            uri: `git+${repositoryUrl}@${context.ref}`,
+            digest: { gitCommit: context.sha }
+          }
+        ]
+      },
+      runDetails: {
+        builder: {
+          id: `https://github.com/actions/runner/${runnerEnvironment}`
+        },
+        metadata: {
+          invocationId: `${repositoryUrl}/actions/runs/${context.runId || ''}/attempts/${process.env.GITHUB_RUN_ATTEMPT || '1'}`,
+          finishedOn: new Date().toISOString()
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Terraform Module Registry protocol utilities for the
+ * terraform-module-gcs-publisher.
+ * This module builds the static documents that let a bucket (served over HTTPS under a
+ * custom hostname) act as a Module Registry Protocol v1 server: the service discovery
+ * document, the list of available versions of each module, and one download document
+ * per version pointing Terraform at the archive.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import {
+  RegistryDiscoveryDocument,
+  RegistryDownloadDocument,
+  RegistryVersionsDocument,
+  VersionIndexEntry,
+  YankDetails
+} from '../interfaces'
+
+/** Object path of the service discovery document */
+export const REGISTRY_DISCOVERY_PATH = '.well-known/terraform.json'
+
+/** Base path of the modules.v1 service, relative to the registry host */
+export const REGISTRY_MODULES_PATH = 'v1/modules'
+
+/** Custom metadata key holding the download location, served as x-goog-meta-x-terraform-get */
+export const TERRAFORM_GET_METADATA_KEY = 'x-terraform-get'
+
+/**
+ * Builds the path of a module in the registry.
+ *
+ * @param namespace - Registry namespace (e.g. 'infraspec')
+ * @param moduleName - Name of the module
+ * @param provider - Main provider of the module (e.g. 'google')
+ * @returns The object path prefix of the module (e.g. 'v1/modules/infraspec/vpc/google')
+ */
+export function getRegistryModulePath(
+  namespace: string,
+  moduleName: string,
+  provider: string
+): string {
+  return `${REGISTRY_MODULES_PATH}/${namespace}/${moduleName}/${provider}`
+}
+
+/**
+ * Adds the modules.v1 service to a service discovery document, keeping any other
+ * services (such as providers.v1) it already announces.
+ *
+ * @param current - The current document, or undefined when there is none yet
+ * @returns The service discovery document
+ */
+export function buildDiscoveryDocument(
+  current: RegistryDiscoveryDocument | undefined
+): RegistryDiscoveryDocument {
+  return { ...current, 'modules.v1': `/${REGISTRY_MODULES_PATH}/` }
+}
+
+/**
+ * Builds the response of the "list available versions" endpoint of a module.
+ * Yanked versions stay listed, so configurations pinned to them keep working, but
+ * carry a deprecation with the yank reason and replacement.
+ *
+ * @param versions - The published versions
+ * @returns The versions document
+ */
+export function buildVersionsDocument(
+  versions: Array<Pick<VersionIndexEntry, 'version' | 'yanked'>>
+): RegistryVersionsDocument {
+  return {
+    modules: [
+      {
+        versions: versions.map(({ version, yanked }) =>
+          yanked
+            ? { version, deprecation: { reason: describeYank(yanked) } }
+            : { version }
+        )
+      }
+    ]
+  }
+}
+
+/**
+ * Describes why a version was yanked, naming its replacement when there is one.
+ *
+ * @param yanked - The deprecation details of the version
+ * @returns A one-line description, e.g. 'Leaks state (use 1.2.4 instead)'
+ */
+export function describeYank(yanked: YankDetails): string {
+  return yanked.replacement
+    ? `${yanked.reason} (use ${yanked.replacement} instead)`
+    : yanked.reason
+}
+
+/**
+ * Builds the download document of a version. The registry protocol normally returns
+ * the location in an X-Terraform-Get header, which a static bucket cannot send;
+ * Terraform falls back to the location in the JSON body when the header is absent.
+ *
+ * @param location - Module source address of the archive
+ * @returns The download document
+ */
+export function buildDownloadDocument(
+  location: string
+): RegistryDownloadDocument {
+  return { location }
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Version retention utilities for the terraform-module-gcs-publisher.
+ * This module decides which published versions of a module are kept when old versions
+ * are cleaned up. A retention policy combines counts (stable versions and pre-releases
+ * are retained separately), an age limit, the newest version of every major or minor
+ * line and pinned versions; a version is kept when any rule keeps it, and yanked
+ * versions are the first to go. Every decision records the rule that made it so that
+ * cleanups can be explained.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as semver from 'semver'
+import {
+  RetentionDecision,
+  RetentionPolicy,
+  VersionIndexEntry
+} from '../interfaces'
+import {
+  compareVersionsDescending,
+  getReleaseVersion,
+  isPrerelease,
+  isSemver
+} from './version-utils'
+
+/** Milliseconds in a day, for age-based retention */
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Finds the newest version of each release line: its highest stable version, or its
+ * highest pre-release when the line has no stable version yet.
+ *
+ * @param versions - Versions, newest first
+ * @param getLine - Maps a version to its line (e.g. its major version)
+ * @returns The newest version of each line
+ */
+function findLineHeads(
+  versions: string[],
+  getLine: (version: string) => string
+): Set<string> {
+  const heads = new Map<string, string>()
+  for (const version of versions) {
+    const line = getLine(version)
+    const head = heads.get(line)
+    if (head === undefined || (isPrerelease(head) && !isPrerelease(version))) {
+      heads.set(line, version)
+    }
+  }
+  return new Set(heads.values())
+}
+
+/**
+ * Parses a non-negative count in a retention policy rule.
+ *
+ * @param rule - The complete rule, for error messages
+ * @param value - The count
+ * @returns The count
+ * @throws {Error} When the value is not a non-negative integer
+ */
+function parseCount(rule: string, value: string | undefined): number {
+  if (!value || !/^\d+$/.test(value)) {
+    throw new Error(
+      `Invalid retention-policy rule '${rule}': expected a non-negative integer`
+    )
+  }
+  return parseInt(value, 10)
+}
+
+/**
+ * Parses an age in a retention policy rule.
+ *
+ * @param rule - The complete rule, for error messages
+ * @param value - The age in days or weeks (e.g. '90d', '12w')
+ * @returns The age in days
+ * @throws {Error} When the value is not a number of days or weeks
+ */
+function parseAge(rule: string, value: string | undefined): number {
+  const match = value?.match(/^(\d+)([dw])$/)
+  if (!match) {
+    throw new Error(
+      `Invalid retention-policy rule '${rule}': expected an age such as 90d or 12w`
+    )
+  }
+  return parseInt(match[1], 10) * (match[2] === 'w' ? 7 : 1)
+}
+
+/**
+ * Parses a retention policy expression. Rules are separated by commas or newlines:
+ * - stable:<n>: keep the latest n stable versions
+ * - prereleases:<n>: keep the latest n pre-releases
+ * - max-age:<age>: keep versions uploaded within the age (e.g. 90d or 12w)
+ * - latest-per-minor: keep the newest version of every minor line
+ * - latest-per-major: keep the newest version of every major line (always applied)
+ * - pin:<version>: never delete the version
+ * - drop-released-prereleases: delete pre-releases once their final release exists
+ * Counts that are not given default to 0, so only the listed rules keep versions.
+ *
+ * @param expression - The policy expression (e.g. 'max-age:90d, latest-per-minor')
+ * @returns The retention policy
+ * @throws {Error} When a rule is unknown or its value is malformed
+ */
+export function parseRetentionPolicy(expression: string): RetentionPolicy {
+  const policy: RetentionPolicy = {
+    keepStable: 0,
+    keepPrereleases: 0,
+    dropReleasedPrereleases: false
+  }
+
+  const rules = expression
+    .split(/[\n,]/)
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0)
+  for (const rule of rules) {
+    const [name, value] = rule.split(/:(.*)/).map((part) => part.trim())
+    const isFlag = value === undefined
+
+    if (name === 'stable') {
+      policy.keepStable = parseCount(rule, value)
+    } else if (name === 'prereleases') {
+      policy.keepPrereleases = parseCount(rule, value)
+    } else if (name === 'max-age') {
+      policy.maxAgeDays = parseAge(rule, value)
+    } else if (name === 'latest-per-minor' && isFlag) {
+      policy.keepLatestPerMinor = true
+    } else if (name === 'latest-per-major' && isFlag) {
+      // The newest version of each major line is never deleted anyway
+    } else if (name === 'drop-released-prereleases' && isFlag) {
+      policy.dropReleasedPrereleases = true
+    } else if (name === 'pin') {
+      if (!value || !isSemver(value)) {
+        throw new Error(
+          `Invalid retention-policy rule '${rule}': expected a semantic version`
+        )
+      }
+      policy.pinnedVersions = [...(policy.pinnedVersions || []), value]
+    } else {
+      throw new Error(
+        `Invalid retention-policy rule '${rule}'. Supported rules: stable:<n>, prereleases:<n>, max-age:<age>, latest-per-minor, latest-per-major, pin:<version>, drop-released-prereleases.`
+      )
+    }
+  }
+
+  return policy
+}
+
+/**
+ * Applies a retention policy to the published versions of a module.
+ * The version being published is always kept and does not count towards the limits.
+ * Of the others, a version is kept when it is pinned, is the newest version of its
+ * major line (or, with keepLatestPerMinor, of its minor line), is among the latest
+ * keepStable stable versions or keepPrereleases pre-releases, or was uploaded within
+ * maxAgeDays. With dropReleasedPrereleases, pre-releases whose final release is
+ * published are only kept when pinned or when they head a line. Yanked versions never
+ * head a line and only count towards the limits after every other version, so they
+ * are deleted first.
+ *
+ * @param versions - Published versions of the module with their upload timestamps and
+ *    yank details, in any order
+ * @param policy - The retention policy
+ * @param currentVersion - The version being published
+ * @param now - The time ages are measured from
+ * @returns One decision per version, newest first, with the rule that made it
+ */
+export function applyRetentionPolicy(
+  versions: Array<
+    Pick<VersionIndexEntry, 'version' | 'uploadTimestamp' | 'yanked'>
+  >,
+  policy: RetentionPolicy,
+  currentVersion: string,
+  now: Date = new Date()
+): RetentionDecision[] {
+  const uploadTimes = new Map(
+    versions.map((entry) => [entry.version, entry.uploadTimestamp])
+  )
+  const yanked = new Set(
+    versions.filter((entry) => entry.yanked).map((entry) => entry.version)
+  )
+  const sorted = [...uploadTimes.keys()].sort(compareVersionsDescending)
+  const allVersions = [...sorted, currentVersion].sort(
+    compareVersionsDescending
+  )
+  // Yanked versions never head a line
+  const headCandidates = allVersions.filter((version) => !yanked.has(version))
+  const majorLineHeads = findLineHeads(headCandidates, (version) =>
+    String(semver.major(version))
+  )
+  const minorLineHeads = findLineHeads(
+    headCandidates,
+    (version) => `${semver.major(version)}.${semver.minor(version)}`
+  )
+  const releases = new Set(
+    allVersions
+      .filter((version) => !isPrerelease(version))
+      .map(getReleaseVersion)
+  )
+  const pinned = new Set(policy.pinnedVersions || [])
+
+  // Yanked versions fill the count limits last, so they are the first to be deleted
+  const ranks = new Map<string, number>()
+  let stableRank = 0
+  let prereleaseRank = 0
+  for (const version of [
+    ...sorted.filter((version) => !yanked.has(version)),
+    ...sorted.filter((version) => yanked.has(version))
+  ]) {
+    if (version !== currentVersion) {
+      ranks.set(
+        version,
+        isPrerelease(version) ? ++prereleaseRank : ++stableRank
+      )
+    }
+  }
+
+  return sorted.map((version): RetentionDecision => {
+    if (version === currentVersion) {
+      return { version, keep: true, reason: 'version being published' }
+    }
+
+    const prerelease = isPrerelease(version)
+    const rank = ranks.get(version) as number
+    const limit = prerelease ? policy.keepPrereleases : policy.keepStable
+    const kind = prerelease ? 'pre-releases' : 'stable versions'
+    const outside = yanked.has(version)
+      ? `yanked and not among the latest ${limit} ${kind}`
+      : `older than the latest ${limit} ${kind}`
+
+    if (pinned.has(version)) {
+      return { version, keep: true, reason: 'pinned' }
+    }
+    if (majorLineHeads.has(version)) {
+      return {
+        version,
+        keep: true,
+        reason: `highest version of major line ${semver.major(version)}`
+      }
+    }
+    if (policy.keepLatestPerMinor && minorLineHeads.has(version)) {
+      return {
+        version,
+        keep: true,
+        reason: `newest version of minor line ${semver.major(version)}.${semver.minor(version)}`
+      }
+    }
+    if (
+      prerelease &&
+      policy.dropReleasedPrereleases &&
+      releases.has(getReleaseVersion(version))
+    ) {
+      return {
+        version,
+        keep: false,
+        reason: `pre-release of the published ${getReleaseVersion(version)} release`
+      }
+    }
+    if (rank <= limit) {
+      return {
+        version,
+        keep: true,
+        reason: `one of the latest ${limit} ${kind}`
+      }
+    }
+
+    const uploadTime = Date.parse(uploadTimes.get(version) || '')
+    if (policy.maxAgeDays !== undefined) {
+      if (now.getTime() - uploadTime <= policy.maxAgeDays * DAY_MS) {
+        return {
+          version,
+          keep: true,
+          reason: `uploaded within the last ${policy.maxAgeDays} days`
+        }
+      }
+      return {
+        version,
+        keep: false,
+        reason: `${outside} and ${Number.isNaN(uploadTime) ? 'without an upload timestamp' : `uploaded more than ${policy.maxAgeDays} days ago`}`
+      }
+    }
+    return {
+      version,
+      keep: false,
+      reason: outside
+    }
+  })
+}
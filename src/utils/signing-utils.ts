@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Signing utilities for the terraform-module-gcs-publisher.
+ * This module produces and checks cosign-style detached signatures of module archives:
+ * a base64 signature of the archive bytes (`.sig`) and the PEM certificate or public
+ * key it verifies with (`.pem`). Archives are signed either with a provided private
+ * key, or keylessly: an ephemeral key pair is certified by Sigstore's Fulcio CA for the
+ * identity of the GitHub OIDC token of the running job, then thrown away.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as core from '@actions/core'
+import {
+  createPrivateKey,
+  createPublicKey,
+  createSign,
+  createVerify,
+  generateKeyPairSync,
+  KeyObject,
+  sign,
+  X509Certificate
+} from 'crypto'
+import { createReadStream } from 'fs'
+import { ArchiveSignature, SignatureTrust } from '../interfaces'
+
+/** Sigstore's public Fulcio certificate authority */
+export const DEFAULT_FULCIO_URL = 'https://fulcio.sigstore.dev'
+
+/** Audience of the GitHub OIDC token exchanged for a Fulcio certificate */
+export const SIGSTORE_AUDIENCE = 'sigstore'
+
+/** Response of the Fulcio v2 signingCert endpoint */
+interface FulcioResponse {
+  signedCertificateEmbeddedSct?: { chain: { certificates: string[] } }
+  signedCertificateDetachedSct?: { chain: { certificates: string[] } }
+}
+
+/**
+ * Streams a file through a SHA-256 signer or verifier, so large archives are never
+ * held in memory.
+ *
+ * @param filePath - Path to the file
+ * @param target - The signer or verifier to feed
+ * @throws {Error} When the file cannot be read
+ */
+function feedFile(
+  filePath: string,
+  target: ReturnType<typeof createSign> | ReturnType<typeof createVerify>
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stream = createReadStream(filePath)
+
+    stream.on('error', (err) => reject(err))
+    stream.on('data', (chunk) => target.update(chunk))
+    stream.on('end', () => resolve())
+  })
+}
+
+/**
+ * Splits a PEM bundle into its blocks.
+ *
+ * @param pem - One or more concatenated PEM blocks
+ * @returns The PEM blocks, in order
+ */
+function splitPem(pem: string): string[] {
+  return pem.match(/-----BEGIN [^-]+-----[\s\S]+?-----END [^-]+-----/g) || []
+}
+
+/**
+ * Requests a short-lived signing certificate from Fulcio for an ephemeral key pair.
+ * The proof of possession is a signature of the token's subject with the private key.
+ *
+ * @param token - GitHub OIDC token with the sigstore audience
+ * @param privateKey - The ephemeral private key
+ * @param publicKey - Its public key, to be certified
+ * @param fulcioUrl - Fulcio certificate authority (Sigstore's by default)
+ * @returns The PEM certificate chain, leaf certificate first
+ * @throws {Error} When Fulcio refuses the request or returns no certificate
+ */
+export async function requestSigningCertificate(
+  token: string,
+  privateKey: KeyObject,
+  publicKey: KeyObject,
+  fulcioUrl: string = DEFAULT_FULCIO_URL
+): Promise<string> {
+  const claims = JSON.parse(
+    Buffer.from(token.split('.')[1] || '', 'base64url').toString('utf8')
+  ) as { sub?: string }
+  const proofOfPossession = sign(
+    'sha256',
+    Buffer.from(claims.sub || ''),
+    privateKey
+  ).toString('base64')
+
+  const response = await fetch(`${fulcioUrl}/api/v2/signingCert`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      credentials: { oidcIdentityToken: token },
+      publicKeyRequest: {
+        publicKey: {
+          algorithm: 'ECDSA',
+          content: publicKey.export({ type: 'spki', format: 'pem' })
+        },
+        proofOfPossession
+      }
+    })
+  })
+  if (!response.ok) {
+    throw new Error(
+      `Fulcio refused the signing certificate request (HTTP ${response.status}): ${await response.text()}`
+    )
+  }
+
+  const body = (await response.json()) as FulcioResponse
+  const chain = (
+    body.signedCertificateEmbeddedSct || body.signedCertificateDetachedSct
+  )?.chain.certificates
+  if (!chain || chain.length === 0) {
+    throw new Error('Fulcio returned no signing certificate')
+  }
+  return `${chain.map((certificate) => certificate.trim()).join('\n')}\n`
+}
+
+/**
+ * Signs a file with a provided private key, or keylessly with an ephemeral key pair
+ * certified by Fulcio for the identity of the job's GitHub OIDC token.
+ *
+ * @param filePath - Path to the file to sign
+ * @param privateKeyPem - PEM private key (EC or RSA); keyless signing when omitted
+ * @param fulcioUrl - Fulcio certificate authority used for keyless signing
+ * @returns The base64 signature and the PEM certificate chain (keyless) or public key
+ * @throws {Error} When the private key cannot be read
+ * @throws {Error} When the OIDC token or the signing certificate cannot be obtained
+ * @throws {Error} When the file cannot be read
+ */
+export async function signFile(
+  filePath: string,
+  privateKeyPem?: string,
+  fulcioUrl: string = DEFAULT_FULCIO_URL
+): Promise<ArchiveSignature> {
+  let privateKey: KeyObject
+  let certificate: string
+
+  if (privateKeyPem) {
+    try {
+      privateKey = createPrivateKey(privateKeyPem)
+    } catch (error) {
+      throw new Error(
+        `Unable to read the signing key: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+    certificate = createPublicKey(privateKey)
+      .export({ type: 'spki', format: 'pem' })
+      .toString()
+  } else {
+    let token: string
+    try {
+      token = await core.getIDToken(SIGSTORE_AUDIENCE)
+    } catch (error) {
+      throw new Error(
+        `Unable to obtain a GitHub OIDC token for keyless signing (does the job have the 'id-token: write' permission?): ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+    const keyPair = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    privateKey = keyPair.privateKey
+    certificate = await requestSigningCertificate(
+      token,
+      keyPair.privateKey,
+      keyPair.publicKey,
+      fulcioUrl
+    )
+  }
+
+  const signer = createSign('sha256')
+  await feedFile(filePath, signer)
+  return { signature: signer.sign(privateKey, 'base64'), certificate }
+}
+
+/**
+ * Checks a detached signature of a file. The signature must verify with the key of
+ * the certificate (or the public key) published with it; when a trusted public key is
+ * given, the signature must verify with that key instead. A certificate chain is only
+ * checked for consistency: it is not pinned to the Sigstore root and no transparency
+ * log entry shows it was used while valid, so the identity it names is never trusted.
+ *
+ * @param filePath - Path to the signed file
+ * @param signature - The base64 signature and its PEM certificate chain or public key
+ * @param trust - The public key the signature must verify with
+ * @returns The checks that failed, empty when the signature is valid and trusted
+ * @throws {Error} When the file cannot be read
+ */
+export async function verifyFileSignature(
+  filePath: string,
+  signature: ArchiveSignature,
+  trust: SignatureTrust = {}
+): Promise<string[]> {
+  const issues: string[] = []
+  let key: KeyObject
+
+  try {
+    const blocks = splitPem(signature.certificate)
+    if (blocks[0]?.includes('CERTIFICATE')) {
+      const chain = blocks.map((block) => new X509Certificate(block))
+      chain.slice(1).forEach((issuer, index) => {
+        if (!chain[index].verify(issuer.publicKey)) {
+          issues.push('certificate chain is broken')
+        }
+      })
+      key = chain[0].publicKey
+    } else {
+      key = createPublicKey(signature.certificate)
+    }
+  } catch {
+    return ['certificate or public key cannot be read']
+  }
+
+  if (trust.publicKey) {
+    const trustedKey = createPublicKey(trust.publicKey)
+    if (!trustedKey.equals(key)) {
+      issues.push('signed with a key other than the trusted signing-public-key')
+    }
+    key = trustedKey
+  }
+
+  const verifier = createVerify('sha256')
+  await feedFile(filePath, verifier)
+  if (!verifier.verify(key, signature.signature, 'base64')) {
+    issues.push('signature does not match the archive')
+  }
+
+  return issues
+}
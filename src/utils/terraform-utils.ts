@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Terraform utilities for the terraform-module-gcs-publisher.
+ * This module validates Terraform modules before they are published: it requires .tf
+ * files, parses every one of them that is packaged to catch syntax errors, and reads
+ * the interface of the module (variables, outputs, required providers and Terraform
+ * version) from the files of its root. When terraform is installed, it can also run
+ * `terraform fmt -check` and `terraform validate`.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as core from '@actions/core'
+import * as exec from '@actions/exec'
+import * as io from '@actions/io'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  HclAttribute,
+  HclBody,
+  TerraformModuleInfo,
+  TerraformProviderRequirement
+} from '../interfaces'
+import { parseHcl } from './hcl-utils'
+
+/** Directories whose Terraform files are never checked */
+const SKIPPED_DIRECTORIES = ['.terraform', 'node_modules']
+
+/** Dependency lock file `terraform init` writes to the module root */
+const LOCK_FILE_NAME = '.terraform.lock.hcl'
+
+/**
+ * Lists the Terraform files (.tf and .tf.json) among the packaged files of a module,
+ * its submodules and examples included. Files in hidden directories are skipped.
+ *
+ * @param packagedFiles - Module-relative paths of the packaged files
+ * @returns The paths of the Terraform files, sorted
+ */
+export function listTerraformFiles(packagedFiles: string[]): string[] {
+  return packagedFiles
+    .filter(
+      (file) =>
+        (file.endsWith('.tf') || file.endsWith('.tf.json')) &&
+        !file
+          .split('/')
+          .slice(0, -1)
+          .some(
+            (directory) =>
+              directory.startsWith('.') ||
+              SKIPPED_DIRECTORIES.includes(directory)
+          )
+    )
+    .sort()
+}
+
+/**
+ * Reads an attribute holding a literal string.
+ *
+ * @param attribute - The attribute, if set
+ * @returns The string, or undefined when the attribute is unset or not a literal string
+ */
+function readString(attribute?: HclAttribute): string | undefined {
+  return typeof attribute?.value === 'string' ? attribute.value : undefined
+}
+
+/**
+ * Reads the providers of a required_providers block. Entries are objects with a source
+ * and a version, or (before Terraform 0.13) just a version constraint. Objects that
+ * are not literals, for instance because they list configuration_aliases, have their
+ * source and version read from their source text.
+ *
+ * @param body - Body of the required_providers block
+ * @returns The required providers, in file order
+ */
+function readRequiredProviders(body: HclBody): TerraformProviderRequirement[] {
+  return Object.entries(body.attributes).map(([name, attribute]) => {
+    if (typeof attribute.value === 'string') {
+      return { name, version: attribute.value }
+    }
+    const requirement: TerraformProviderRequirement = { name }
+    for (const key of ['source', 'version'] as const) {
+      const match = new RegExp(`\\b${key}\\s*[=:]\\s*"([^"]*)"`).exec(
+        attribute.expression
+      )
+      if (match) {
+        requirement[key] = match[1]
+      }
+    }
+    return requirement
+  })
+}
+
+/**
+ * Reads the interface of a module from the bodies of the .tf files of its root.
+ *
+ * @param bodies - Parsed root files
+ * @returns Variables, outputs, required providers and Terraform version
+ */
+function readModuleInterface(
+  bodies: HclBody[]
+): Omit<TerraformModuleInfo, 'files'> {
+  const info: Omit<TerraformModuleInfo, 'files'> = {
+    variables: [],
+    outputs: [],
+    requiredProviders: []
+  }
+  const requiredVersions: string[] = []
+
+  for (const block of bodies.flatMap((body) => body.blocks)) {
+    const { attributes } = block.body
+    if (block.type === 'variable' && block.labels.length === 1) {
+      info.variables.push({
+        name: block.labels[0],
+        type: attributes.type?.expression,
+        description: readString(attributes.description),
+        default: attributes.default?.value,
+        required: !attributes.default,
+        sensitive: attributes.sensitive?.value === true
+      })
+    } else if (block.type === 'output' && block.labels.length === 1) {
+      info.outputs.push({
+        name: block.labels[0],
+        description: readString(attributes.description),
+        sensitive: attributes.sensitive?.value === true
+      })
+    } else if (block.type === 'terraform') {
+      const requiredVersion = readString(attributes.required_version)
+      if (requiredVersion) {
+        requiredVersions.push(requiredVersion)
+      }
+      for (const nested of block.body.blocks) {
+        if (nested.type === 'required_providers') {
+          info.requiredProviders.push(...readRequiredProviders(nested.body))
+        }
+      }
+    }
+  }
+
+  if (requiredVersions.length > 0) {
+    info.requiredVersion = requiredVersions.join(', ')
+  }
+  return info
+}
+
+/**
+ * Checks that the packaged files of a Terraform module all parse, and reads its
+ * interface from the .tf files of its root. Files that are not packaged are neither
+ * checked nor read. Files in JSON syntax (.tf.json) are checked to be valid JSON but
+ * are not read.
+ *
+ * @param modulePath - Path to the module
+ * @param packagedFiles - Module-relative paths of the packaged files
+ * @returns The Terraform files of the root and the interface of the module
+ * @throws {Error} When the root of the module holds no Terraform files
+ * @throws {Error} When Terraform files have syntax errors, listing all of them
+ */
+export function inspectTerraformModule(
+  modulePath: string,
+  packagedFiles: string[]
+): TerraformModuleInfo {
+  const files = listTerraformFiles(packagedFiles)
+  const rootFiles = files.filter((file) => !file.includes('/'))
+  if (rootFiles.length === 0) {
+    throw new Error(
+      `No Terraform files (.tf or .tf.json) found in ${modulePath}${files.length > 0 ? ` (only in subdirectories: ${files[0]}${files.length > 1 ? ', ...' : ''})` : ''}`
+    )
+  }
+
+  const errors: string[] = []
+  const rootBodies: HclBody[] = []
+  for (const file of files) {
+    const source = fs.readFileSync(path.join(modulePath, file), 'utf8')
+    try {
+      if (file.endsWith('.tf.json')) {
+        JSON.parse(source)
+        continue
+      }
+      const body = parseHcl(source, file)
+      if (rootFiles.includes(file)) {
+        rootBodies.push(body)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      errors.push(file.endsWith('.tf.json') ? `${file}: ${message}` : message)
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Terraform files in ${modulePath} have syntax errors:\n${errors.join('\n')}`
+    )
+  }
+
+  return { files: rootFiles, ...readModuleInterface(rootBodies) }
+}
+
+/**
+ * Runs `terraform fmt -check` and `terraform validate` on a module, when terraform is
+ * on the PATH. `terraform init -backend=false` runs first, with its data directory in
+ * a temporary directory and without leaving a new lock file behind, so nothing it
+ * writes ends up in the archive.
+ *
+ * @param modulePath - Path to the module
+ * @returns Whether the checks ran (false when terraform is not installed)
+ * @throws {Error} When files are not formatted, or the module fails to initialize or
+ *    validate
+ */
+export async function runTerraformChecks(modulePath: string): Promise<boolean> {
+  const terraform = await io.which('terraform', false)
+  if (!terraform) {
+    core.warning(
+      `terraform was not found on the PATH; skipping terraform fmt -check and terraform validate of ${modulePath}`
+    )
+    return false
+  }
+
+  const fmt = await exec.getExecOutput(
+    terraform,
+    ['fmt', '-check', '-recursive', '-list=true', '-no-color'],
+    { cwd: modulePath, ignoreReturnCode: true, silent: true }
+  )
+  if (fmt.exitCode !== 0) {
+    const unformatted = fmt.stdout.trim().split('\n').filter(Boolean)
+    throw new Error(
+      `terraform fmt -check failed in ${modulePath}${unformatted.length > 0 ? `; run terraform fmt on: ${unformatted.join(', ')}` : `: ${fmt.stderr.trim()}`}`
+    )
+  }
+
+  const dataDir = fs.mkdtempSync(
+    path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'terraform-data-')
+  )
+  const lockFile = path.join(modulePath, LOCK_FILE_NAME)
+  const hadLockFile = fs.existsSync(lockFile)
+  const options = {
+    cwd: modulePath,
+    ignoreReturnCode: true,
+    silent: true,
+    env: {
+      ...(process.env as Record<string, string>),
+      TF_DATA_DIR: dataDir,
+      TF_IN_AUTOMATION: '1'
+    }
+  }
+  try {
+    for (const args of [
+      ['init', '-backend=false', '-input=false', '-no-color'],
+      ['validate', '-no-color']
+    ]) {
+      const result = await exec.getExecOutput(terraform, args, options)
+      if (result.exitCode !== 0) {
+        throw new Error(
+          `terraform ${args[0]} failed in ${modulePath}:\n${(result.stderr || result.stdout).trim()}`
+        )
+      }
+    }
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true })
+    if (!hadLockFile) {
+      fs.rmSync(lockFile, { force: true })
+    }
+  }
+
+  core.info(
+    `terraform fmt -check and terraform validate passed for ${modulePath}`
+  )
+  return true
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview URL utilities for the terraform-module-gcs-publisher.
+ * This module builds the addresses under which published modules can be consumed,
+ * depending on whether the archives are publicly readable or private.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import { ModuleAccess } from '../interfaces'
+
+/**
+ * Checks whether an access mode makes published objects readable by anyone.
+ *
+ * @param access - The access mode of the published objects
+ * @returns True for 'public' and for the publicRead predefined ACL
+ */
+export function isPublicAccess(access: ModuleAccess): boolean {
+  return access === 'public' || access === 'predefined-acl:publicRead'
+}
+
+/**
+ * Builds the HTTPS URL of an object. Private objects can be downloaded from it with
+ * an OAuth access token.
+ *
+ * @param bucketName - Name of the GCS bucket holding the object
+ * @param objectPath - Path of the object within the bucket
+ * @returns The https://storage.googleapis.com URL of the object
+ */
+export function getObjectUrl(bucketName: string, objectPath: string): string {
+  return `https://storage.googleapis.com/${bucketName}/${objectPath}`
+}
+
+/**
+ * Builds the Terraform module source address of a published archive.
+ * Public objects are referenced by their plain HTTPS URL. Private objects use
+ * Terraform's `gcs::` source type, which downloads with the caller's Google
+ * credentials.
+ *
+ * @param bucketName - Name of the GCS bucket holding the archive
+ * @param objectPath - Path of the archive within the bucket
+ * @param access - The access mode of the archive
+ * @returns The URL to use as a module `source`
+ */
+export function getModuleSourceUrl(
+  bucketName: string,
+  objectPath: string,
+  access: ModuleAccess
+): string {
+  if (isPublicAccess(access)) {
+    return getObjectUrl(bucketName, objectPath)
+  }
+  return `gcs::https://www.googleapis.com/storage/v1/${bucketName}/${objectPath}`
+}
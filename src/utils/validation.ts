@@ -1,14 +1,46 @@
 /**
  * @fileoverview Utility functions for validating input parameters.
- * This module provides validation functions for Google Cloud Storage bucket names
- * and Terraform module names to ensure they meet the required formatting rules.
+ * This module provides validation functions for Google Cloud Storage bucket names,
+ * Terraform module names, access modes, cleanup modes, Workload Identity Federation settings,
+ * signing keys, module validation levels and maintenance lines to ensure they meet the
+ * required formatting rules.
  * These functions are used to verify user inputs before proceeding with operations.
  *
  * @author Infraspec
  * @license MIT
  */
 
-// No imports needed for validation functions
+import { createPrivateKey, createPublicKey, KeyObject } from 'crypto'
+import {
+  CleanupMode,
+  ColdStorageClass,
+  ModuleAccess,
+  ModuleValidation,
+  PredefinedAcl
+} from '../interfaces'
+
+/** Predefined ACLs accepted after the 'predefined-acl:' prefix of the access input */
+const PREDEFINED_ACLS: PredefinedAcl[] = [
+  'authenticatedRead',
+  'bucketOwnerFullControl',
+  'bucketOwnerRead',
+  'private',
+  'projectPrivate',
+  'publicRead'
+]
+
+/** Key types archives can be signed with (SHA-256 with ECDSA or RSA) */
+const SIGNING_KEY_TYPES = ['ec', 'rsa']
+
+/** Levels accepted by the validate-module input */
+const MODULE_VALIDATIONS: ModuleValidation[] = ['none', 'hcl', 'terraform']
+
+/** Storage classes accepted after the 'storage-class:' prefix of the cleanup-mode input */
+const COLD_STORAGE_CLASSES: ColdStorageClass[] = [
+  'NEARLINE',
+  'COLDLINE',
+  'ARCHIVE'
+]
 
 /**
  * Validates a GCS bucket name according to Google Cloud Storage naming rules.
@@ -51,3 +83,190 @@ export function validateModuleName(name: string): string {
   }
   return name
 }
+
+/**
+ * Validates an access mode for published modules.
+ *
+ * @param access - The access mode to validate ('public', 'private' or
+ *    'predefined-acl:<name>' with one of the GCS predefined ACL names)
+ * @returns The validated access mode
+ * @throws {Error} When the access mode or the predefined ACL name is not recognized
+ */
+export function validateAccess(access: string): ModuleAccess {
+  if (access === 'public' || access === 'private') {
+    return access
+  }
+  const [prefix, acl] = access.split(/:(.*)/)
+  if (
+    prefix === 'predefined-acl' &&
+    PREDEFINED_ACLS.includes(acl as PredefinedAcl)
+  ) {
+    return access as ModuleAccess
+  }
+  throw new Error(
+    `Invalid access value: ${access}. Must be 'public', 'private' or 'predefined-acl:<name>' where name is one of: ${PREDEFINED_ACLS.join(', ')}.`
+  )
+}
+
+/**
+ * Validates the cleanup mode applied to versions removed by the retention policy.
+ *
+ * @param mode - The cleanup mode ('delete', 'archive' or 'storage-class:<class>'
+ *    with one of NEARLINE, COLDLINE or ARCHIVE)
+ * @returns The validated cleanup mode
+ * @throws {Error} When the cleanup mode or the storage class is not recognized
+ */
+export function validateCleanupMode(mode: string): CleanupMode {
+  if (mode === 'delete' || mode === 'archive') {
+    return mode
+  }
+  const [prefix, storageClass] = mode.split(/:(.*)/)
+  if (
+    prefix === 'storage-class' &&
+    COLD_STORAGE_CLASSES.includes(storageClass as ColdStorageClass)
+  ) {
+    return mode as CleanupMode
+  }
+  throw new Error(
+    `Invalid cleanup-mode value: ${mode}. Must be 'delete', 'archive' or 'storage-class:<class>' where class is one of: ${COLD_STORAGE_CLASSES.join(', ')}.`
+  )
+}
+
+/**
+ * Validates a Workload Identity Provider resource name.
+ *
+ * @param provider - Full provider resource name, e.g.
+ *    'projects/123456/locations/global/workloadIdentityPools/github/providers/my-repo'
+ * @returns The validated provider name
+ * @throws {Error} When the name is not a full provider resource name
+ */
+export function validateWorkloadIdentityProvider(provider: string): string {
+  const providerRegex =
+    /^projects\/\d+\/locations\/global\/workloadIdentityPools\/[a-z0-9-]+\/providers\/[a-z0-9-]+$/
+  if (!providerRegex.test(provider)) {
+    throw new Error(
+      `Invalid workload-identity-provider: ${provider}. Must be of the form projects/<project-number>/locations/global/workloadIdentityPools/<pool>/providers/<provider>.`
+    )
+  }
+  return provider
+}
+
+/**
+ * Validates a service account email address: user-managed accounts
+ * (name@project.iam.gserviceaccount.com, including domain-scoped projects) as well as
+ * default accounts such as project@appspot.gserviceaccount.com.
+ *
+ * @param email - The service account email
+ * @returns The validated email
+ * @throws {Error} When the value is not a service account email address
+ */
+export function validateServiceAccount(email: string): string {
+  const emailRegex = /^[a-z0-9._-]+@(?:[a-z0-9-]+\.)+gserviceaccount\.com$/
+  if (!emailRegex.test(email)) {
+    throw new Error(
+      `Invalid service-account: ${email}. Must be a service account email such as name@project.iam.gserviceaccount.com.`
+    )
+  }
+  return email
+}
+
+/**
+ * Validates a Terraform Module Registry namespace.
+ *
+ * @param namespace - The namespace to validate (letters, numbers, hyphens and
+ *    underscores, at most 64 characters, starting and ending with a letter or number)
+ * @returns The validated namespace
+ * @throws {Error} When the namespace does not follow the registry naming rules
+ */
+export function validateRegistryNamespace(namespace: string): string {
+  const namespaceRegex = /^[0-9A-Za-z](?:[0-9A-Za-z_-]{0,62}[0-9A-Za-z])?$/
+  if (!namespaceRegex.test(namespace)) {
+    throw new Error(
+      `Invalid namespace: ${namespace}. Must be at most 64 letters, numbers, hyphens and underscores, starting and ending with a letter or number.`
+    )
+  }
+  return namespace
+}
+
+/**
+ * Validates the provider name under which a module is published in the registry.
+ *
+ * @param provider - The provider name to validate (lowercase letters and numbers only,
+ *    e.g. 'google')
+ * @returns The validated provider name
+ * @throws {Error} When the provider name does not follow the registry naming rules
+ */
+export function validateRegistryProvider(provider: string): string {
+  const providerRegex = /^[0-9a-z]{1,64}$/
+  if (!providerRegex.test(provider)) {
+    throw new Error(
+      `Invalid provider: ${provider}. Must be 1-64 lowercase letters and numbers.`
+    )
+  }
+  return provider
+}
+
+/**
+ * Validates a PEM key archives are signed or verified with. The key itself is never
+ * included in the error, as it may be a secret.
+ *
+ * @param pem - The PEM key
+ * @param kind - Whether the key is the private signing-key or the signing-public-key
+ * @returns The validated PEM key
+ * @throws {Error} When the key cannot be read or is neither an EC nor an RSA key
+ */
+export function validateSigningKey(
+  pem: string,
+  kind: 'private' | 'public'
+): string {
+  const input = kind === 'private' ? 'signing-key' : 'signing-public-key'
+  let key: KeyObject
+  try {
+    key = kind === 'private' ? createPrivateKey(pem) : createPublicKey(pem)
+  } catch {
+    throw new Error(
+      `Invalid ${input} value: it is not a ${kind} key in PEM format.`
+    )
+  }
+  if (!SIGNING_KEY_TYPES.includes(key.asymmetricKeyType || '')) {
+    throw new Error(
+      `Invalid ${input} value: ${key.asymmetricKeyType} keys are not supported. Must be an EC or RSA key.`
+    )
+  }
+  return pem
+}
+
+/**
+ * Validates how a module is checked before it is published.
+ *
+ * @param validation - 'none', 'hcl' (parse the Terraform files) or 'terraform' (also
+ *    run terraform fmt -check and terraform validate)
+ * @returns The validated level
+ * @throws {Error} When the level is not recognized
+ */
+export function validateModuleValidation(validation: string): ModuleValidation {
+  if (MODULE_VALIDATIONS.includes(validation as ModuleValidation)) {
+    return validation as ModuleValidation
+  }
+  throw new Error(
+    `Invalid validate-module value: ${validation}. Must be one of: ${MODULE_VALIDATIONS.join(', ')}.`
+  )
+}
+
+/**
+ * Validates a maintenance line, a major or minor version line older versions may still
+ * be published in.
+ *
+ * @param line - The line to validate (e.g. '1.x' or '2.3.x')
+ * @returns The validated line
+ * @throws {Error} When the line is not a major or minor version followed by '.x'
+ */
+export function validateMaintenanceLine(line: string): string {
+  const lineRegex = /^(0|[1-9]\d*)\.(?:(0|[1-9]\d*)\.)?x$/
+  if (!lineRegex.test(line)) {
+    throw new Error(
+      `Invalid maintenance-lines entry: ${line}. Must be a major or minor version line such as 1.x or 2.3.x.`
+    )
+  }
+  return line
+}
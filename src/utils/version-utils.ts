@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Version utilities for the terraform-module-gcs-publisher.
+ * This module recognizes versions using the full Semantic Versioning 2.0.0 grammar,
+ * including pre-release identifiers and build metadata, extracts the version from the
+ * object names of published archives and from git tags, finds the release a new
+ * version must stay compatible with, and checks that new versions do not go backwards.
+ *
+ * @author Infraspec
+ * @license MIT
+ */
+
+import * as semver from 'semver'
+
+/** Regular expression for a complete semantic version, as published on semver.org */
+const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/
+
+/**
+ * Checks whether a string is a semantic version. Unlike semver.valid, prefixes such
+ * as 'v' or '=' and surrounding whitespace are rejected, since the version is used
+ * verbatim in object names.
+ *
+ * @param version - The string to check (e.g. '1.2.0', '2.0.0-rc.1', '1.0.0+build.5')
+ * @returns True when the string is a semantic version
+ */
+export function isSemver(version: string): boolean {
+  return SEMVER_REGEX.test(version)
+}
+
+/**
+ * Checks whether a semantic version is a pre-release.
+ *
+ * @param version - A semantic version
+ * @returns True when the version has pre-release identifiers (e.g. '2.0.0-rc.1')
+ */
+export function isPrerelease(version: string): boolean {
+  return semver.prerelease(version) !== null
+}
+
+/**
+ * Strips the pre-release identifiers and build metadata from a semantic version.
+ *
+ * @param version - A semantic version (e.g. '2.0.0-rc.1+build.7')
+ * @returns The release the version belongs to (e.g. '2.0.0')
+ */
+export function getReleaseVersion(version: string): string {
+  return `${semver.major(version)}.${semver.minor(version)}.${semver.patch(version)}`
+}
+
+/**
+ * Orders semantic versions from newest to oldest. Versions differing only in build
+ * metadata have the same precedence, so they are ordered by their build metadata to
+ * keep the order stable.
+ *
+ * @param a - A semantic version
+ * @param b - Another semantic version
+ * @returns A negative number when a is newer than b, positive when older, 0 when equal
+ */
+export function compareVersionsDescending(a: string, b: string): number {
+  return semver.compareBuild(b, a)
+}
+
+/**
+ * Extracts the version from the object name of a published archive.
+ *
+ * @param objectName - Full object name (e.g. 'modules/vpc/vpc-2.0.0-rc.1.zip')
+ * @param moduleFolder - Folder path of the module in the bucket (e.g. 'modules/vpc')
+ * @param moduleName - Name of the module
+ * @returns The version, or undefined when the object is not an archive of the module
+ */
+export function parseArchiveVersion(
+  objectName: string,
+  moduleFolder: string,
+  moduleName: string
+): string | undefined {
+  const prefix = `${moduleFolder}/${moduleName}-`
+  if (!objectName.startsWith(prefix) || !objectName.endsWith('.zip')) {
+    return undefined
+  }
+  const version = objectName.slice(prefix.length, -'.zip'.length)
+  return isSemver(version) ? version : undefined
+}
+
+/**
+ * Reads the version a git tag releases. A 'v' prefix is dropped, and in monorepos the
+ * tag may be prefixed with the name of the module it releases (e.g. 'vpc/v1.2.3').
+ *
+ * @param tag - Name of the tag, with or without its 'refs/tags/' prefix
+ * @returns The module named by the tag, if any, and the version, or undefined when the
+ *    tag does not name a semantic version
+ */
+export function parseVersionTag(
+  tag: string
+): { moduleName?: string; version: string } | undefined {
+  const match = /^(?:(.+)\/)?v?([^/]+)$/.exec(tag.replace(/^refs\/tags\//, ''))
+  if (!match || !isSemver(match[2])) {
+    return undefined
+  }
+  return match[1]
+    ? { moduleName: match[1], version: match[2] }
+    : { version: match[2] }
+}
+
+/**
+ * Finds the release a new version must stay compatible with: the newest release
+ * before it in the same major line. Before 1.0.0 every minor version starts a new
+ * line, since anything may change between 0.y releases.
+ *
+ * @param version - The new version
+ * @param publishedVersions - The published versions
+ * @returns The newest earlier release (pre-releases are skipped) in the same line, or
+ *    undefined when the new version starts its line
+ */
+export function findPreviousRelease(
+  version: string,
+  publishedVersions: string[]
+): string | undefined {
+  const major = semver.major(version)
+  const minor = semver.minor(version)
+  return publishedVersions
+    .filter(
+      (candidate) =>
+        !isPrerelease(candidate) &&
+        semver.major(candidate) === major &&
+        (major > 0 || semver.minor(candidate) === minor) &&
+        semver.lt(candidate, version)
+    )
+    .sort(compareVersionsDescending)[0]
+}
+
+/**
+ * Finds the newest release among versions, pre-releases aside.
+ *
+ * @param versions - The versions, in any order
+ * @returns The newest release, or undefined when every version is a pre-release
+ */
+export function findLatestRelease(versions: string[]): string | undefined {
+  return versions
+    .filter((version) => !isPrerelease(version))
+    .sort(compareVersionsDescending)[0]
+}
+
+/**
+ * Finds a published version newer than a new version, which publishing it would go
+ * back from. A version in one of the maintenance lines is only compared with the
+ * versions of its line, so older lines can still be patched.
+ *
+ * @param version - The new version
+ * @param publishedVersions - The published versions
+ * @param maintenanceLines - Lines older versions may be published in (e.g. '1.x')
+ * @returns The newest published version newer than the new version (in its
+ *    maintenance line, if any), or undefined when the new version is the newest
+ */
+export function findNewerVersion(
+  version: string,
+  publishedVersions: string[],
+  maintenanceLines: string[] = []
+): string | undefined {
+  const inLine = (candidate: string, line: string): boolean =>
+    semver.satisfies(candidate, line, { includePrerelease: true })
+  const line = maintenanceLines.find((entry) => inLine(version, entry))
+  return publishedVersions
+    .filter(
+      (candidate) =>
+        (!line || inLine(candidate, line)) && semver.gt(candidate, version)
+    )
+    .sort(compareVersionsDescending)[0]
+}